@@ -0,0 +1,208 @@
+import { Token } from '../types';
+import { isRecord } from './tokenTree';
+
+// Alias syntax shared by Figma Tokens / Token Studio / W3C: "{color.brand.500}"
+const EXACT_ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+const EMBEDDED_ALIAS_PATTERN = /\{([^{}]+)\}/g;
+
+export type AliasIssue = {
+    tokenName: string;
+    type: 'circular' | 'dangling';
+    reference: string;
+    chain: string[];
+};
+
+type Resolution = {
+    value: unknown;
+    chain: string[];
+    error?: { type: 'circular' | 'dangling'; reference: string; chain: string[] };
+};
+
+/**
+ * Check whether a raw token value is a reference to another token
+ */
+export function isAlias(value: unknown): value is string {
+    return typeof value === 'string' && EXACT_ALIAS_PATTERN.test(value.trim());
+}
+
+/**
+ * Names of the tokens a raw value refers to, composite and per-mode values included
+ */
+export function findAliasReferences(value: unknown): string[] {
+    if (typeof value === 'string') {
+        return [...value.matchAll(EMBEDDED_ALIAS_PATTERN)].map(match => match[1].trim());
+    }
+    if (value && typeof value === 'object') {
+        return Object.values(value).flatMap(findAliasReferences);
+    }
+    return [];
+}
+
+/**
+ * Resolve alias references across the whole token set.
+ * Fills `Token.value` with the resolved value and stores the followed chain in `meta.aliasChain`.
+ * Circular or dangling references are recorded in `meta.aliasError` and returned as issues.
+ * Per-mode values in `Token.modes` are resolved in place; the tokens they referred to are kept in `meta.modeAliases`.
+ */
+export function resolveTokenAliases(tokens: Token[]): AliasIssue[] {
+    const byName = new Map<string, Token>();
+    for (const token of tokens) {
+        byName.set(token.name, token);
+    }
+
+    const cache = new Map<string, Resolution>();
+
+    function resolveName(name: string, stack: string[]): Resolution {
+        const cached = cache.get(name);
+        if (cached) return cached;
+
+        const cycleStart = stack.indexOf(name);
+        if (cycleStart !== -1) {
+            const chain = [...stack.slice(cycleStart), name];
+            return { value: undefined, chain: [], error: { type: 'circular', reference: name, chain } };
+        }
+
+        const token = byName.get(name);
+        if (!token) {
+            return { value: undefined, chain: [], error: { type: 'dangling', reference: name, chain: [...stack.slice(-1), name] } };
+        }
+
+        const resolution = resolveValue(token.rawValue, [...stack, name]);
+        cache.set(name, resolution);
+        return resolution;
+    }
+
+    function resolveValue(raw: unknown, stack: string[]): Resolution {
+        if (typeof raw === 'string') {
+            const exact = raw.trim().match(EXACT_ALIAS_PATTERN);
+            if (exact) {
+                const reference = exact[1].trim();
+                const target = resolveName(reference, stack);
+                return { value: target.value, chain: [reference, ...target.chain], error: target.error };
+            }
+
+            // Aliases embedded in a larger string, e.g. "0 2px 4px {color.shadow}"
+            let error: Resolution['error'];
+            const value = raw.replace(EMBEDDED_ALIAS_PATTERN, (match, reference: string) => {
+                const target = resolveName(reference.trim(), stack);
+                if (target.error) {
+                    error = error ?? target.error;
+                    return match;
+                }
+                return String(target.value);
+            });
+            return { value: error ? undefined : value, chain: [], error };
+        }
+
+        if (Array.isArray(raw)) {
+            const items = raw.map(item => resolveValue(item, stack));
+            const error = items.find(item => item.error)?.error;
+            return { value: error ? undefined : items.map(item => item.value), chain: [], error };
+        }
+
+        if (isRecord(raw)) {
+            // Composite values (typography, shadow, ...) may reference other tokens per property
+            const value: Record<string, unknown> = {};
+            let error: Resolution['error'];
+            for (const key of Object.keys(raw)) {
+                const item = resolveValue(raw[key], stack);
+                error = error ?? item.error;
+                value[key] = item.value;
+            }
+            return { value: error ? undefined : value, chain: [], error };
+        }
+
+        return { value: raw, chain: [] };
+    }
+
+    const issues: AliasIssue[] = [];
+
+    for (const token of tokens) {
+        const resolution = resolveName(token.name, []);
+        token.value = resolution.value;
+
+        if (resolution.chain.length > 0) {
+            token.meta = { ...token.meta, aliasChain: resolution.chain };
+        }
+
+        if (resolution.error) {
+            token.meta = { ...token.meta, aliasError: resolution.error };
+            issues.push({
+                tokenName: token.name,
+                type: resolution.error.type,
+                reference: resolution.error.reference,
+                chain: resolution.error.chain
+            });
+        }
+    }
+
+    resolveModeAliases(tokens, byName);
+
+    return issues;
+}
+
+/**
+ * Resolve aliases inside per-mode values.
+ * An alias in mode "dark" follows the target's "dark" value, falling back to its default value.
+ * Broken references resolve to undefined so the missing-mode rule reports them.
+ */
+function resolveModeAliases(tokens: Token[], byName: Map<string, Token>) {
+    const rawModes = new Map<string, Record<string, unknown>>();
+    for (const token of tokens) {
+        if (token.modes) rawModes.set(token.name, token.modes);
+    }
+
+    function resolveInMode(raw: unknown, mode: string, stack: string[]): unknown {
+        if (typeof raw === 'string') {
+            const exact = raw.trim().match(EXACT_ALIAS_PATTERN);
+            if (exact) {
+                const reference = exact[1].trim();
+                const target = byName.get(reference);
+                if (!target || stack.includes(reference)) return undefined;
+
+                const targetModes = rawModes.get(reference);
+                return targetModes && mode in targetModes
+                    ? resolveInMode(targetModes[mode], mode, [...stack, reference])
+                    : target.value;
+            }
+
+            let broken = false;
+            const value = raw.replace(EMBEDDED_ALIAS_PATTERN, (match, reference: string) => {
+                const resolved = resolveInMode(`{${reference.trim()}}`, mode, stack);
+                if (resolved === undefined) broken = true;
+                return String(resolved);
+            });
+            return broken ? undefined : value;
+        }
+
+        if (Array.isArray(raw)) {
+            return raw.map(item => resolveInMode(item, mode, stack));
+        }
+
+        if (isRecord(raw)) {
+            const value: Record<string, unknown> = {};
+            for (const key of Object.keys(raw)) {
+                value[key] = resolveInMode(raw[key], mode, stack);
+            }
+            return value;
+        }
+
+        return raw;
+    }
+
+    for (const token of tokens) {
+        const modes = rawModes.get(token.name);
+        if (!modes) continue;
+
+        const resolved: Record<string, unknown> = {};
+        for (const mode of Object.keys(modes)) {
+            resolved[mode] = resolveInMode(modes[mode], mode, [token.name]);
+        }
+        token.modes = resolved;
+
+        const references = [...new Set(findAliasReferences(modes))];
+        if (references.length > 0) {
+            token.meta = { ...token.meta, modeAliases: references };
+        }
+    }
+}
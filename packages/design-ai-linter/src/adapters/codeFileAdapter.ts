@@ -1,191 +1,143 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { execSync } from 'child_process';
-import { CodeFile } from '../types';
+import { execFileSync } from 'child_process';
+import { CodeFile, LineRange } from '../types';
+import { extractStyleDeclarations, scanColors, scanPixels, scanDimensions, RawValueMatch } from '../parsers';
+import { DEFAULT_UNITS } from '../dimension';
+import { findFiles, filterIgnoredFiles } from '../glob';
+
+/** Languages of the code files that can be analyzed, by extension */
+export const CODE_FILE_LANGUAGES: Record<string, CodeFile['language']> = {
+    '.ts': 'typescript',
+    '.tsx': 'typescript',
+    '.js': 'javascript',
+    '.jsx': 'javascript',
+    '.css': 'css',
+    '.scss': 'scss',
+    '.vue': 'vue',
+    '.svelte': 'svelte',
+    '.astro': 'astro',
+    '.html': 'html',
+    '.htm': 'html'
+};
 
 /**
- * Load code files matching the given glob pattern
- * Supports simple patterns like "src/**\/*.{tsx,ts,css,scss}"
+ * Language of a code file by its extension
+ * @returns undefined for files that can't be analyzed
+ */
+export function getCodeFileLanguage(filePath: string): CodeFile['language'] | undefined {
+    return CODE_FILE_LANGUAGES[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Load the code files matching glob patterns, relative to baseDir.
+ * Patterns starting with `!` exclude files (`["src/**\/*.{ts,tsx}", "!**\/*.test.ts"]`);
+ * .gitignore, .dslintignore and `options.ignore` are honored, see findFiles.
  */
 export async function loadCodeFiles(
-    pattern: string,
-    baseDir: string = process.cwd()
+    patterns: string | string[],
+    baseDir: string = process.cwd(),
+    options: { ignore?: string[] } = {}
 ): Promise<CodeFile[]> {
     const files: CodeFile[] = [];
-    
-    // Simple glob pattern matching
-    // For now, support basic patterns like "src/**/*.tsx" or "src/**/*.{tsx,css}"
-    const normalizedPattern = pattern.replace(/\\/g, '/');
-    const parts = normalizedPattern.split('/');
-    
-    // Extract file extensions
-    const extMatch = normalizedPattern.match(/\{([^}]+)\}/);
-    const extensions = extMatch 
-        ? extMatch[1].split(',').map(ext => ext.trim())
-        : [normalizedPattern.split('.').pop() || ''];
-    
-    // Extract directory pattern (everything before the last /)
-    const dirPattern = parts.slice(0, -1).join('/');
-    
-    // Resolve base directory
-    const resolvedBaseDir = path.resolve(baseDir);
-    
-    // Recursively search for files
-    await searchDirectory(resolvedBaseDir, dirPattern, extensions, files);
-    
+
+    for (const fullPath of await findFiles(patterns, { cwd: baseDir, ignore: options.ignore })) {
+        const language = getCodeFileLanguage(fullPath);
+        if (!language) continue;
+
+        files.push({
+            // Relative to baseDir like the paths of git diffs, so both resolve against the same directory
+            path: path.relative(path.resolve(baseDir), fullPath),
+            content: await fs.readFile(fullPath, 'utf-8'),
+            language
+        });
+    }
+
     return files;
 }
 
-async function searchDirectory(
-    currentDir: string,
-    dirPattern: string,
-    extensions: string[],
-    files: CodeFile[]
-): Promise<void> {
-    try {
-        const entries = await fs.readdir(currentDir, { withFileTypes: true });
-        
-        for (const entry of entries) {
-            // Skip node_modules, dist, build, etc.
-            if (entry.name.startsWith('.') || 
-                entry.name === 'node_modules' || 
-                entry.name === 'dist' || 
-                entry.name === 'build') {
-                continue;
-            }
-            
-            const fullPath = path.join(currentDir, entry.name);
-            
-            if (entry.isDirectory()) {
-                // Check if directory matches pattern (supports ** wildcard)
-                if (dirPattern.includes('**') || dirPattern === '' || 
-                    entry.name === dirPattern || 
-                    dirPattern.split('/').includes(entry.name)) {
-                    await searchDirectory(fullPath, dirPattern, extensions, files);
-                }
-            } else if (entry.isFile()) {
-                const ext = path.extname(entry.name);
-                if (extensions.some(e => ext === `.${e}` || ext === e)) {
-                    const content = await fs.readFile(fullPath, 'utf-8');
-                    const relativePath = path.relative(process.cwd(), fullPath);
-                    
-                    // Determine language
-                    let language: CodeFile['language'] = 'typescript';
-                    if (ext === '.css') language = 'css';
-                    else if (ext === '.scss' || ext === '.sass') language = 'scss';
-                    else if (ext === '.js' || ext === '.jsx') language = 'javascript';
-                    else if (ext === '.ts' || ext === '.tsx') language = 'typescript';
-                    
-                    files.push({
-                        path: relativePath,
-                        content,
-                        language
-                    });
-                }
-            }
-        }
-    } catch (error) {
-        // Skip directories we can't read
-        return;
-    }
+/**
+ * Extract raw color values from the style declarations of a code file
+ * Returns array of { value, property, line, column, offset }
+ */
+export function extractRawColors(
+    content: string,
+    language: CodeFile['language'] = 'css',
+    fileName?: string
+): RawValueMatch[] {
+    return scanColors(extractStyleDeclarations(content, language, fileName));
 }
 
 /**
- * Extract raw color values from code content
- * Returns array of { value, line, column }
+ * Extract raw pixel values from the style declarations of a code file
+ * Returns array of { value, property, line, column, offset }
  */
-export function extractRawColors(content: string): Array<{ value: string; line: number; column: number }> {
-    const colors: Array<{ value: string; line: number; column: number }> = [];
-    const lines = content.split('\n');
-    
-    // Hex colors: #RRGGBB or #RGB
-    const hexPattern = /#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})\b/g;
-    
-    // RGB/RGBA: rgb(255, 255, 255) or rgba(255, 255, 255, 0.5)
-    const rgbPattern = /rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+(?:\s*,\s*[\d.]+)?\s*\)/g;
-    
-    // HSL/HSLA: hsl(0, 100%, 50%) or hsla(0, 100%, 50%, 0.5)
-    const hslPattern = /hsla?\(\s*\d+\s*,\s*\d+%\s*,\s*\d+%(?:\s*,\s*[\d.]+)?\s*\)/g;
-    
-    lines.forEach((line, lineIndex) => {
-        // Skip comments and strings that might contain color-like text
-        // This is a simple heuristic - for production, use AST parsing
-        if (line.trim().startsWith('//') || line.trim().startsWith('*')) {
-            return;
-        }
-        
-        // Find hex colors
-        let match;
-        while ((match = hexPattern.exec(line)) !== null) {
-            colors.push({
-                value: match[0],
-                line: lineIndex + 1,
-                column: match.index + 1
-            });
-        }
-        
-        // Find RGB colors
-        while ((match = rgbPattern.exec(line)) !== null) {
-            colors.push({
-                value: match[0],
-                line: lineIndex + 1,
-                column: match.index + 1
-            });
-        }
-        
-        // Find HSL colors
-        while ((match = hslPattern.exec(line)) !== null) {
-            colors.push({
-                value: match[0],
-                line: lineIndex + 1,
-                column: match.index + 1
-            });
-        }
-    });
-    
-    return colors;
+export function extractRawPixels(
+    content: string,
+    language: CodeFile['language'] = 'css',
+    fileName?: string
+): RawValueMatch[] {
+    return scanPixels(extractStyleDeclarations(content, language, fileName));
 }
 
 /**
- * Extract raw pixel values from code content
- * Returns array of { value, line, column }
+ * Extract raw lengths in the given units (px, rem, em, %...) from the style declarations of a code file
+ * Returns array of { value, property, line, column, offset }
  */
-export function extractRawPixels(content: string): Array<{ value: string; line: number; column: number }> {
-    const pixels: Array<{ value: string; line: number; column: number }> = [];
-    const lines = content.split('\n');
-    
-    // Match patterns like: 16px, 24px, 1.5px, etc.
-    // But exclude common token patterns like var(--spacing-md)
-    const pxPattern = /\b(\d+(?:\.\d+)?)px\b/g;
-    
-    lines.forEach((line, lineIndex) => {
-        // Skip comments
-        if (line.trim().startsWith('//') || line.trim().startsWith('*')) {
-            return;
-        }
-        
-        // Skip if it's a CSS variable or token reference
-        if (line.includes('var(') || line.includes('--')) {
-            return;
-        }
-        
-        let match;
-        while ((match = pxPattern.exec(line)) !== null) {
-            // Skip if it's part of a token name or variable
-            const beforeMatch = line.substring(Math.max(0, match.index - 20), match.index);
-            if (beforeMatch.includes('--') || beforeMatch.includes('token')) {
-                continue;
-            }
-            
-            pixels.push({
-                value: match[0],
-                line: lineIndex + 1,
-                column: match.index + 1
-            });
-        }
-    });
-    
-    return pixels;
+export function extractRawDimensions(
+    content: string,
+    language: CodeFile['language'] = 'css',
+    fileName?: string,
+    units: readonly string[] = DEFAULT_UNITS
+): RawValueMatch[] {
+    return scanDimensions(extractStyleDeclarations(content, language, fileName), units);
+}
+
+/**
+ * Which changes to read from git. Priority: commitRange > since > staged
+ */
+export type GitDiffTarget = {
+    /** true: staged changes (read from the index), false: unstaged changes, undefined: both */
+    staged?: boolean;
+    /** Commit range such as "HEAD~1..HEAD" or "main..HEAD" */
+    commitRange?: string;
+    /** Branch or commit: changes since its merge-base with HEAD, uncommitted ones included */
+    since?: string;
+};
+
+/**
+ * A file in a git diff
+ */
+export type GitChange = {
+    /** Path relative to the directory git ran in */
+    path: string;
+    status: 'added' | 'modified' | 'renamed' | 'copied' | 'deleted';
+    /** Path before a rename or copy */
+    previousPath?: string;
+};
+
+const GIT_STATUSES: Record<string, GitChange['status']> = {
+    A: 'added',
+    M: 'modified',
+    T: 'modified',
+    R: 'renamed',
+    C: 'copied',
+    D: 'deleted'
+};
+
+/**
+ * Get the files of a git diff below baseDir, with renames detected
+ * @param baseDir - Base directory to run git commands from; paths are relative to it
+ * @returns Changed files, deleted ones included; empty when git fails (e.g., not a git repo)
+ */
+export function getGitChanges(baseDir: string = process.cwd(), target: GitDiffTarget = {}): GitChange[] {
+    try {
+        const output = runGit(['diff', '--name-status', '-z', '--find-renames', '--relative', ...getDiffRevisions(baseDir, target), '--'], baseDir);
+        return parseNameStatus(output);
+    } catch (error: any) {
+        console.warn(`⚠️  Gitコマンドの実行に失敗しました: ${error.message}`);
+        return [];
+    }
 }
 
 /**
@@ -193,93 +145,193 @@ export function extractRawPixels(content: string): Array<{ value: string; line:
  * @param baseDir - Base directory to run git commands from
  * @param staged - If true, get staged files. If false, get unstaged files. If undefined, get both staged and unstaged.
  * @param commitRange - Optional commit range (e.g., "HEAD~1..HEAD" or "main..HEAD")
- * @returns Array of changed file paths relative to baseDir
+ * @returns Array of changed file paths relative to baseDir, without deleted files
  */
 export function getGitChangedFiles(
     baseDir: string = process.cwd(),
     staged?: boolean,
     commitRange?: string
 ): string[] {
+    return getGitChanges(baseDir, { staged, commitRange })
+        .filter(change => change.status !== 'deleted')
+        // Filter to only include code files that we can analyze
+        .filter(change => getCodeFileLanguage(change.path) !== undefined)
+        .map(change => change.path);
+}
+
+/**
+ * Get the lines added or modified in each changed file, from the hunks of `git diff -U0`
+ * @param baseDir - Base directory to run git commands from
+ * @returns Line ranges by file path (relative to baseDir); renamed files without edits and files with only deleted lines have none
+ */
+export function getGitChangedLines(baseDir: string = process.cwd(), target: GitDiffTarget = {}): Map<string, LineRange[]> {
     try {
-        let command: string;
-        
-        if (commitRange) {
-            // Get files changed in commit range
-            command = `git diff --name-only ${commitRange}`;
-        } else if (staged === true) {
-            // Get staged files
-            command = 'git diff --cached --name-only';
-        } else if (staged === false) {
-            // Get unstaged files
-            command = 'git diff --name-only';
-        } else {
-            // Get both staged and unstaged files
-            command = 'git diff --name-only HEAD';
-        }
-        
-        const output = execSync(command, {
-            cwd: baseDir,
-            encoding: 'utf-8',
-            stdio: ['pipe', 'pipe', 'pipe']
-        });
-        
-        const files = output
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.length > 0)
-            .filter(file => {
-                // Filter to only include code files that we can analyze
-                const ext = path.extname(file);
-                return ['.ts', '.tsx', '.js', '.jsx', '.css', '.scss', '.sass'].includes(ext);
-            });
-        
-        return files;
+        const output = runGit([
+            'diff', '-U0', '--no-color', '--no-ext-diff', '--find-renames', '--relative',
+            '--src-prefix=a/', '--dst-prefix=b/', ...getDiffRevisions(baseDir, target), '--'
+        ], baseDir);
+        return parseDiffChangedLines(output);
     } catch (error: any) {
-        // If git command fails (e.g., not a git repo), return empty array
         console.warn(`⚠️  Gitコマンドの実行に失敗しました: ${error.message}`);
-        return [];
+        return new Map();
+    }
+}
+
+/**
+ * Read the new-side line ranges of the hunks of a unified diff. Deleted files are left out.
+ */
+export function parseDiffChangedLines(diff: string): Map<string, LineRange[]> {
+    const changedLines = new Map<string, LineRange[]>();
+    let current: LineRange[] | undefined;
+    // An added line starting with `++ ` looks like a header line; headers only come before the first hunk
+    let inHeader = false;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            inHeader = true;
+            current = undefined;
+            continue;
+        }
+        if (inHeader && line.startsWith('+++ ')) {
+            const target = unquoteDiffPath(line.slice(4).trimEnd());
+            current = target === '/dev/null' ? undefined : [];
+            if (current) changedLines.set(target.replace(/^b\//, ''), current);
+            continue;
+        }
+
+        // @@ -old[,count] +new[,count] @@: a missing count is 1, a count of 0 means nothing was added
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (hunk) inHeader = false;
+        if (hunk && current) {
+            const start = Number(hunk[1]);
+            const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+            if (count > 0) current.push({ start, end: start + count - 1 });
+        }
     }
+
+    return changedLines;
 }
 
 /**
  * Load code files from git diff
  * @param baseDir - Base directory to run git commands from
- * @param staged - If true, get staged files. If false, get unstaged files. If undefined, get both staged and unstaged.
+ * @param staged - If true, get staged files, with the content staged in the index rather than the working tree.
+ *   If false, get unstaged files. If undefined, get both staged and unstaged.
  * @param commitRange - Optional commit range (e.g., "HEAD~1..HEAD" or "main..HEAD")
- * @returns Array of CodeFile objects for changed files
+ * @param options - `ignore`: more ignore patterns; files excluded by them or by .dslintignore/.gitignore are skipped.
+ *   `changedLines`: record the added or modified lines of each file so only they are reported.
+ *   `since`: instead of staged, the changes since the merge-base of a branch and HEAD
+ * @returns Array of CodeFile objects for changed files; deleted files are skipped
  */
 export async function loadCodeFilesFromGitDiff(
     baseDir: string = process.cwd(),
     staged?: boolean,
-    commitRange?: string
+    commitRange?: string,
+    options: { ignore?: string[]; changedLines?: boolean; since?: string } = {}
 ): Promise<CodeFile[]> {
-    const changedFiles = getGitChangedFiles(baseDir, staged, commitRange);
+    const target: GitDiffTarget = { staged, commitRange, since: options.since };
+    const changes = getGitChanges(baseDir, target)
+        .filter(change => change.status !== 'deleted' && getCodeFileLanguage(change.path) !== undefined);
+    const kept = new Set(await filterIgnoredFiles(changes.map(change => change.path), { cwd: baseDir, ignore: options.ignore }));
+    const changedLines = options.changedLines ? getGitChangedLines(baseDir, target) : undefined;
+    const fromIndex = staged === true && !commitRange && !options.since;
     const codeFiles: CodeFile[] = [];
-    
-    for (const filePath of changedFiles) {
+
+    for (const change of changes) {
+        if (!kept.has(change.path)) continue;
         try {
-            const fullPath = path.resolve(baseDir, filePath);
-            const content = await fs.readFile(fullPath, 'utf-8');
-            const ext = path.extname(filePath);
-            
-            // Determine language
-            let language: CodeFile['language'] = 'typescript';
-            if (ext === '.css') language = 'css';
-            else if (ext === '.scss' || ext === '.sass') language = 'scss';
-            else if (ext === '.js' || ext === '.jsx') language = 'javascript';
-            else if (ext === '.ts' || ext === '.tsx') language = 'typescript';
-            
+            const content = fromIndex
+                ? runGit(['show', `:./${change.path}`], baseDir)
+                : await fs.readFile(path.resolve(baseDir, change.path), 'utf-8');
             codeFiles.push({
-                path: filePath,
+                path: change.path,
                 content,
-                language
+                language: getCodeFileLanguage(change.path) ?? 'typescript',
+                ...(change.previousPath && { previousPath: change.previousPath }),
+                ...(changedLines && { changedLines: changedLines.get(change.path) ?? [] })
             });
         } catch (error: any) {
-            // Skip files that can't be read (e.g., deleted files)
-            console.warn(`⚠️  ファイルを読み込めませんでした: ${filePath} - ${error.message}`);
+            // Skip files that can't be read (e.g., unmerged files without a staged version)
+            console.warn(`⚠️  ファイルを読み込めませんでした: ${change.path} - ${error.message}`);
         }
     }
-    
+
     return codeFiles;
 }
 
+/**
+ * Run git with an argument list; no shell is involved, so revisions and paths are never interpreted
+ */
+function runGit(args: string[], cwd: string): string {
+    return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe'],
+        maxBuffer: 64 * 1024 * 1024
+    });
+}
+
+/**
+ * The revisions `git diff` compares for a target
+ * @throws Error for a revision that git would take as an option, or when there is no merge-base
+ */
+function getDiffRevisions(baseDir: string, target: GitDiffTarget): string[] {
+    if (target.commitRange) {
+        return [checkRevision(target.commitRange)];
+    }
+    if (target.since) {
+        return [runGit(['merge-base', checkRevision(target.since), 'HEAD'], baseDir).trim()];
+    }
+    if (target.staged === true) return ['--cached'];
+    if (target.staged === false) return [];
+    return ['HEAD'];
+}
+
+function checkRevision(revision: string): string {
+    if (revision.startsWith('-')) {
+        throw new Error(`不正なリビジョンです: ${revision}`);
+    }
+    return revision;
+}
+
+/**
+ * Parse `git diff --name-status -z`: a status, then one path or (renames and copies) two, each NUL-terminated
+ */
+function parseNameStatus(output: string): GitChange[] {
+    const fields = output.split('\0');
+    const changes: GitChange[] = [];
+
+    for (let i = 0; i < fields.length && fields[i] !== '';) {
+        const status = GIT_STATUSES[fields[i][0]];
+        if (fields[i][0] === 'R' || fields[i][0] === 'C') {
+            changes.push({ path: fields[i + 2], status, previousPath: fields[i + 1] });
+            i += 3;
+        } else {
+            // Unmerged and unknown entries carry no content to lint
+            if (status) changes.push({ path: fields[i + 1], status });
+            i += 2;
+        }
+    }
+
+    return changes;
+}
+
+/** Git quotes paths with special characters in C style: `"b/caf\303\251.css"` */
+function unquoteDiffPath(diffPath: string): string {
+    if (!diffPath.startsWith('"')) return diffPath;
+    const bytes: number[] = [];
+    const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+    const body = diffPath.slice(1, -1);
+    for (let i = 0; i < body.length; i++) {
+        if (body[i] !== '\\') {
+            bytes.push(...Buffer.from(body[i]));
+        } else if (/[0-7]/.test(body[i + 1])) {
+            bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+            i += 3;
+        } else {
+            bytes.push(...Buffer.from(escapes[body[i + 1]] ?? body[i + 1]));
+            i++;
+        }
+    }
+    return Buffer.from(bytes).toString('utf-8');
+}
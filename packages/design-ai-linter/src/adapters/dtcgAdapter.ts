@@ -0,0 +1,244 @@
+import fs from 'fs/promises';
+import {
+    Token,
+    DtcgBorder,
+    DtcgColor,
+    DtcgDimension,
+    DtcgDuration,
+    DtcgGradientStop,
+    DtcgShadowLayer,
+    DtcgTransition,
+    DtcgTypography
+} from '../types';
+import { resolveTokenAliases } from './aliasResolver';
+import { FONT_WEIGHT_ALIASES } from '../typography/parse';
+
+/**
+ * Load tokens from a file in the W3C Design Tokens Community Group format
+ * https://tr.designtokens.org/format/
+ */
+export async function loadTokensFromDtcg(path: string): Promise<Token[]> {
+    const raw = await fs.readFile(path, 'utf-8');
+    return parseDtcgTokens(JSON.parse(raw));
+}
+
+type GroupContext = {
+    type?: string;
+    deprecated?: boolean | string;
+    /** Set below a key the spec doesn't allow in names */
+    nameError?: string;
+};
+
+/**
+ * Parse a DTCG token tree into Tokens.
+ * - `$type` falls back to the aliased token's type, then to the closest parent group's `$type`
+ * - `$deprecated` on a group applies to every token inside it unless a token overrides it
+ * - `$value` is kept as rawValue; `value` holds the alias-resolved, normalized value
+ * - `$extensions.modes` holds per-mode values and is resolved and normalized like `$value`
+ * - names with `{`, `}` or `.` in a key are kept with `meta.nameError` for naming-convention to report;
+ *   they can't be referenced, so aliases are resolved without them
+ */
+export function parseDtcgTokens(json: any): Token[] {
+    const tokens: Token[] = [];
+    const inheritedTypes = new Map<string, string>();
+
+    function walk(group: any, prefix: string, context: GroupContext) {
+        const groupContext: GroupContext = {
+            type: group.$type ?? context.type,
+            deprecated: group.$deprecated ?? context.deprecated,
+            nameError: context.nameError
+        };
+
+        for (const key of Object.keys(group)) {
+            // Properties prefixed with $ are reserved for the spec ($type, $description, $extensions, ...)
+            if (key.startsWith('$')) continue;
+
+            const node = group[key];
+            if (!node || typeof node !== 'object' || Array.isArray(node)) continue;
+
+            const name = prefix ? `${prefix}.${key}` : key;
+            const nameError = /[{}.]/.test(key)
+                ? `"${key}" contains a character reserved by the DTCG format ({, } or .)`
+                : groupContext.nameError;
+
+            if ('$value' in node) {
+                const deprecated = node.$deprecated ?? groupContext.deprecated;
+                if (groupContext.type) {
+                    inheritedTypes.set(name, groupContext.type);
+                }
+                tokens.push({
+                    type: node.$type,
+                    name,
+                    rawValue: node.$value,
+                    ...(typeof node.$description === 'string' ? { description: node.$description } : {}),
+                    ...(deprecated !== undefined && deprecated !== false ? { deprecated } : {}),
+                    ...(node.$extensions && typeof node.$extensions === 'object' ? { extensions: node.$extensions } : {}),
+                    ...(node.$extensions?.modes && typeof node.$extensions.modes === 'object' ? { modes: { ...node.$extensions.modes } } : {}),
+                    meta: nameError ? { ...node, nameError } : node
+                });
+            } else {
+                walk(node, name, { ...groupContext, nameError });
+            }
+        }
+    }
+
+    walk(json, '', {});
+
+    resolveTokenAliases(tokens.filter(token => !token.meta?.nameError));
+
+    const byName = new Map(tokens.map(t => [t.name, t]));
+    for (const token of tokens) {
+        if (!token.type) {
+            token.type = resolveType(token) ?? 'other';
+        }
+        if (token.value !== undefined) {
+            token.value = normalizeDtcgValue(token.type, token.value);
+        }
+        if (token.modes) {
+            for (const mode of Object.keys(token.modes)) {
+                if (token.modes[mode] !== undefined) {
+                    token.modes[mode] = normalizeDtcgValue(token.type, token.modes[mode]);
+                }
+            }
+        }
+    }
+
+    return tokens;
+
+    function resolveType(token: Token, visited = new Set<string>()): string | undefined {
+        if (token.meta?.$type) return token.meta.$type;
+
+        // An alias takes the type of the token at the end of its chain; a cycle is left to alias-reference
+        const chain: string[] = token.meta?.aliasChain ?? [];
+        visited.add(token.name);
+        if (chain.length > 0 && !visited.has(chain[chain.length - 1])) {
+            const target = byName.get(chain[chain.length - 1]);
+            const targetType = target ? resolveType(target, visited) : undefined;
+            if (targetType) return targetType;
+        }
+
+        return inheritedTypes.get(token.name);
+    }
+}
+
+/**
+ * Normalize a resolved DTCG value into the string-based shape the static rules compare against
+ */
+export function normalizeDtcgValue(type: string, value: any): any {
+    switch (type) {
+        case 'color':
+            return normalizeColor(value);
+        case 'dimension':
+            return normalizeDimension(value);
+        case 'duration':
+            return normalizeDuration(value);
+        case 'fontWeight':
+            return normalizeFontWeight(value);
+        case 'shadow':
+            return Array.isArray(value)
+                ? value.map(normalizeShadowLayer)
+                : normalizeShadowLayer(value);
+        case 'border':
+            return normalizeBorder(value);
+        case 'gradient':
+            return Array.isArray(value) ? value.map(normalizeGradientStop) : value;
+        case 'transition':
+            return normalizeTransition(value);
+        case 'typography':
+            return normalizeTypography(value);
+        default:
+            return value;
+    }
+}
+
+function normalizeColor(value: DtcgColor): string {
+    if (typeof value === 'string' || !value || typeof value !== 'object') return value as string;
+    if (value.hex) {
+        return value.alpha !== undefined && value.alpha < 1
+            ? `${value.hex.toLowerCase()}${toHexByte(value.alpha)}`
+            : value.hex.toLowerCase();
+    }
+
+    // A color without components or hex can't be written as CSS; it is kept as written
+    if (!Array.isArray(value.components)) return value as unknown as string;
+    const components = value.components.map(c => (c === 'none' ? 0 : c));
+    if (value.colorSpace === 'srgb') {
+        const hex = `#${components.map(toHexByte).join('')}`;
+        return value.alpha !== undefined && value.alpha < 1 ? `${hex}${toHexByte(value.alpha)}` : hex;
+    }
+
+    // Spaces with their own CSS function; the rest are predefined spaces of color()
+    const alpha = value.alpha !== undefined && value.alpha < 1 ? ` / ${value.alpha}` : '';
+    if (value.colorSpace === 'hsl' || value.colorSpace === 'hwb') {
+        const [hue, ...percentages] = components;
+        return `${value.colorSpace}(${hue} ${percentages.map(c => `${c}%`).join(' ')}${alpha})`;
+    }
+    if (['lab', 'lch', 'oklab', 'oklch'].includes(value.colorSpace)) {
+        return `${value.colorSpace}(${components.join(' ')}${alpha})`;
+    }
+    return `color(${value.colorSpace} ${components.join(' ')}${alpha})`;
+}
+
+function normalizeDimension(value: DtcgDimension): string {
+    if (value && typeof value === 'object') return `${value.value}${value.unit}`;
+    return value;
+}
+
+function normalizeDuration(value: DtcgDuration): string {
+    if (value && typeof value === 'object') return `${value.value}${value.unit}`;
+    return value;
+}
+
+function normalizeFontWeight(value: number | string): number | string {
+    if (typeof value === 'string' && value in FONT_WEIGHT_ALIASES) return FONT_WEIGHT_ALIASES[value];
+    return value;
+}
+
+function normalizeShadowLayer(layer: DtcgShadowLayer): DtcgShadowLayer {
+    if (!layer || typeof layer !== 'object') return layer;
+    return {
+        ...layer,
+        color: normalizeColor(layer.color),
+        offsetX: normalizeDimension(layer.offsetX),
+        offsetY: normalizeDimension(layer.offsetY),
+        blur: normalizeDimension(layer.blur),
+        spread: normalizeDimension(layer.spread)
+    };
+}
+
+function normalizeBorder(border: DtcgBorder): DtcgBorder {
+    if (!border || typeof border !== 'object') return border;
+    return {
+        ...border,
+        color: normalizeColor(border.color),
+        width: normalizeDimension(border.width)
+    };
+}
+
+function normalizeGradientStop(stop: DtcgGradientStop): DtcgGradientStop {
+    if (!stop || typeof stop !== 'object') return stop;
+    return { ...stop, color: normalizeColor(stop.color) };
+}
+
+function normalizeTransition(transition: DtcgTransition): DtcgTransition {
+    if (!transition || typeof transition !== 'object') return transition;
+    return {
+        ...transition,
+        duration: normalizeDuration(transition.duration),
+        delay: normalizeDuration(transition.delay)
+    };
+}
+
+function normalizeTypography(typography: DtcgTypography): DtcgTypography {
+    if (!typography || typeof typography !== 'object') return typography;
+    return {
+        ...typography,
+        fontSize: normalizeDimension(typography.fontSize),
+        fontWeight: normalizeFontWeight(typography.fontWeight),
+        letterSpacing: normalizeDimension(typography.letterSpacing)
+    };
+}
+
+function toHexByte(n: number): string {
+    return Math.round(Math.min(1, Math.max(0, n)) * 255).toString(16).padStart(2, '0');
+}
@@ -0,0 +1,29 @@
+import { Token } from '../types';
+import { loadTokensFromJson } from './tokensJsonAdapter';
+import { loadTokensFromDtcg } from './dtcgAdapter';
+import { loadTokensFromTokensStudio } from './tokensStudioAdapter';
+
+export type TokenSourceConfig = {
+    type?: 'tokensJson' | 'dtcg' | 'tokensStudio';
+    path: string;
+    theme?: string; // Tokens Studio theme name (defaults to the first theme)
+};
+
+/**
+ * Load tokens with the adapter matching `source.type`.
+ * `tokensJson` (default) accepts the loose Figma Tokens format, `dtcg` follows the W3C spec strictly,
+ * `tokensStudio` reads a multi-set export and activates the sets of the configured theme.
+ */
+export async function loadTokensFromSource(source: TokenSourceConfig): Promise<Token[]> {
+    switch (source.type) {
+        case 'dtcg':
+            return loadTokensFromDtcg(source.path);
+        case 'tokensStudio':
+            return loadTokensFromTokensStudio(source.path, source.theme);
+        case 'tokensJson':
+        case undefined:
+            return loadTokensFromJson(source.path, source.theme);
+        default:
+            throw new Error(`未対応のトークンソース形式です: ${source.type}`);
+    }
+}
@@ -0,0 +1,69 @@
+import { Token } from '../types';
+
+/**
+ * Check whether a parsed JSON value is an object whose keys can be walked
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Walk a token tree and collect every node that has a value, without resolving aliases.
+ * Parses format compatible with Figma Tokens / Token Studio / W3C
+ * Simplified example: { "color": { "primary": { "base": { "value": "#ff0000", "type": "color" } } } }
+ */
+export function collectTokens(json: unknown, prefix = ''): Token[] {
+    const tokens: Token[] = [];
+
+    function walk(obj: Record<string, unknown>, prefix = '') {
+        for (const k of Object.keys(obj)) {
+            // $-prefixed keys are metadata ($themes, $metadata, $extensions...), never tokens
+            if (k.startsWith('$')) continue;
+
+            const val = obj[k];
+            const name = prefix ? `${prefix}.${k}` : k;
+
+            // Check if this node is a token (has a 'value' or '$value' property)
+            if (isRecord(val) && ('value' in val || '$value' in val)) {
+                const rawValue = val.value ?? val.$value;
+                const modes = val.modes ?? (isRecord(val.$extensions) ? val.$extensions.modes : undefined);
+                tokens.push({
+                    // Left undefined when not declared; inferMissingTypes fills it in
+                    type: (val.type ?? val.$type) as string,
+                    name,
+                    rawValue,
+                    ...(modes && typeof modes === 'object' ? { modes: { ...modes } } : {}),
+                    meta: val
+                });
+            } else if (isRecord(val)) {
+                // Continue traversing
+                walk(val, name);
+            }
+        }
+    }
+
+    if (isRecord(json)) walk(json, prefix);
+    return tokens;
+}
+
+/**
+ * Infer the type of tokens that don't declare one.
+ * Aliases take the type of the token they point to, otherwise the resolved value decides.
+ */
+export function inferMissingTypes(tokens: Token[]) {
+    const byName = new Map(tokens.map(t => [t.name, t]));
+
+    for (const token of tokens) {
+        if (token.type) continue;
+
+        const chain: string[] = token.meta?.aliasChain ?? [];
+        const typedTarget = chain.map(name => byName.get(name)).find(t => t?.meta?.type ?? t?.meta?.$type);
+        if (typedTarget) {
+            token.type = typedTarget.meta!.type ?? typedTarget.meta!.$type;
+            continue;
+        }
+
+        const value = token.value ?? token.rawValue;
+        token.type = typeof value === 'string' && value.startsWith('#') ? 'color' : 'other';
+    }
+}
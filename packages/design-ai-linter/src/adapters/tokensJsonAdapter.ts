@@ -1,35 +1,23 @@
 import fs from 'fs/promises';
 import { Token } from '../types';
+import { resolveTokenAliases } from './aliasResolver';
+import { collectTokens, inferMissingTypes } from './tokenTree';
+import { isTokensStudioExport, parseTokensStudio } from './tokensStudioAdapter';
 
-export async function loadTokensFromJson(path: string): Promise<Token[]> {
+export async function loadTokensFromJson(path: string, themeName?: string): Promise<Token[]> {
     const raw = await fs.readFile(path, 'utf-8');
     const json = JSON.parse(raw);
-    // Parses format compatible with Figma Tokens / Token Studio / W3C
-    // Simplified example: { "color": { "primary": { "base": { "value": "#ff0000", "type": "color" } } } }
-    const tokens: Token[] = [];
 
-    function walk(obj: any, prefix = '') {
-        for (const k of Object.keys(obj)) {
-            const val = obj[k];
-            const name = prefix ? `${prefix}.${k}` : k;
-
-            // Check if this node is a token (has a 'value' or '$value' property)
-            if (val && typeof val === 'object' && ('value' in val || '$value' in val)) {
-                const rawValue = val.value ?? val.$value;
-                const type = val.type ?? val.$type ?? (typeof rawValue === 'string' && rawValue.startsWith('#') ? 'color' : 'other');
-                tokens.push({
-                    type,
-                    name,
-                    rawValue,
-                    meta: val
-                });
-            } else if (typeof val === 'object') {
-                // Continue traversing
-                walk(val, name);
-            }
-        }
+    // Tokens Studio multi-set exports carry $themes / $metadata next to the sets
+    if (isTokensStudioExport(json)) {
+        return parseTokensStudio(json, themeName);
     }
 
-    walk(json);
+    const tokens = collectTokens(json);
+
+    // Follow alias chains so Token.value always holds the concrete value
+    resolveTokenAliases(tokens);
+    inferMissingTypes(tokens);
+
     return tokens;
 }
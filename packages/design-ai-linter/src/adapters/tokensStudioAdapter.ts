@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import { Token } from '../types';
+import { resolveTokenAliases } from './aliasResolver';
+import { collectTokens, inferMissingTypes, isRecord } from './tokenTree';
+
+type TokenSetStatus = 'enabled' | 'source' | 'disabled';
+
+type TokensStudioTheme = {
+    id?: string;
+    name: string;
+    group?: string;
+    selectedTokenSets: Record<string, TokenSetStatus>;
+};
+
+/**
+ * Check whether a parsed JSON file is a Tokens Studio multi-set export
+ */
+export function isTokensStudioExport(json: unknown): boolean {
+    return isRecord(json) && ('$themes' in json || '$metadata' in json);
+}
+
+export async function loadTokensFromTokensStudio(path: string, themeName?: string): Promise<Token[]> {
+    const raw = await fs.readFile(path, 'utf-8');
+    return parseTokensStudio(JSON.parse(raw), themeName);
+}
+
+/**
+ * Build the active token list of a Tokens Studio export.
+ * Without a theme name the first theme is used; an export without themes activates every set.
+ */
+export function parseTokensStudio(json: unknown, themeName?: string): Token[] {
+    const root = isRecord(json) ? json : {};
+    const themes = getThemes(root);
+
+    if (themeName) {
+        const theme = themes.find(t => t.name === themeName || t.id === themeName);
+        if (!theme) {
+            const available = themes.map(t => t.name).join(', ') || 'なし';
+            throw new Error(`テーマ "${themeName}" が見つかりません（利用可能なテーマ: ${available}）`);
+        }
+        return buildThemeTokens(root, theme.selectedTokenSets);
+    }
+
+    if (themes.length > 0) {
+        return buildThemeTokens(root, themes[0].selectedTokenSets);
+    }
+
+    const allEnabled: Record<string, TokenSetStatus> = {};
+    for (const set of getTokenSetOrder(root)) {
+        allEnabled[set] = 'enabled';
+    }
+    return buildThemeTokens(root, allEnabled);
+}
+
+/**
+ * Build the active token list for every theme, keyed by theme name
+ */
+export function parseTokensStudioThemes(json: unknown): Map<string, Token[]> {
+    const result = new Map<string, Token[]>();
+    const root = isRecord(json) ? json : {};
+    for (const theme of getThemes(root)) {
+        result.set(theme.name, buildThemeTokens(root, theme.selectedTokenSets));
+    }
+    return result;
+}
+
+function getThemes(json: Record<string, unknown>): TokensStudioTheme[] {
+    return Array.isArray(json.$themes)
+        ? json.$themes.filter((t: unknown): t is TokensStudioTheme => isRecord(t) && typeof t.name === 'string' && isRecord(t.selectedTokenSets))
+        : [];
+}
+
+/**
+ * Token sets in resolution order: $metadata.tokenSetOrder first, then any set it doesn't list
+ */
+function getTokenSetOrder(json: Record<string, unknown>): string[] {
+    const sets = Object.keys(json).filter(key => !key.startsWith('$') && isRecord(json[key]));
+    const order = isRecord(json.$metadata) ? json.$metadata.tokenSetOrder : undefined;
+    const declared = Array.isArray(order) ? order.filter((set): set is string => typeof set === 'string') : [];
+    return [
+        ...declared.filter(set => sets.includes(set)),
+        ...sets.filter(set => !declared.includes(set))
+    ];
+}
+
+/**
+ * Merge the selected sets in order (later sets override earlier ones) and resolve aliases.
+ * `source` sets only serve as alias targets; only tokens from `enabled` sets are returned.
+ */
+function buildThemeTokens(json: Record<string, unknown>, selectedTokenSets: Record<string, TokenSetStatus>): Token[] {
+    const merged = new Map<string, { token: Token; status: TokenSetStatus }>();
+
+    for (const set of getTokenSetOrder(json)) {
+        const status = selectedTokenSets[set];
+        if (status !== 'enabled' && status !== 'source') continue;
+
+        for (const token of collectTokens(json[set])) {
+            // Drop the stale entry so the override takes the later set's position
+            merged.delete(token.name);
+            merged.set(token.name, { token: { ...token, set }, status });
+        }
+    }
+
+    const tokens = Array.from(merged.values()).map(entry => entry.token);
+    resolveTokenAliases(tokens);
+    inferMissingTypes(tokens);
+
+    return Array.from(merged.values())
+        .filter(entry => entry.status === 'enabled')
+        .map(entry => entry.token);
+}
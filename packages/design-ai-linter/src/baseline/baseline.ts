@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { CodeFile, Diagnostic } from '../types';
+
+/** Baseline file `dslint lint` picks up from the working directory when --baseline is not given */
+export const DEFAULT_BASELINE_FILE = '.dslint-baseline.json';
+
+const baselineEntrySchema = z.object({
+    ruleId: z.string(),
+    file: z.string().optional(),
+    message: z.string(),
+    count: z.number().int().positive()
+});
+
+const baselineSchema = z.object({
+    version: z.literal(1),
+    entries: z.record(z.string(), baselineEntrySchema)
+});
+
+/** Known diagnostics sharing one fingerprint; `message` is the first one's, for reading the file */
+export type BaselineEntry = z.infer<typeof baselineEntrySchema>;
+
+/**
+ * Diagnostics accepted as they are, by fingerprint.
+ * File paths are relative to the directory of the baseline file so it works from any working directory.
+ */
+export type Baseline = z.infer<typeof baselineSchema>;
+
+export type BaselineOptions = {
+    /** Directory the diagnostics' file paths are relative to (default: process.cwd()) */
+    cwd?: string;
+    /** Directory of the baseline file (default: `cwd`) */
+    baseDir?: string;
+};
+
+export type BaselineResult = {
+    /** Diagnostics the baseline doesn't know */
+    diagnostics: Diagnostic[];
+    /** Diagnostics matched by the baseline */
+    baselined: Diagnostic[];
+    /** Baseline entries with fewer diagnostics than recorded; `count` is how many are gone */
+    fixed: (BaselineEntry & { fingerprint: string })[];
+};
+
+/**
+ * Record the diagnostics as a baseline
+ */
+export function createBaseline(diagnostics: Diagnostic[], codeFiles: CodeFile[], options: BaselineOptions = {}): Baseline {
+    const fingerprint = createFingerprinter(codeFiles, options);
+    const entries = new Map<string, BaselineEntry>();
+
+    for (const diagnostic of diagnostics) {
+        const key = fingerprint(diagnostic);
+        const entry = entries.get(key);
+        if (entry) {
+            entry.count++;
+        } else {
+            const file = toBaselinePath(diagnostic.file, options);
+            entries.set(key, { ruleId: diagnostic.ruleId, ...(file && { file }), message: diagnostic.message, count: 1 });
+        }
+    }
+
+    return { version: 1, entries: sortEntries(entries) };
+}
+
+/**
+ * Split the diagnostics into new ones and ones the baseline accepts, and list what was fixed since.
+ * When a fingerprint has more diagnostics than recorded, the ones past the recorded count are new.
+ */
+export function applyBaseline(
+    diagnostics: Diagnostic[],
+    codeFiles: CodeFile[],
+    baseline: Baseline,
+    options: BaselineOptions = {}
+): BaselineResult {
+    const fingerprint = createFingerprinter(codeFiles, options);
+    const seen = new Map<string, number>();
+    const result: BaselineResult = { diagnostics: [], baselined: [], fixed: [] };
+
+    for (const diagnostic of diagnostics) {
+        const key = fingerprint(diagnostic);
+        const count = (seen.get(key) ?? 0) + 1;
+        seen.set(key, count);
+        if (count <= (baseline.entries[key]?.count ?? 0)) {
+            result.baselined.push(diagnostic);
+        } else {
+            result.diagnostics.push(diagnostic);
+        }
+    }
+
+    for (const [key, entry] of Object.entries(baseline.entries)) {
+        const remaining = seen.get(key) ?? 0;
+        if (remaining < entry.count) {
+            result.fixed.push({ fingerprint: key, ...entry, count: entry.count - remaining });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * The baseline without the diagnostics that were fixed. Never adds entries, so new problems stay visible.
+ */
+export function pruneBaseline(baseline: Baseline, fixed: BaselineResult['fixed']): Baseline {
+    const entries = new Map(Object.entries(baseline.entries).map(([key, entry]) => [key, { ...entry }]));
+    for (const { fingerprint, count } of fixed) {
+        const entry = entries.get(fingerprint);
+        if (!entry) continue;
+        entry.count -= count;
+        if (entry.count <= 0) entries.delete(fingerprint);
+    }
+    return { version: 1, entries: sortEntries(entries) };
+}
+
+/**
+ * @throws Error when the file is missing or isn't a baseline
+ */
+export async function readBaseline(filepath: string): Promise<Baseline> {
+    const content = await fs.readFile(filepath, 'utf-8');
+    let raw: unknown;
+    try {
+        raw = JSON.parse(content);
+    } catch (error: any) {
+        throw new Error(`ベースラインファイル ${filepath} のJSONが不正です: ${error.message}`);
+    }
+
+    const result = baselineSchema.safeParse(raw);
+    if (!result.success) {
+        throw new Error(`ベースラインファイル ${filepath} の形式が不正です（dslint baselineで作り直してください）`);
+    }
+    return result.data;
+}
+
+export async function writeBaseline(filepath: string, baseline: Baseline): Promise<void> {
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.writeFile(filepath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Fingerprints identify a diagnostic by its rule, its file and the text of its line rather than the line number,
+ * so they survive edits elsewhere in the file. Diagnostics without a location use their token and message.
+ */
+function createFingerprinter(codeFiles: CodeFile[], options: BaselineOptions): (diagnostic: Diagnostic) => string {
+    const lines = new Map<string, string[]>();
+    for (const codeFile of codeFiles) {
+        lines.set(codeFile.path, codeFile.content.split(/\r?\n/));
+    }
+
+    return (diagnostic: Diagnostic) => {
+        const file = toBaselinePath(diagnostic.file, options);
+        const lineText = diagnostic.file && diagnostic.line
+            ? lines.get(diagnostic.file)?.[diagnostic.line - 1]?.replace(/\s+/g, ' ').trim()
+            : undefined;
+        const parts = lineText !== undefined
+            ? [diagnostic.ruleId, file, lineText]
+            : [diagnostic.ruleId, file ?? '', diagnostic.tokenName ?? '', diagnostic.message];
+        return crypto.createHash('sha256').update(parts.join('\0')).digest('hex').slice(0, 16);
+    };
+}
+
+function toBaselinePath(file: string | undefined, options: BaselineOptions): string | undefined {
+    if (!file) return undefined;
+    const cwd = options.cwd ?? process.cwd();
+    return path.relative(options.baseDir ?? cwd, path.resolve(cwd, file)).split(path.sep).join('/');
+}
+
+/** Entries by file, rule and fingerprint, so regenerating a baseline gives small diffs */
+function sortEntries(entries: Map<string, BaselineEntry>): Record<string, BaselineEntry> {
+    const sorted = [...entries].sort(([keyA, a], [keyB, b]) =>
+        (a.file ?? '').localeCompare(b.file ?? '') || a.ruleId.localeCompare(b.ruleId) || keyA.localeCompare(keyB)
+    );
+    return Object.fromEntries(sorted);
+}
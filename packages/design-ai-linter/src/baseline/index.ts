@@ -0,0 +1,12 @@
+export {
+    createBaseline,
+    applyBaseline,
+    pruneBaseline,
+    readBaseline,
+    writeBaseline,
+    DEFAULT_BASELINE_FILE,
+    type Baseline,
+    type BaselineEntry,
+    type BaselineOptions,
+    type BaselineResult
+} from './baseline';
@@ -0,0 +1,6 @@
+export {
+    filterTokensByProperty,
+    resolvePropertyTokens,
+    DEFAULT_PROPERTY_TOKENS,
+    type PropertyTokenMap
+} from './propertyTokens';
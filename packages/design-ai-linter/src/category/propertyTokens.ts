@@ -0,0 +1,91 @@
+import { Token } from '../types';
+
+/**
+ * Tokens a raw value may be replaced with, by the CSS property it is used in.
+ * Keys are property names, where `*` matches any characters (`margin*`, `border-*-radius`);
+ * values are token name globs (`spacing.*`, `color.text.*`) or token types (`borderRadius`).
+ * The most specific key applies: an exact name over a wildcard, then the wildcard with the most literal characters.
+ */
+export type PropertyTokenMap = Record<string, string[]>;
+
+const SPACING = ['spacing', 'spacing*', 'space*'];
+const SIZING = ['sizing', 'size', 'sizing*', 'size.*', 'size-*'];
+const RADIUS = ['borderRadius', 'radius*', 'radii*', 'border.radius*', 'border-radius*', 'rounded*'];
+const BORDER_WIDTH = ['borderWidth', 'border.width*', 'border-width*'];
+const TEXT_COLOR = ['color.text*', 'color.foreground*', 'color.fg*', 'text.color*', 'text-color*'];
+const BACKGROUND_COLOR = ['color.background*', 'color.bg*', 'color.surface*', 'background*', 'bg*', 'surface*'];
+const BORDER_COLOR = ['color.border*', 'border.color*', 'border-color*'];
+
+/**
+ * Built-in mapping keeping lengths apart: spacing for margins and gaps, sizes for widths,
+ * radii for corners; and colors: text colors for `color`, background colors for backgrounds.
+ * Other properties may use any token of the value's kind.
+ */
+export const DEFAULT_PROPERTY_TOKENS: PropertyTokenMap = {
+    'margin*': SPACING,
+    'padding*': SPACING,
+    'scroll-margin*': SPACING,
+    'scroll-padding*': SPACING,
+    'gap': SPACING,
+    'row-gap': SPACING,
+    'column-gap': SPACING,
+    'inset*': SPACING,
+    'top': SPACING,
+    'right': SPACING,
+    'bottom': SPACING,
+    'left': SPACING,
+    'width': [...SIZING, ...SPACING],
+    'height': [...SIZING, ...SPACING],
+    'min-width': [...SIZING, ...SPACING],
+    'min-height': [...SIZING, ...SPACING],
+    'max-width': [...SIZING, ...SPACING],
+    'max-height': [...SIZING, ...SPACING],
+    'inline-size': [...SIZING, ...SPACING],
+    'block-size': [...SIZING, ...SPACING],
+    'flex-basis': [...SIZING, ...SPACING],
+    'border-*radius': RADIUS,
+    'border*width': BORDER_WIDTH,
+    'outline-width': BORDER_WIDTH,
+    'color': TEXT_COLOR,
+    'background*': BACKGROUND_COLOR,
+    'border*color': BORDER_COLOR,
+    'outline-color': BORDER_COLOR
+};
+
+/**
+ * Merge a configured mapping over the built-in one, key by key
+ */
+export function resolvePropertyTokens(map: PropertyTokenMap = {}): PropertyTokenMap {
+    return { ...DEFAULT_PROPERTY_TOKENS, ...map };
+}
+
+/**
+ * Narrow the tokens a value of `property` is compared with to those the mapping allows.
+ * @returns undefined when the property is not mapped (or mapped to an empty list), or when none of the
+ *   tokens fit the mapping; the rule then falls back to its own choice of tokens
+ */
+export function filterTokensByProperty(property: string, tokens: Token[], map: PropertyTokenMap): Token[] | undefined {
+    const patterns = findPatterns(property, map);
+    if (!patterns || patterns.length === 0) return undefined;
+
+    const matchers = patterns.map(toRegExp);
+    const allowed = tokens.filter(token => patterns.includes(token.type) || matchers.some(matcher => matcher.test(token.name)));
+    return allowed.length > 0 ? allowed : undefined;
+}
+
+function findPatterns(property: string, map: PropertyTokenMap): string[] | undefined {
+    if (Object.prototype.hasOwnProperty.call(map, property)) return map[property];
+
+    let best: { key: string; literal: number } | undefined;
+    for (const key of Object.keys(map)) {
+        if (!key.includes('*') || !toRegExp(key).test(property)) continue;
+        const literal = key.replace(/\*/g, '').length;
+        if (!best || literal > best.literal) best = { key, literal };
+    }
+    return best && map[best.key];
+}
+
+function toRegExp(glob: string): RegExp {
+    const source = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i');
+}
@@ -1,7 +1,9 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import { loadTokensFromJson } from '../adapters/tokensJsonAdapter';
-import { loadCodeFiles, loadCodeFilesFromGitDiff } from '../adapters/codeFileAdapter';
+import { loadTokensFromSource } from '../adapters/tokenSource';
+import { resolveConfig } from '../config/loadConfig';
+import { ConfigError } from '../config/schema';
+import type { BaselineResult } from '../baseline';
 import fs from 'fs/promises';
 import fsSync from 'fs';
 import path from 'path';
@@ -73,427 +75,333 @@ program
     .description('Design AI Linter for Figma Tokens')
     .version(version);
 
-program
-    .command('lint')
-    .description('Lint design tokens')
-    .option('-c, --config <path>', 'config file', './designlintrc.json')
-    .option('-s, --source <path>', 'tokens json')
-    .option('-f, --files <glob>', 'code files to analyze (e.g., "src/**/*.{tsx,css}")')
-    .option('--json <path>', 'output JSON report to file')
-    .option('--pr-comment', 'output PR comment format')
-    .option('--prompt-file <path>', 'custom prompt file to execute')
-    .option('--prompt-output-json', 'output prompt response as JSON')
-    .option('--staged', 'only check staged files')
-    .option('--commit-diff <range>', 'only check files changed in commit range (e.g., "HEAD~1..HEAD" or "main..HEAD")')
-    .option('--model <name>', 'specify AI model name (e.g., "gpt-4o", "gpt-3.5-turbo", "gemini-2.5-flash")')
-    .action(async (opts) => {
-        try {
-            // Load config
-            const configPath = path.resolve(process.cwd(), opts.config);
-            let cfg;
-            try {
-                const configRaw = await fs.readFile(configPath, 'utf-8');
-                cfg = JSON.parse(configRaw);
-            } catch (e) {
-                console.warn(`⚠️  警告: 設定ファイル ${configPath} を読み込めませんでした。デフォルト設定を使用します。`);
-                cfg = {
-                    source: { path: './tokens.json' },
-                    rules: {
-                        'naming-convention': { severity: 'error', pattern: '^([a-z]+\\.)+[a-z0-9\\-]+$' }
-                    }
-                };
-            }
+/**
+ * Run the shared lint pipeline for the lint command, print the report and exit
+ * @param fallback Files to check when neither --files, --staged, --commit-diff nor config.files is given
+ */
+async function runPipelineCommand(opts: any, fallback: 'staged' | 'all') {
+    try {
+        const { runLintPipeline } = await import('../engine/pipeline');
+        const baselinePath = await findBaselinePath(opts.baseline);
+        const { diagnostics, baseline } = await runLintPipeline({
+            config: opts.config,
+            tokens: opts.source,
+            theme: opts.theme,
+            files: {
+                commitDiff: opts.commitDiff,
+                since: opts.since,
+                staged: opts.staged,
+                pattern: opts.files,
+                changedLinesOnly: opts.changedLinesOnly,
+                fallback
+            },
+            model: opts.model,
+            baseline: baselinePath,
+            report: {
+                json: opts.json,
+                prComment: opts.prComment,
+                console: true
+            },
+            logger: console.log
+        });
+
+        if (baselinePath && baseline) {
+            await reportFixedBaselineEntries(baselinePath, baseline.fixed, opts.pruneBaseline);
+        }
 
-            // Determine source path
-            const sourcePath = opts.source || cfg.source.path;
-            console.log(`📦 トークンを読み込み中: ${sourcePath}`);
-
-            const tokens = await loadTokensFromJson(path.resolve(process.cwd(), sourcePath));
-            console.log(`✅ ${tokens.length}個のトークンが見つかりました。`);
-
-            // Handle custom prompt file if specified
-            if (opts.promptFile) {
-                try {
-                    const promptFilePath = path.resolve(process.cwd(), opts.promptFile);
-                    console.log(`📝 プロンプトファイルを読み込み中: ${promptFilePath}`);
-                    const promptText = await fs.readFile(promptFilePath, 'utf-8');
-                    
-                    const { runCustomPrompt } = await import('../engine/aiRunner');
-                    
-                    // Determine provider
-                    const hasOpenAI = !!process.env.OPENAI_API_KEY;
-                    const hasGemini = !!process.env.GEMINI_API_KEY;
-                    const provider = hasOpenAI ? 'openai' : (hasGemini ? 'gemini' : 'openai');
-                    
-                    console.log('🤖 カスタムプロンプトを実行中...');
-                    const response = await runCustomPrompt(
-                        promptText,
-                        tokens,
-                        undefined,
-                        provider,
-                        opts.promptOutputJson || false,
-                        opts.model
-                    );
-                    
-                    if (opts.promptOutputJson) {
-                        // Try to parse as JSON and pretty print
-                        try {
-                            const jsonResponse = JSON.parse(response);
-                            console.log('\n' + JSON.stringify(jsonResponse, null, 2));
-                        } catch {
-                            // If not valid JSON, output as-is
-                            console.log('\n' + response);
-                        }
-                    } else {
-                        console.log('\n' + response);
-                    }
-                    
-                    process.exit(0);
-                } catch (error: any) {
-                    console.error('❌ カスタムプロンプトの実行中にエラーが発生しました:', error.message);
-                    if (error.stack) {
-                        console.error('   スタックトレース:', error.stack);
-                    }
-                    process.exit(1);
-                }
-            }
+        // Exit with error if there are errors
+        process.exit(diagnostics.some(d => d.severity === 'error') ? 1 : 0);
+    } catch (error: any) {
+        console.error('❌ エラー:', error.message);
+        if (error.stack && !(error instanceof ConfigError)) {
+            console.error('   スタックトレース:', error.stack);
+        }
+        process.exit(1);
+    }
+}
 
-            // Load code files
-            // lintコマンドのデフォルト: ステージングされたファイルのみ
-            let codeFiles;
-            
-            // Priority: commit-diff > staged > files option/config
-            if (opts.commitDiff) {
-                console.log(`📁 Git差分のコードファイルを読み込み中: ${opts.commitDiff}`);
-                codeFiles = await loadCodeFilesFromGitDiff(process.cwd(), undefined, opts.commitDiff);
-                console.log(`✅ ${codeFiles.length}個の変更されたコードファイルが見つかりました。`);
-            } else if (opts.staged) {
-                console.log(`📁 ステージングされたコードファイルを読み込み中...`);
-                codeFiles = await loadCodeFilesFromGitDiff(process.cwd(), true);
-                console.log(`✅ ${codeFiles.length}個のステージングされたコードファイルが見つかりました。`);
-            } else {
-            const filesPattern = opts.files || cfg.files;
-            if (filesPattern) {
-                    // filesオプションまたは設定ファイルで明示的に指定されている場合
-                console.log(`📁 コードファイルを読み込み中: ${filesPattern}`);
-                codeFiles = await loadCodeFiles(filesPattern, process.cwd());
-                console.log(`✅ ${codeFiles.length}個のコードファイルが見つかりました。`);
-                } else {
-                    // デフォルト: ステージングされたファイルのみ
-                    console.log(`📁 ステージングされたコードファイルを読み込み中（デフォルト）...`);
-                    codeFiles = await loadCodeFilesFromGitDiff(process.cwd(), true);
-                    console.log(`✅ ${codeFiles.length}個のステージングされたコードファイルが見つかりました。`);
-                }
+/**
+ * The baseline file to apply: --baseline, or the default file when it exists in the working directory
+ */
+async function findBaselinePath(option: string | undefined): Promise<string | undefined> {
+    if (option) return path.resolve(process.cwd(), option);
+    const { DEFAULT_BASELINE_FILE } = await import('../baseline');
+    const defaultPath = path.resolve(process.cwd(), DEFAULT_BASELINE_FILE);
+    return fsSync.existsSync(defaultPath) ? defaultPath : undefined;
+}
+
+/**
+ * List the baseline entries that were fixed, and drop them from the baseline file when asked to
+ */
+async function reportFixedBaselineEntries(baselinePath: string, fixed: BaselineResult['fixed'], prune: boolean) {
+    if (fixed.length === 0) return;
+
+    const total = fixed.reduce((sum, entry) => sum + entry.count, 0);
+    console.log(`\n✨ ベースラインの問題${total}件が解消されました:`);
+    for (const entry of fixed) {
+        console.log(`  - ${entry.file ?? '(トークン)'}: [${entry.ruleId}] ${entry.message}${entry.count > 1 ? `（${entry.count}件）` : ''}`);
+    }
+
+    if (!prune) {
+        console.log('💡 --prune-baseline を指定すると、解消された問題をベースラインから削除します。');
+        return;
+    }
+    const { readBaseline, writeBaseline, pruneBaseline } = await import('../baseline');
+    await writeBaseline(baselinePath, pruneBaseline(await readBaseline(baselinePath), fixed));
+    console.log(`✂️  ベースラインを更新しました: ${path.relative(process.cwd(), baselinePath)}`);
+}
+
+/**
+ * Write the current diagnostics to a baseline file, or with --prune only drop the entries that were fixed
+ */
+async function runBaselineCommand(opts: any) {
+    try {
+        const { runLintPipeline } = await import('../engine/pipeline');
+        const { createBaseline, writeBaseline } = await import('../baseline');
+        const outputPath = path.resolve(process.cwd(), opts.output);
+        const pipelineOptions = {
+            config: opts.config,
+            tokens: opts.source,
+            theme: opts.theme,
+            files: { pattern: opts.files, fallback: 'all' as const },
+            model: opts.model,
+            logger: console.log
+        };
+
+        if (opts.prune) {
+            const { baseline } = await runLintPipeline({ ...pipelineOptions, baseline: outputPath });
+            await reportFixedBaselineEntries(outputPath, baseline?.fixed ?? [], true);
+            if (!baseline?.fixed.length) {
+                console.log('✅ ベースラインから削除する問題はありません。');
             }
+            process.exit(0);
+        }
 
-            const diags = [];
-
-            // 1. Static Lint Layer
-            console.log('🔍 Running Static Rules...');
-            const { runStaticRules } = await import('../engine/staticRunner');
-            
-            // Enable raw-color and raw-pixel rules if code files are provided
-            const rulesConfig = { ...cfg.rules };
-            if (codeFiles && codeFiles.length > 0) {
-                if (!rulesConfig['raw-color']) {
-                    rulesConfig['raw-color'] = { severity: 'warn', enabled: true };
-                }
-                if (!rulesConfig['raw-pixel']) {
-                    rulesConfig['raw-pixel'] = { severity: 'warn', enabled: true };
-                }
+        const result = await runLintPipeline(pipelineOptions);
+        const baseline = createBaseline(result.diagnostics, result.codeFiles, { baseDir: path.dirname(outputPath) });
+        await writeBaseline(outputPath, baseline);
+        console.log(`📋 ${result.diagnostics.length}件の問題をベースラインに記録しました: ${path.relative(process.cwd(), outputPath)}`);
+        process.exit(0);
+    } catch (error: any) {
+        console.error('❌ エラー:', error.message);
+        if (error.stack && !(error instanceof ConfigError)) {
+            console.error('   スタックトレース:', error.stack);
+        }
+        process.exit(1);
+    }
+}
+
+/**
+ * Lint, apply the edits carried by the diagnostics and re-lint the fixed files.
+ * With --dry-run the fixes are printed as a unified diff and nothing is written.
+ */
+async function runFixCommand(opts: any) {
+    try {
+        const { runLintPipeline } = await import('../engine/pipeline');
+        const { applyFixes, createUnifiedDiff } = await import('../engine/fixer');
+        const { formatConsoleReport } = await import('../reporters/consoleReporter');
+
+        const result = await runLintPipeline({
+            config: opts.config,
+            tokens: opts.source,
+            theme: opts.theme,
+            files: {
+                commitDiff: opts.commitDiff,
+                since: opts.since,
+                staged: opts.staged,
+                pattern: opts.files,
+                changedLinesOnly: opts.changedLinesOnly,
+                fallback: 'all'
+            },
+            model: opts.model,
+            report: {
+                json: opts.json,
+                prComment: opts.prComment
+            },
+            logger: console.log
+        });
+
+        const fixes = await applyFixes(result.diagnostics, result.codeFiles, { dryRun: opts.dryRun });
+        const appliedCount = fixes.reduce((sum, f) => sum + f.applied.length, 0);
+        const fixedFiles = fixes.filter(f => f.applied.length > 0);
+
+        for (const fix of fixes) {
+            if (fix.error) {
+                console.warn(`⚠️  ${fix.file} を修正できませんでした: ${fix.error}`);
+            } else if (fix.conflicts.length > 0) {
+                console.warn(`⚠️  ${fix.file}: ${fix.conflicts.length}件の修正が他の修正と重なるためスキップされました（もう一度fixを実行してください）`);
             }
-            
-            const staticDiags = runStaticRules(tokens, rulesConfig, codeFiles);
-            diags.push(...staticDiags);
-
-            // 2. AI Candidate Selector
-            const { selectAICandidates } = await import('../engine/candidateSelector');
-            const candidateTokens = selectAICandidates(tokens, staticDiags);
-
-            // 3. AI Lint Layer
-      const hasOpenAI = !!process.env.OPENAI_API_KEY;
-      const hasGemini = !!process.env.GEMINI_API_KEY;
-      const hasAIKey = hasOpenAI || hasGemini;
-
-      if (hasAIKey && candidateTokens.length > 0) {
-        console.log(`🤖 Running AI Rules on ${candidateTokens.length} candidates...`);
-        const { runAIRules } = await import('../engine/aiRunner');
-        const { semanticNamingRule } = await import('../rules/ai/semantic-naming');
-        const { spacingConsistencyRule } = await import('../rules/ai/spacing-consistency');
-        const { designComplexityRule } = await import('../rules/ai/design-complexity');
-
-        // Load custom rules if configured
-        const allRules = [
-            semanticNamingRule, 
-            spacingConsistencyRule, 
-            designComplexityRule
-        ];
-
-        if (cfg.rules && Array.isArray(cfg.rules['custom-rules'])) {
-            try {
-                const { loadCustomRules } = await import('../engine/customRuleLoader');
-                const customRules = await loadCustomRules(cfg.rules['custom-rules'], process.cwd());
-                if (customRules.length > 0) {
-                    console.log(`✅ ${customRules.length}個のカスタムルールを読み込みました`);
-                    allRules.push(...customRules);
-                }
-            } catch (error: any) {
-                console.warn(`⚠️  カスタムルールの読み込み中にエラーが発生しました: ${error.message}`);
+        }
+
+        if (opts.dryRun) {
+            for (const fix of fixedFiles) {
+                console.log('\n' + createUnifiedDiff(fix.file, fix.original, fix.output));
             }
+            console.log(`\n🔧 ${appliedCount}件の修正を適用できます（${fixedFiles.length}ファイル、ドライラン）`);
+            console.log(formatConsoleReport(result.diagnostics));
+            process.exit(result.diagnostics.some(d => d.severity === 'error') ? 1 : 0);
         }
 
-        const aiDiags = await runAIRules(
-            candidateTokens, 
-            allRules,
+        console.log(`\n🔧 ${appliedCount}件の修正を適用しました（${fixedFiles.length}ファイル）`);
+
+        // Re-lint the fixed content so the report only shows what is left
+        const fixedCodeFiles = result.codeFiles.map(codeFile => {
+            const fix = fixedFiles.find(f => f.file === codeFile.path);
+            return fix ? { ...codeFile, content: fix.output } : codeFile;
+        });
+        const { diagnostics } = appliedCount > 0
+            ? await runLintPipeline({ config: opts.config, tokens: opts.source, theme: opts.theme, files: fixedCodeFiles, ai: false })
+            : result;
+
+        console.log(formatConsoleReport(diagnostics));
+        process.exit(diagnostics.some(d => d.severity === 'error') ? 1 : 0);
+    } catch (error: any) {
+        console.error('❌ エラー:', error.message);
+        if (error.stack && !(error instanceof ConfigError)) {
+            console.error('   スタックトレース:', error.stack);
+        }
+        process.exit(1);
+    }
+}
+
+/**
+ * Execute a custom prompt file against the tokens and print the AI response
+ */
+async function runPromptFileCommand(opts: any) {
+    try {
+        const { config: cfg, filepath } = await resolveConfig(opts.config, process.cwd());
+
+        // Determine source path: --source is relative to the working directory, source.path to the config file
+        const sourcePath = opts.source || cfg.source.path;
+        console.log(`📦 トークンを読み込み中: ${sourcePath}`);
+
+        const tokens = await loadTokensFromSource({
+            type: cfg.source.type,
+            theme: opts.theme || cfg.source.theme,
+            path: opts.source || !filepath
+                ? path.resolve(process.cwd(), sourcePath)
+                : path.resolve(path.dirname(filepath), sourcePath)
+        });
+        console.log(`✅ ${tokens.length}個のトークンが見つかりました。`);
+
+        const promptFilePath = path.resolve(process.cwd(), opts.promptFile);
+        console.log(`📝 プロンプトファイルを読み込み中: ${promptFilePath}`);
+        const promptText = await fs.readFile(promptFilePath, 'utf-8');
+        
+        const { runCustomPrompt } = await import('../engine/aiRunner');
+        
+        // Determine provider
+        const hasOpenAI = !!process.env.OPENAI_API_KEY;
+        const hasGemini = !!process.env.GEMINI_API_KEY;
+        const provider = hasOpenAI ? 'openai' : (hasGemini ? 'gemini' : 'openai');
+        
+        console.log('🤖 カスタムプロンプトを実行中...');
+        const response = await runCustomPrompt(
+            promptText,
+            tokens,
             undefined,
-            'openai',
-            codeFiles,
+            provider,
+            opts.promptOutputJson || false,
             opts.model
         );
-        diags.push(...aiDiags);
-      } else if (!hasAIKey) {
-        console.log('ℹ️  AIルールをスキップします（OPENAI_API_KEYまたはGEMINI_API_KEYが見つかりません）');
-      } else {
-        console.log('ℹ️  AI分析の候補がありません。');
-      }
-
-            // Generate reports if requested
-            if (opts.json) {
-                const { generateJSONReport } = await import('../reporters/jsonReporter');
-                await generateJSONReport(diags, opts.json);
-            }
-
-            if (opts.prComment) {
-                const { generatePRCommentReport } = await import('../reporters/prCommentReporter');
-                const prComment = generatePRCommentReport(diags);
-                console.log('\n' + prComment);
+        
+        if (opts.promptOutputJson) {
+            // Try to parse as JSON and pretty print
+            try {
+                const jsonResponse = JSON.parse(response);
+                console.log('\n' + JSON.stringify(jsonResponse, null, 2));
+            } catch {
+                // If not valid JSON, output as-is
+                console.log('\n' + response);
             }
+        } else {
+            console.log('\n' + response);
+        }
+        
+        process.exit(0);
+    } catch (error: any) {
+        console.error('❌ カスタムプロンプトの実行中にエラーが発生しました:', error.message);
+        if (error.stack && !(error instanceof ConfigError)) {
+            console.error('   スタックトレース:', error.stack);
+        }
+        process.exit(1);
+    }
+}
 
-            // Report results
-            if (diags.length === 0) {
-                console.log('✔ 問題は見つかりませんでした');
-                process.exit(0);
-            } else {
-                console.log(`\n${diags.length}件の問題が見つかりました:\n`);
-                for (const d of diags) {
-                    const color = d.severity === 'error' ? '\x1b[31m' : (d.severity === 'warn' ? '\x1b[33m' : '\x1b[36m');
-                    const reset = '\x1b[0m';
-                    console.log(`${color}[${d.severity.toUpperCase()}]${reset} ${d.ruleId}: ${d.message}`);
-                    if (d.file) {
-                        console.log(`    ファイル: ${d.file}${d.line ? `:${d.line}` : ''}`);
-                    }
-                    if (d.tokenName) console.log(`    トークン: ${d.tokenName}`);
-                    if (d.problem) console.log(`    問題: ${d.problem}`);
-                    if (d.reason) console.log(`    理由: ${d.reason}`);
-                    if (d.suggestedToken) console.log(`    推奨トークン: ${d.suggestedToken}`);
-                    if (d.suggestion) console.log(`    提案: ${d.suggestion}`);
-                    if (d.fixedCode) {
-                        console.log(`    修正コード:`);
-                        const fixedLines = d.fixedCode.split('\n');
-                        fixedLines.forEach((line, _idx) => {
-                            if (line.trim()) {
-                                console.log(`      ${line}`);
-                            }
-                        });
-                    }
-                    if (d.impact) console.log(`    影響度: ${d.impact}`);
-                    console.log('');
-                }
-
-                // Exit with error if there are errors
-                if (diags.some(d => d.severity === 'error')) {
-                    process.exit(1);
-                }
-            }
-        } catch (error: any) {
-            console.error('❌ エラー:', error.message);
-            if (error.stack) {
-                console.error('   スタックトレース:', error.stack);
-            }
-            process.exit(1);
+program
+    .command('lint')
+    .description('Lint design tokens')
+    .option('-c, --config <path>', 'config file (default: the closest designlintrc.json, .designlintrc.js/.ts or package.json "designlint" key)')
+    .option('-s, --source <path>', 'tokens json')
+    .option('--theme <name>', 'Tokens Studio theme to lint (defaults to the first theme)')
+    .option('-f, --files <glob>', 'code files to analyze (e.g., "src/**/*.{tsx,css}")')
+    .option('--json <path>', 'output JSON report to file')
+    .option('--pr-comment', 'output PR comment format')
+    .option('--prompt-file <path>', 'custom prompt file to execute')
+    .option('--prompt-output-json', 'output prompt response as JSON')
+    .option('--staged', 'only check staged files')
+    .option('--commit-diff <range>', 'only check files changed in commit range (e.g., "HEAD~1..HEAD" or "main..HEAD")')
+    .option('--since <branch>', 'only check files changed since the merge-base of the branch and HEAD (e.g., "main")')
+    .option('--changed-lines-only', 'with --staged, --commit-diff or --since, only report problems on added or modified lines')
+    .option('--model <name>', 'specify AI model name (e.g., "gpt-4o", "gpt-3.5-turbo", "gemini-2.5-flash")')
+    .option('--baseline <path>', 'baseline file of known issues to ignore (default: ./.dslint-baseline.json when it exists)')
+    .option('--prune-baseline', 'remove the fixed issues from the baseline file')
+    .action(async (opts) => {
+        if (opts.promptFile) {
+            await runPromptFileCommand(opts);
+            return;
         }
+        // lintコマンドのデフォルト: ステージングされたファイルのみ
+        await runPipelineCommand(opts, 'staged');
     });
 
 program
     .command('fix')
     .description('Fix design token issues (checks all files by default)')
-    .option('-c, --config <path>', 'config file', './designlintrc.json')
+    .option('-c, --config <path>', 'config file (default: the closest designlintrc.json, .designlintrc.js/.ts or package.json "designlint" key)')
     .option('-s, --source <path>', 'tokens json')
+    .option('--theme <name>', 'Tokens Studio theme to lint (defaults to the first theme)')
     .option('-f, --files <glob>', 'code files to analyze (e.g., "src/**/*.{tsx,css}")')
     .option('--staged', 'only check staged files')
     .option('--commit-diff <range>', 'only check files changed in commit range (e.g., "HEAD~1..HEAD" or "main..HEAD")')
+    .option('--since <branch>', 'only check files changed since the merge-base of the branch and HEAD (e.g., "main")')
+    .option('--changed-lines-only', 'with --staged, --commit-diff or --since, only report problems on added or modified lines')
     .option('--json <path>', 'output JSON report to file')
     .option('--pr-comment', 'output PR comment format')
     .option('--model <name>', 'specify AI model name (e.g., "gpt-4o", "gpt-3.5-turbo", "gemini-2.5-flash")')
+    .option('--dry-run', 'print the fixes as a unified diff without writing files')
     .action(async (opts) => {
-        try {
-            // Load config
-            const configPath = path.resolve(process.cwd(), opts.config);
-            let cfg;
-            try {
-                const configRaw = await fs.readFile(configPath, 'utf-8');
-                cfg = JSON.parse(configRaw);
-            } catch (e) {
-                console.warn(`⚠️  警告: 設定ファイル ${configPath} を読み込めませんでした。デフォルト設定を使用します。`);
-                cfg = {
-                    source: { path: './tokens.json' },
-                    rules: {
-                        'naming-convention': { severity: 'error', pattern: '^([a-z]+\\.)+[a-z0-9\\-]+$' }
-                    }
-                };
-            }
-
-            // Determine source path
-            const sourcePath = opts.source || cfg.source.path;
-            console.log(`📦 トークンを読み込み中: ${sourcePath}`);
-
-            const tokens = await loadTokensFromJson(path.resolve(process.cwd(), sourcePath));
-            console.log(`✅ ${tokens.length}個のトークンが見つかりました。`);
-
-            // Load code files
-            let codeFiles;
-            
-            // Priority: commit-diff > staged > files option/config (if not specified, check all files)
-            if (opts.commitDiff) {
-                console.log(`📁 Git差分のコードファイルを読み込み中: ${opts.commitDiff}`);
-                codeFiles = await loadCodeFilesFromGitDiff(process.cwd(), undefined, opts.commitDiff);
-                console.log(`✅ ${codeFiles.length}個の変更されたコードファイルが見つかりました。`);
-            } else if (opts.staged) {
-                console.log(`📁 ステージングされたコードファイルを読み込み中...`);
-                codeFiles = await loadCodeFilesFromGitDiff(process.cwd(), true);
-                console.log(`✅ ${codeFiles.length}個のステージングされたコードファイルが見つかりました。`);
-            } else {
-                // Fixコマンドでは、filesオプションが指定されていない場合は全ファイルをチェック
-                const filesPattern = opts.files || cfg.files || '**/*.{ts,tsx,js,jsx,css,scss,sass}';
-                console.log(`📁 コードファイルを読み込み中: ${filesPattern}`);
-                codeFiles = await loadCodeFiles(filesPattern, process.cwd());
-                console.log(`✅ ${codeFiles.length}個のコードファイルが見つかりました。`);
-            }
-
-            const diags = [];
-
-            // 1. Static Lint Layer
-            console.log('🔍 Running Static Rules...');
-            const { runStaticRules } = await import('../engine/staticRunner');
-            
-            // Enable raw-color and raw-pixel rules if code files are provided
-            const rulesConfig = { ...cfg.rules };
-            if (codeFiles && codeFiles.length > 0) {
-                if (!rulesConfig['raw-color']) {
-                    rulesConfig['raw-color'] = { severity: 'warn', enabled: true };
-                }
-                if (!rulesConfig['raw-pixel']) {
-                    rulesConfig['raw-pixel'] = { severity: 'warn', enabled: true };
-                }
-            }
-            
-            const staticDiags = runStaticRules(tokens, rulesConfig, codeFiles);
-            diags.push(...staticDiags);
-
-            // 2. AI Candidate Selector
-            const { selectAICandidates } = await import('../engine/candidateSelector');
-            const candidateTokens = selectAICandidates(tokens, staticDiags);
-
-            // 3. AI Lint Layer
-            const hasOpenAI = !!process.env.OPENAI_API_KEY;
-            const hasGemini = !!process.env.GEMINI_API_KEY;
-            const hasAIKey = hasOpenAI || hasGemini;
-
-            if (hasAIKey && candidateTokens.length > 0) {
-                console.log(`🤖 Running AI Rules on ${candidateTokens.length} candidates...`);
-                const { runAIRules } = await import('../engine/aiRunner');
-                const { semanticNamingRule } = await import('../rules/ai/semantic-naming');
-                const { spacingConsistencyRule } = await import('../rules/ai/spacing-consistency');
-                const { designComplexityRule } = await import('../rules/ai/design-complexity');
-
-                // Load custom rules if configured
-                const allRules = [
-                    semanticNamingRule, 
-                    spacingConsistencyRule, 
-                    designComplexityRule
-                ];
-
-                if (cfg.rules && Array.isArray(cfg.rules['custom-rules'])) {
-                    try {
-                        const { loadCustomRules } = await import('../engine/customRuleLoader');
-                        const customRules = await loadCustomRules(cfg.rules['custom-rules'], process.cwd());
-                        if (customRules.length > 0) {
-                            console.log(`✅ ${customRules.length}個のカスタムルールを読み込みました`);
-                            allRules.push(...customRules);
-                        }
-                    } catch (error: any) {
-                        console.warn(`⚠️  カスタムルールの読み込み中にエラーが発生しました: ${error.message}`);
-                    }
-                }
-
-                const aiDiags = await runAIRules(
-                    candidateTokens, 
-                    allRules,
-                    undefined,
-                    'openai',
-                    codeFiles,
-                    opts.model
-                );
-                diags.push(...aiDiags);
-            } else if (!hasAIKey) {
-                console.log('ℹ️  AIルールをスキップします（OPENAI_API_KEYまたはGEMINI_API_KEYが見つかりません）');
-            } else {
-                console.log('ℹ️  AI分析の候補がありません。');
-            }
-
-            // Generate reports if requested
-            if (opts.json) {
-                const { generateJSONReport } = await import('../reporters/jsonReporter');
-                await generateJSONReport(diags, opts.json);
-            }
-
-            if (opts.prComment) {
-                const { generatePRCommentReport } = await import('../reporters/prCommentReporter');
-                const prComment = generatePRCommentReport(diags);
-                console.log('\n' + prComment);
-            }
+        // Fixコマンドでは、filesオプションが指定されていない場合は全ファイルをチェック
+        await runFixCommand(opts);
+    });
 
-            // Report results
-            if (diags.length === 0) {
-                console.log('✔ 問題は見つかりませんでした');
-                process.exit(0);
-            } else {
-                console.log(`\n${diags.length}件の問題が見つかりました:\n`);
-                for (const d of diags) {
-                    const color = d.severity === 'error' ? '\x1b[31m' : (d.severity === 'warn' ? '\x1b[33m' : '\x1b[36m');
-                    const reset = '\x1b[0m';
-                    console.log(`${color}[${d.severity.toUpperCase()}]${reset} ${d.ruleId}: ${d.message}`);
-                    if (d.file) {
-                        console.log(`    ファイル: ${d.file}${d.line ? `:${d.line}` : ''}`);
-                    }
-                    if (d.tokenName) console.log(`    トークン: ${d.tokenName}`);
-                    if (d.problem) console.log(`    問題: ${d.problem}`);
-                    if (d.reason) console.log(`    理由: ${d.reason}`);
-                    if (d.suggestedToken) console.log(`    推奨トークン: ${d.suggestedToken}`);
-                    if (d.suggestion) console.log(`    提案: ${d.suggestion}`);
-                    if (d.fixedCode) {
-                        console.log(`    修正コード:`);
-                        const fixedLines = d.fixedCode.split('\n');
-                        fixedLines.forEach((line, _idx) => {
-                            if (line.trim()) {
-                                console.log(`      ${line}`);
-                            }
-                        });
-                    }
-                    if (d.impact) console.log(`    影響度: ${d.impact}`);
-                    console.log('');
-                }
+program
+    .command('baseline')
+    .description('Record the current issues in a baseline file so that only new ones fail lint')
+    .option('-c, --config <path>', 'config file (default: the closest designlintrc.json, .designlintrc.js/.ts or package.json "designlint" key)')
+    .option('-s, --source <path>', 'tokens json')
+    .option('--theme <name>', 'Tokens Studio theme to lint (defaults to the first theme)')
+    .option('-f, --files <glob>', 'code files to analyze (default: config.files or all files)')
+    .option('-o, --output <path>', 'baseline file to write', './.dslint-baseline.json')
+    .option('--prune', 'only remove the fixed issues from the existing baseline')
+    .option('--model <name>', 'specify AI model name (e.g., "gpt-4o", "gpt-3.5-turbo", "gemini-2.5-flash")')
+    .action(async (opts) => {
+        await runBaselineCommand(opts);
+    });
 
-                // Exit with error if there are errors
-                if (diags.some(d => d.severity === 'error')) {
-                    process.exit(1);
-                }
-            }
+program
+    .command('init')
+    .description('Create a starter designlintrc.json')
+    .option('-c, --config <path>', 'config file to create', './designlintrc.json')
+    .option('-s, --source <path>', 'tokens json', './tokens.json')
+    .option('--force', 'overwrite an existing config file')
+    .action(async (opts) => {
+        try {
+            const { initConfig } = await import('../config/initConfig');
+            const configPath = await initConfig(opts.config, { source: opts.source, force: opts.force });
+            console.log(`✅ 設定ファイルを作成しました: ${configPath}`);
         } catch (error: any) {
             console.error('❌ エラー:', error.message);
-            if (error.stack) {
-                console.error('   スタックトレース:', error.stack);
-            }
             process.exit(1);
         }
     });
@@ -0,0 +1,208 @@
+import { RGBA } from './parse';
+
+/** CIELAB or OKLab coordinates */
+export type Lab = {
+    L: number;
+    a: number;
+    b: number;
+};
+
+// D65 reference white
+const WHITE = { X: 0.95047, Y: 1, Z: 1.08883 };
+
+export function srgbToLinear(channel: number): number {
+    return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * sRGB → CIELAB (D65), the space ΔE2000 is defined on
+ */
+export function rgbToLab(color: RGBA): Lab {
+    const r = srgbToLinear(color.r);
+    const g = srgbToLinear(color.g);
+    const b = srgbToLinear(color.b);
+
+    const X = 0.4124564 * r + 0.3575761 * g + 0.1804375 * b;
+    const Y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+    const Z = 0.0193339 * r + 0.1191920 * g + 0.9503041 * b;
+
+    const f = (t: number) => t > Math.pow(6 / 29, 3) ? Math.cbrt(t) : t / (3 * Math.pow(6 / 29, 2)) + 4 / 29;
+    const fx = f(X / WHITE.X);
+    const fy = f(Y / WHITE.Y);
+    const fz = f(Z / WHITE.Z);
+
+    return { L: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * sRGB → OKLab (Björn Ottosson, 2020)
+ */
+export function rgbToOklab(color: RGBA): Lab {
+    const r = srgbToLinear(color.r);
+    const g = srgbToLinear(color.g);
+    const b = srgbToLinear(color.b);
+
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+    return {
+        L: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+        a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+        b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+    };
+}
+
+type Vector = [number, number, number];
+type Matrix = [Vector, Vector, Vector];
+
+// Conversion matrices from CSS Color 4 §18 (sample code)
+const XYZ_D65_TO_LINEAR_SRGB: Matrix = [
+    [12831 / 3959, -329 / 214, -1974 / 3959],
+    [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+    [705 / 12673, -2585 / 12673, 705 / 667]
+];
+const D50_TO_D65: Matrix = [
+    [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+    [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+    [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+];
+const LINEAR_P3_TO_XYZ: Matrix = [
+    [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+    [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+    [0, 32229 / 714400, 5220557 / 5000800]
+];
+const LINEAR_A98_TO_XYZ: Matrix = [
+    [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+    [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+    [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835]
+];
+// ProPhoto RGB is relative to D50
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix = [
+    [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+    [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+    [0, 0, 0.8251046025104602]
+];
+const LINEAR_REC2020_TO_XYZ: Matrix = [
+    [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+    [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+    [0, 19567812 / 697040785, 295819943 / 278816314]
+];
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+/** Color spaces accepted by `color()` */
+export const PREDEFINED_COLOR_SPACES = [
+    'srgb', 'srgb-linear', 'display-p3', 'a98-rgb', 'prophoto-rgb', 'rec2020', 'xyz', 'xyz-d50', 'xyz-d65'
+] as const;
+
+export type PredefinedColorSpace = typeof PREDEFINED_COLOR_SPACES[number];
+
+/**
+ * Inverse of srgbToLinear; keeps the sign so out-of-gamut values survive until they are clipped
+ */
+export function linearToSrgb(channel: number): number {
+    const abs = Math.abs(channel);
+    const encoded = abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055;
+    return Math.sign(channel) * encoded;
+}
+
+/** HSL with hue in degrees, saturation and lightness in 0..1 → sRGB */
+export function hslToRgb(hue: number, saturation: number, lightness: number): Vector {
+    const h = ((hue % 360) + 360) % 360;
+    const f = (n: number) => {
+        const k = (n + h / 30) % 12;
+        const a = saturation * Math.min(lightness, 1 - lightness);
+        return lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return [f(0), f(8), f(4)];
+}
+
+/** HWB with hue in degrees, whiteness and blackness in 0..1 → sRGB */
+export function hwbToRgb(hue: number, whiteness: number, blackness: number): Vector {
+    if (whiteness + blackness >= 1) {
+        const gray = whiteness / (whiteness + blackness);
+        return [gray, gray, gray];
+    }
+    return hslToRgb(hue, 1, 0.5).map(c => c * (1 - whiteness - blackness) + whiteness) as Vector;
+}
+
+/** Polar (LCH, OKLCH) → rectangular (Lab, OKLab) coordinates */
+export function polarToLab(L: number, chroma: number, hue: number): Lab {
+    const radians = hue * Math.PI / 180;
+    return { L, a: chroma * Math.cos(radians), b: chroma * Math.sin(radians) };
+}
+
+/** CIELAB (D50, as used by CSS `lab()`) → sRGB, not clipped to the gamut */
+export function labToRgb(lab: Lab): Vector {
+    const kappa = 24389 / 27;
+    const epsilon = 216 / 24389;
+    const fy = (lab.L + 16) / 116;
+    const fx = lab.a / 500 + fy;
+    const fz = fy - lab.b / 200;
+
+    const xyz: Vector = [
+        Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa,
+        lab.L > kappa * epsilon ? Math.pow(fy, 3) : lab.L / kappa,
+        Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa
+    ];
+    return xyzD50ToRgb(xyz.map((c, i) => c * D50_WHITE[i]) as Vector);
+}
+
+/** OKLab → sRGB, not clipped to the gamut */
+export function oklabToRgb(lab: Lab): Vector {
+    const l = Math.pow(lab.L + 0.3963377774 * lab.a + 0.2158037573 * lab.b, 3);
+    const m = Math.pow(lab.L - 0.1055613458 * lab.a - 0.0638541728 * lab.b, 3);
+    const s = Math.pow(lab.L - 0.0894841775 * lab.a - 1.2914855480 * lab.b, 3);
+
+    return [
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+    ].map(linearToSrgb) as Vector;
+}
+
+/** `color(<space> c1 c2 c3)` components → sRGB, not clipped to the gamut */
+export function predefinedToRgb(space: PredefinedColorSpace, components: Vector): Vector {
+    switch (space) {
+        case 'srgb':
+            return components;
+        case 'srgb-linear':
+            return components.map(linearToSrgb) as Vector;
+        case 'display-p3':
+            return xyzD65ToRgb(multiply(LINEAR_P3_TO_XYZ, components.map(signed(srgbToLinear)) as Vector));
+        case 'a98-rgb':
+            return xyzD65ToRgb(multiply(LINEAR_A98_TO_XYZ, components.map(signed(c => Math.pow(c, 563 / 256))) as Vector));
+        case 'prophoto-rgb':
+            return xyzD50ToRgb(multiply(LINEAR_PROPHOTO_TO_XYZ_D50, components.map(signed(c => c <= 16 / 512 ? c / 16 : Math.pow(c, 1.8))) as Vector));
+        case 'rec2020':
+            return xyzD65ToRgb(multiply(LINEAR_REC2020_TO_XYZ, components.map(signed(rec2020ToLinear)) as Vector));
+        case 'xyz-d50':
+            return xyzD50ToRgb(components);
+        case 'xyz':
+        case 'xyz-d65':
+            return xyzD65ToRgb(components);
+    }
+}
+
+function xyzD65ToRgb(xyz: Vector): Vector {
+    return multiply(XYZ_D65_TO_LINEAR_SRGB, xyz).map(linearToSrgb) as Vector;
+}
+
+function xyzD50ToRgb(xyz: Vector): Vector {
+    return xyzD65ToRgb(multiply(D50_TO_D65, xyz));
+}
+
+function rec2020ToLinear(channel: number): number {
+    const alpha = 1.09929682680944;
+    const beta = 0.018053968510807;
+    return channel < beta * 4.5 ? channel / 4.5 : Math.pow((channel + alpha - 1) / alpha, 1 / 0.45);
+}
+
+/** Apply a transfer function defined on 0..∞ symmetrically to negative values */
+function signed(transfer: (channel: number) => number): (channel: number) => number {
+    return channel => Math.sign(channel) * transfer(Math.abs(channel));
+}
+
+function multiply(matrix: Matrix, vector: Vector): Vector {
+    return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]) as Vector;
+}
@@ -0,0 +1,74 @@
+import { Lab } from './convert';
+
+const rad = (deg: number) => deg * Math.PI / 180;
+const deg = (rad: number) => rad * 180 / Math.PI;
+
+/**
+ * CIEDE2000 color difference of two CIELAB colors (Sharma, Wu & Dalal, 2005).
+ * About 1 is the smallest difference most people notice; 2-3 is noticeable side by side.
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+    const C1 = Math.hypot(lab1.a, lab1.b);
+    const C2 = Math.hypot(lab2.a, lab2.b);
+    const Cbar7 = Math.pow((C1 + C2) / 2, 7);
+    const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + Math.pow(25, 7))));
+
+    const a1p = (1 + G) * lab1.a;
+    const a2p = (1 + G) * lab2.a;
+    const C1p = Math.hypot(a1p, lab1.b);
+    const C2p = Math.hypot(a2p, lab2.b);
+    const h1p = hueAngle(lab1.b, a1p);
+    const h2p = hueAngle(lab2.b, a2p);
+
+    const dLp = lab2.L - lab1.L;
+    const dCp = C2p - C1p;
+    let dhp = 0;
+    if (C1p * C2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+    const Lbarp = (lab1.L + lab2.L) / 2;
+    const Cbarp = (C1p + C2p) / 2;
+    let hbarp = h1p + h2p;
+    if (C1p * C2p !== 0) {
+        if (Math.abs(h1p - h2p) <= 180) hbarp = (h1p + h2p) / 2;
+        else if (h1p + h2p < 360) hbarp = (h1p + h2p + 360) / 2;
+        else hbarp = (h1p + h2p - 360) / 2;
+    }
+
+    const T = 1
+        - 0.17 * Math.cos(rad(hbarp - 30))
+        + 0.24 * Math.cos(rad(2 * hbarp))
+        + 0.32 * Math.cos(rad(3 * hbarp + 6))
+        - 0.20 * Math.cos(rad(4 * hbarp - 63));
+    const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+    const Cbarp7 = Math.pow(Cbarp, 7);
+    const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + Math.pow(25, 7)));
+    const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+    const Sc = 1 + 0.045 * Cbarp;
+    const Sh = 1 + 0.015 * Cbarp * T;
+    const Rt = -Math.sin(rad(2 * dTheta)) * Rc;
+
+    return Math.sqrt(
+        Math.pow(dLp / Sl, 2) +
+        Math.pow(dCp / Sc, 2) +
+        Math.pow(dHp / Sh, 2) +
+        Rt * (dCp / Sc) * (dHp / Sh)
+    );
+}
+
+/**
+ * Euclidean distance in OKLab, scaled by 100 to sit on roughly the same scale as ΔE2000
+ */
+export function deltaEOK(lab1: Lab, lab2: Lab): number {
+    return 100 * Math.hypot(lab1.L - lab2.L, lab1.a - lab2.a, lab1.b - lab2.b);
+}
+
+function hueAngle(b: number, a: number): number {
+    if (a === 0 && b === 0) return 0;
+    const h = deg(Math.atan2(b, a));
+    return h >= 0 ? h : h + 360;
+}
@@ -0,0 +1,15 @@
+export { parseColor, formatColor, normalizeColor, COLOR_FUNCTION_NAMES, type RGBA } from './parse';
+export { NAMED_COLORS, isNamedColor } from './named';
+export { rgbToLab, rgbToOklab, srgbToLinear, linearToSrgb, type Lab } from './convert';
+export { deltaE2000, deltaEOK } from './deltaE';
+export {
+    createColorPalette,
+    findNearestColors,
+    classifyColorMatch,
+    DEFAULT_NEAR_THRESHOLD,
+    DEFAULT_MAX_SUGGESTION_DELTA_E,
+    type ColorPalette,
+    type ColorCandidate,
+    type ColorMetric,
+    type ColorMatchKind
+} from './nearest';
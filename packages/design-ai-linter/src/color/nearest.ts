@@ -0,0 +1,108 @@
+import { Token } from '../types';
+import { parseColor, formatColor, RGBA } from './parse';
+import { rgbToLab, rgbToOklab, Lab } from './convert';
+import { deltaE2000, deltaEOK } from './deltaE';
+
+export type ColorMetric = 'ciede2000' | 'oklab';
+
+/** exact: renders identically / near: within the threshold / off-palette: nothing close enough */
+export type ColorMatchKind = 'exact' | 'near' | 'off-palette';
+
+export type ColorCandidate = {
+    token: Token;
+    /** Token value (of the closest mode) the distance was measured to */
+    value: string;
+    distance: number;
+    exact: boolean;
+    alphaMatch: boolean;
+};
+
+type PaletteEntry = {
+    token: Token;
+    value: string;
+    color: RGBA;
+    key: string;
+    lab: Lab;
+    oklab: Lab;
+};
+
+export type ColorPalette = PaletteEntry[];
+
+/** Default ΔE up to which a color counts as a near match of a token */
+export const DEFAULT_NEAR_THRESHOLD = 5;
+
+/** Default ΔE up to which an off-palette color still names its nearest token as a suggestion */
+export const DEFAULT_MAX_SUGGESTION_DELTA_E = 10;
+
+/**
+ * Index the color tokens once: every mode value that parses as a color becomes an entry
+ */
+export function createColorPalette(tokens: Token[]): ColorPalette {
+    const palette: ColorPalette = [];
+    for (const token of tokens) {
+        if (token.type !== 'color') continue;
+
+        const values = [token.value ?? token.rawValue, ...Object.values(token.modes ?? {})];
+        for (const value of values) {
+            if (typeof value !== 'string') continue;
+            const color = parseColor(value);
+            if (!color) continue;
+            palette.push({ token, value, color, key: formatColor(color), lab: rgbToLab(color), oklab: rgbToOklab(color) });
+        }
+    }
+    return palette;
+}
+
+/**
+ * Rank tokens by perceptual distance to a color, closest first.
+ * Tokens with the same alpha rank before tokens that only match in hue and lightness.
+ */
+export function findNearestColors(
+    value: string,
+    palette: ColorPalette,
+    options: { limit?: number; metric?: ColorMetric } = {}
+): ColorCandidate[] {
+    const color = parseColor(value);
+    if (!color) return [];
+
+    const key = formatColor(color);
+    const lab = rgbToLab(color);
+    const oklab = rgbToOklab(color);
+    const bestByToken = new Map<Token, ColorCandidate>();
+
+    for (const entry of palette) {
+        const distance = options.metric === 'oklab' ? deltaEOK(oklab, entry.oklab) : deltaE2000(lab, entry.lab);
+        const candidate: ColorCandidate = {
+            token: entry.token,
+            value: entry.value,
+            distance,
+            exact: entry.key === key,
+            alphaMatch: Math.abs(entry.color.alpha - color.alpha) <= 0.01
+        };
+
+        const best = bestByToken.get(entry.token);
+        if (!best || compareCandidates(candidate, best) < 0) {
+            bestByToken.set(entry.token, candidate);
+        }
+    }
+
+    return Array.from(bestByToken.values())
+        .sort(compareCandidates)
+        .slice(0, options.limit ?? 3);
+}
+
+/**
+ * Classify a color by its closest candidate
+ */
+export function classifyColorMatch(candidates: ColorCandidate[], threshold = DEFAULT_NEAR_THRESHOLD): ColorMatchKind {
+    const best = candidates[0];
+    if (best?.exact) return 'exact';
+    if (best?.alphaMatch && best.distance <= threshold) return 'near';
+    return 'off-palette';
+}
+
+function compareCandidates(a: ColorCandidate, b: ColorCandidate): number {
+    if (a.exact !== b.exact) return a.exact ? -1 : 1;
+    if (a.alphaMatch !== b.alphaMatch) return a.alphaMatch ? -1 : 1;
+    return a.distance - b.distance;
+}
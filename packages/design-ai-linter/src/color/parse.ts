@@ -0,0 +1,208 @@
+import {
+    hslToRgb,
+    hwbToRgb,
+    labToRgb,
+    oklabToRgb,
+    polarToLab,
+    predefinedToRgb,
+    PREDEFINED_COLOR_SPACES,
+    PredefinedColorSpace
+} from './convert';
+import { NAMED_COLORS } from './named';
+
+/** A color in sRGB; every channel and alpha in 0..1 */
+export type RGBA = {
+    r: number;
+    g: number;
+    b: number;
+    alpha: number;
+};
+
+type Vector = [number, number, number];
+
+/** Functions whose result is a color, by name */
+export const COLOR_FUNCTION_NAMES = new Set([
+    'rgb', 'rgba', 'hsl', 'hsla', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'color'
+]);
+
+const NUMERIC_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/;
+
+/**
+ * Parse any CSS Color 4 color: hex (#rgb, #rgba, #rrggbb, #rrggbbaa), named colors, `transparent`,
+ * rgb()/rgba(), hsl()/hsla(), hwb(), lab(), lch(), oklab(), oklch() and color() in a predefined space.
+ * Legacy comma-separated and modern space-separated (`/ alpha`) arguments are both accepted;
+ * colors outside the sRGB gamut are clipped.
+ * @returns undefined for anything else, including relative colors and arguments using var() or calc()
+ */
+export function parseColor(value: string): RGBA | undefined {
+    const text = value.trim().toLowerCase();
+
+    if (text.startsWith('#')) {
+        return parseHex(text.slice(1));
+    }
+    if (text === 'transparent') {
+        return { r: 0, g: 0, b: 0, alpha: 0 };
+    }
+    if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, text)) {
+        return parseHex(NAMED_COLORS[text].slice(1));
+    }
+
+    const fn = /^([a-z-]+)\(([^()]*)\)$/.exec(text);
+    if (!fn || !COLOR_FUNCTION_NAMES.has(fn[1])) return undefined;
+
+    const args = splitArguments(fn[2]);
+    if (!args) return undefined;
+
+    const alpha = args.alpha === undefined ? 1 : parseComponent(args.alpha, 1);
+    const rgb = fn[1] === 'color'
+        ? predefinedColorToRgb(args.channels)
+        : functionToRgb(fn[1], args.channels);
+    if (!rgb || alpha === undefined) return undefined;
+
+    const [r, g, b] = rgb.map(clamp);
+    return { r, g, b, alpha: clamp(alpha) };
+}
+
+/**
+ * The canonical form of a color: lowercase #rrggbb, or #rrggbbaa when it is translucent.
+ * Channels are rounded to 8 bits as rendered by the browser, so two colors with the same
+ * canonical form are identical whatever syntax they were written in.
+ */
+export function formatColor(color: RGBA): string {
+    const hex = [color.r, color.g, color.b].map(toHexByte).join('');
+    const alpha = toHexByte(color.alpha);
+    return alpha === 'ff' ? `#${hex}` : `#${hex}${alpha}`;
+}
+
+/**
+ * Parse a color and return its canonical form
+ * @returns undefined if the value is not a color
+ */
+export function normalizeColor(value: string): string | undefined {
+    const color = parseColor(value);
+    return color && formatColor(color);
+}
+
+function parseHex(hex: string): RGBA | undefined {
+    if (!/^[0-9a-f]+$/.test(hex)) return undefined;
+
+    const digits = hex.length === 3 || hex.length === 4
+        ? hex.split('').map(d => d + d)
+        : hex.length === 6 || hex.length === 8 ? hex.match(/../g)! : undefined;
+    if (!digits) return undefined;
+
+    const [r, g, b, a] = digits.map(d => parseInt(d, 16) / 255);
+    return { r, g, b, alpha: a ?? 1 };
+}
+
+/**
+ * Split function arguments: `1, 2, 3, 0.5` (legacy) or `1 2 3 / 50%` (modern)
+ */
+function splitArguments(body: string): { channels: string[]; alpha?: string } | undefined {
+    if (body.includes(',')) {
+        const parts = body.split(',').map(part => part.trim());
+        if (parts.some(part => !part || /\s/.test(part))) return undefined;
+        if (parts.length === 4) return { channels: parts.slice(0, 3), alpha: parts[3] };
+        return parts.length === 3 ? { channels: parts } : undefined;
+    }
+
+    const [main, alpha, ...rest] = body.split('/');
+    if (rest.length > 0 || (alpha !== undefined && !alpha.trim())) return undefined;
+    return { channels: main.trim().split(/\s+/).filter(Boolean), alpha: alpha?.trim() };
+}
+
+function functionToRgb(name: string, channels: string[]): Vector | undefined {
+    if (channels.length !== 3) return undefined;
+    const [first, second, third] = channels;
+
+    switch (name) {
+        case 'rgb':
+        case 'rgba': {
+            const rgb = channels.map(arg => parseComponent(arg, 255));
+            return rgb.every(c => c !== undefined) ? rgb.map(c => c! / 255) as Vector : undefined;
+        }
+        case 'hsl':
+        case 'hsla':
+        case 'hwb': {
+            const hue = parseHue(first);
+            const s = parseComponent(second, 100);
+            const l = parseComponent(third, 100);
+            if (hue === undefined || s === undefined || l === undefined) return undefined;
+            return name === 'hwb'
+                ? hwbToRgb(hue, clamp(s / 100), clamp(l / 100))
+                : hslToRgb(hue, clamp(s / 100), clamp(l / 100));
+        }
+        case 'lab':
+        case 'oklab': {
+            const scale = name === 'lab' ? { L: 100, ab: 125 } : { L: 1, ab: 0.4 };
+            const L = parseComponent(first, scale.L);
+            const a = parseComponent(second, scale.ab);
+            const b = parseComponent(third, scale.ab);
+            if (L === undefined || a === undefined || b === undefined) return undefined;
+            return name === 'lab' ? labToRgb({ L, a, b }) : oklabToRgb({ L, a, b });
+        }
+        case 'lch':
+        case 'oklch': {
+            const scale = name === 'lch' ? { L: 100, C: 150 } : { L: 1, C: 0.4 };
+            const L = parseComponent(first, scale.L);
+            const C = parseComponent(second, scale.C);
+            const hue = parseHue(third);
+            if (L === undefined || C === undefined || hue === undefined) return undefined;
+            const lab = polarToLab(L, C, hue);
+            return name === 'lch' ? labToRgb(lab) : oklabToRgb(lab);
+        }
+        default:
+            return undefined;
+    }
+}
+
+/** `color(display-p3 1 0.5 0)` */
+function predefinedColorToRgb([space, ...channels]: string[]): Vector | undefined {
+    if (!PREDEFINED_COLOR_SPACES.includes(space as PredefinedColorSpace) || channels.length !== 3) return undefined;
+
+    const components = channels.map(arg => parseComponent(arg, 1));
+    if (components.some(c => c === undefined)) return undefined;
+    return predefinedToRgb(space as PredefinedColorSpace, components as Vector);
+}
+
+/**
+ * A number, or a percentage of `percentReference`; `none` is a missing component and counts as 0
+ */
+function parseComponent(arg: string, percentReference: number): number | undefined {
+    if (arg === 'none') return 0;
+    const match = NUMERIC_PATTERN.exec(arg);
+    if (!match || (match[2] && match[2] !== '%')) return undefined;
+
+    const number = parseFloat(match[1]);
+    return match[2] === '%' ? number / 100 * percentReference : number;
+}
+
+/** A hue in degrees; a bare number is in degrees too */
+function parseHue(arg: string): number | undefined {
+    if (arg === 'none') return 0;
+    const match = NUMERIC_PATTERN.exec(arg);
+    if (!match) return undefined;
+
+    const number = parseFloat(match[1]);
+    switch (match[2]) {
+        case undefined:
+        case 'deg':
+            return number;
+        case 'grad':
+            return number * 0.9;
+        case 'rad':
+            return number * 180 / Math.PI;
+        case 'turn':
+            return number * 360;
+        default:
+            return undefined;
+    }
+}
+
+function clamp(channel: number): number {
+    return Math.min(1, Math.max(0, channel));
+}
+
+function toHexByte(channel: number): string {
+    return Math.round(channel * 255).toString(16).padStart(2, '0');
+}
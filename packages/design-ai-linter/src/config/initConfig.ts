@@ -0,0 +1,58 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { LintConfig, parseConfig } from './loadConfig';
+
+/**
+ * Starter config written by `dslint init`: every static rule with its default severity
+ */
+export const STARTER_CONFIG: LintConfig = {
+    source: {
+        type: 'tokensJson',
+        path: './tokens.json'
+    },
+    files: 'src/**/*.{ts,tsx,js,jsx,css,scss,vue,svelte,astro}',
+    rules: {
+        'naming-convention': { severity: 'error', pattern: '^([a-z]+\\.)+[a-z0-9\\-]+$' },
+        'alias-reference': { severity: 'error', enabled: true },
+        'missing-mode': { severity: 'warn', enabled: true },
+        'raw-color': { severity: 'warn', enabled: true },
+        'raw-pixel': { severity: 'warn', enabled: true },
+        'raw-typography': { severity: 'warn', enabled: true },
+        'raw-radius': { severity: 'warn', enabled: true },
+        'raw-shadow': { severity: 'warn', enabled: true },
+        'raw-z-index': { severity: 'warn', enabled: true },
+        'raw-opacity': { severity: 'warn', enabled: true },
+        'raw-motion': { severity: 'warn', enabled: true }
+    },
+    report: {
+        format: ['console']
+    }
+};
+
+/**
+ * Write a starter designlintrc.json
+ * @returns The absolute path of the written file
+ * @throws Error when the file already exists and `force` is not set
+ */
+export async function initConfig(
+    configPath: string = './designlintrc.json',
+    options: { cwd?: string; force?: boolean; source?: string } = {}
+): Promise<string> {
+    const resolvedPath = path.resolve(options.cwd ?? process.cwd(), configPath);
+
+    if (!options.force) {
+        const exists = await fs.access(resolvedPath).then(() => true, () => false);
+        if (exists) {
+            throw new Error(`設定ファイル ${resolvedPath} は既に存在します（上書きするには --force を指定してください）`);
+        }
+    }
+
+    // Validate so a starter config can never be rejected by loadConfig
+    const config = parseConfig({
+        ...STARTER_CONFIG,
+        source: { ...STARTER_CONFIG.source, ...(options.source ? { path: options.source } : {}) }
+    }, resolvedPath);
+
+    await fs.writeFile(resolvedPath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+    return resolvedPath;
+}
@@ -0,0 +1,218 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { configSchema, partialConfigSchema, ConfigError, toConfigIssues } from './schema';
+
+export type LintConfig = z.infer<typeof configSchema>;
+
+export type ResolvedConfig = {
+    config: LintConfig;
+    /** File the config was read from; undefined when the default config is used */
+    filepath?: string;
+};
+
+/** Config files looked up in every directory, in order of precedence */
+export const CONFIG_FILE_NAMES = [
+    'designlintrc.json',
+    '.designlintrc.json',
+    '.designlintrc.js',
+    '.designlintrc.cjs',
+    '.designlintrc.ts',
+    'package.json'
+];
+
+export const DEFAULT_CONFIG: LintConfig = {
+    source: { path: './tokens.json' },
+    rules: {
+        'naming-convention': { severity: 'error', pattern: '^([a-z]+\\.)+[a-z0-9\\-]+$' }
+    }
+};
+
+/**
+ * Load and validate a config file.
+ * Without a path the config is discovered by walking up from baseDir;
+ * falls back to the default config if none is found.
+ * @throws ConfigError when the file is not valid JSON or doesn't match the config schema
+ */
+export async function loadConfig(
+    configPath?: string,
+    baseDir: string = process.cwd()
+): Promise<LintConfig> {
+    return (await resolveConfig(configPath, baseDir)).config;
+}
+
+/**
+ * Like loadConfig, but also returns the file the config came from
+ * so paths in the config can be resolved relative to it
+ */
+export async function resolveConfig(
+    configPath?: string,
+    baseDir: string = process.cwd()
+): Promise<ResolvedConfig> {
+    const filepath = configPath
+        ? path.resolve(baseDir, configPath)
+        : await findConfigFile(baseDir);
+
+    if (!filepath || !(await fileExists(filepath))) {
+        console.warn(`⚠️  警告: 設定ファイル ${filepath ?? baseDir} を読み込めませんでした。デフォルト設定を使用します。`);
+        return { config: { ...DEFAULT_CONFIG, rules: { ...DEFAULT_CONFIG.rules } } };
+    }
+
+    return { config: await loadConfigFile(filepath), filepath };
+}
+
+/**
+ * Find the closest config file, walking up from startDir to the filesystem root.
+ * A package.json only counts when it has a `designlint` key.
+ */
+export async function findConfigFile(startDir: string): Promise<string | undefined> {
+    let currentDir = path.resolve(startDir);
+    let previousDir: string | undefined;
+
+    // path.dirname of the filesystem root is the root itself
+    while (currentDir !== previousDir) {
+        for (const name of CONFIG_FILE_NAMES) {
+            const candidate = path.join(currentDir, name);
+            if (!(await fileExists(candidate))) continue;
+
+            if (name === 'package.json') {
+                const pkg = await readJson(candidate);
+                if (!pkg || typeof pkg !== 'object' || !('designlint' in pkg)) continue;
+            }
+            return candidate;
+        }
+
+        previousDir = currentDir;
+        currentDir = path.dirname(currentDir);
+    }
+
+    return undefined;
+}
+
+/**
+ * Read a config file, merge the presets it extends and validate the result
+ * @throws ConfigError listing every offending key path
+ */
+export async function loadConfigFile(filepath: string): Promise<LintConfig> {
+    const merged = await readConfigWithExtends(filepath, []);
+    return parseConfig(merged, filepath);
+}
+
+/**
+ * Validate a parsed config object and apply the schema defaults
+ * @throws ConfigError listing every offending key path
+ */
+export function parseConfig(json: unknown, configPath: string = 'designlintrc.json'): LintConfig {
+    const result = configSchema.safeParse(json);
+    if (!result.success) {
+        throw new ConfigError(configPath, toConfigIssues(result.error));
+    }
+    return result.data;
+}
+
+/**
+ * Merge configs: nested objects (such as rule configs) are merged key by key,
+ * arrays and scalars from `override` replace those of `base`
+ */
+export function mergeConfigs(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        const current = result[key];
+        result[key] = isPlainObject(value) && isPlainObject(current)
+            ? mergeConfigs(current, value)
+            : value;
+    }
+    return result;
+}
+
+async function readConfigWithExtends(filepath: string, chain: string[]): Promise<Record<string, unknown>> {
+    if (chain.includes(filepath)) {
+        throw new ConfigError(filepath, [{ path: 'extends', message: `Circular extends: ${[...chain, filepath].join(' → ')}` }]);
+    }
+
+    const raw = await readConfigObject(filepath);
+    const checked = partialConfigSchema.safeParse(raw);
+    if (!checked.success) {
+        throw new ConfigError(filepath, toConfigIssues(checked.error));
+    }
+
+    const { extends: extendsValue } = checked.data;
+    const presets = Array.isArray(extendsValue) ? extendsValue : (extendsValue ? [extendsValue] : []);
+    let merged: Record<string, unknown> = {};
+    for (const preset of presets) {
+        const presetPath = resolvePreset(preset, filepath);
+        merged = mergeConfigs(merged, await readConfigWithExtends(presetPath, [...chain, filepath]));
+    }
+
+    const own = { ...raw };
+    delete own.extends;
+    return mergeConfigs(merged, own);
+}
+
+/**
+ * Read the raw config object of a JSON, JS or TS config file, or the `designlint` key of a package.json
+ */
+async function readConfigObject(filepath: string): Promise<Record<string, unknown>> {
+    const ext = path.extname(filepath);
+    let raw: unknown;
+
+    if (ext === '.js' || ext === '.cjs' || ext === '.ts') {
+        try {
+            if (ext === '.ts') {
+                // eslint-disable-next-line @typescript-eslint/no-var-requires
+                require('tsx/cjs/register');
+            }
+            delete require.cache[require.resolve(filepath)];
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const configModule = require(filepath);
+            raw = configModule?.default ?? configModule;
+        } catch (e) {
+            const hint = ext === '.ts' ? '（TypeScriptの設定ファイルを読み込むにはtsxが必要です）' : '';
+            throw new ConfigError(filepath, [{ path: '', message: `Failed to load config module: ${e instanceof Error ? e.message : String(e)}${hint}` }]);
+        }
+    } else {
+        const content = await fs.readFile(filepath, 'utf-8');
+        try {
+            raw = JSON.parse(content);
+        } catch (e) {
+            throw new ConfigError(filepath, [{ path: '', message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` }]);
+        }
+        if (path.basename(filepath) === 'package.json') {
+            raw = isPlainObject(raw) ? raw.designlint : undefined;
+        }
+    }
+
+    if (!isPlainObject(raw)) {
+        throw new ConfigError(filepath, [{ path: '', message: 'Config must be an object' }]);
+    }
+    return raw;
+}
+
+/**
+ * Resolve a preset from `extends`: a path relative to the extending config, or a module name
+ */
+function resolvePreset(preset: string, extendingFile: string): string {
+    const fromDir = path.dirname(extendingFile);
+    const isPath = preset.startsWith('.') || path.isAbsolute(preset);
+    try {
+        return require.resolve(isPath ? path.resolve(fromDir, preset) : preset, { paths: [fromDir] });
+    } catch {
+        throw new ConfigError(extendingFile, [{ path: 'extends', message: `Cannot find preset "${preset}"` }]);
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+async function fileExists(filepath: string): Promise<boolean> {
+    return fs.access(filepath).then(() => true, () => false);
+}
+
+async function readJson(filepath: string): Promise<unknown> {
+    try {
+        return JSON.parse(await fs.readFile(filepath, 'utf-8'));
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { DETECTABLE_UNITS } from '../dimension';
+
+const severitySchema = z.enum(['error', 'warn', 'info']);
+
+/** `{ severity, enabled }` rules; `enabled` may be omitted and defaults to true */
+const toggleRuleSchema = z.strictObject({
+    severity: severitySchema,
+    enabled: z.boolean().default(true)
+});
+
+const rawColorRuleSchema = toggleRuleSchema.extend({
+    threshold: z.number().nonnegative().optional(),
+    maxSuggestionDeltaE: z.number().nonnegative().optional(),
+    metric: z.enum(['ciede2000', 'oklab']).optional(),
+    severities: z.strictObject({
+        exact: z.union([severitySchema, z.literal('off')]).optional(),
+        near: severitySchema.optional(),
+        offPalette: severitySchema.optional()
+    }).optional()
+});
+
+const rawPixelRuleSchema = toggleRuleSchema.extend({
+    rootFontSize: z.number().positive().optional(),
+    units: z.array(z.enum(DETECTABLE_UNITS)).optional()
+});
+
+const tailwindThemeRuleSchema = toggleRuleSchema.extend({
+    config: z.string().min(1).optional()
+});
+
+const unusedTokenRuleSchema = toggleRuleSchema.extend({
+    files: z.union([z.string(), z.array(z.string().min(1))]).optional()
+});
+
+const customRuleSchema = z.strictObject({
+    id: z.string().min(1),
+    description: z.string(),
+    severity: severitySchema,
+    prompt: z.string().min(1),
+    schema: z.string().min(1)
+});
+
+const namingConventionSchema = z.strictObject({
+    severity: severitySchema,
+    pattern: z.string().refine(isValidRegExp, { message: 'Invalid regular expression' })
+});
+
+export const rulesSchema = z.strictObject({
+    'naming-convention': namingConventionSchema.optional(),
+    'alias-reference': toggleRuleSchema.optional(),
+    'missing-mode': toggleRuleSchema.optional(),
+    'raw-color': rawColorRuleSchema.optional(),
+    'raw-pixel': rawPixelRuleSchema.optional(),
+    'raw-typography': toggleRuleSchema.optional(),
+    'raw-radius': toggleRuleSchema.optional(),
+    'raw-shadow': toggleRuleSchema.optional(),
+    'raw-z-index': toggleRuleSchema.optional(),
+    'raw-opacity': toggleRuleSchema.optional(),
+    'raw-motion': toggleRuleSchema.optional(),
+    'tailwind-theme': tailwindThemeRuleSchema.optional(),
+    'unused-token': unusedTokenRuleSchema.optional(),
+    'custom-rules': z.array(customRuleSchema).optional()
+});
+
+const sourceSchema = z.strictObject({
+    type: z.enum(['tokensJson', 'dtcg', 'tokensStudio']).optional(),
+    path: z.string().min(1),
+    theme: z.string().optional()
+});
+
+export const configSchema = z.strictObject({
+    /** Presets (module names or paths) merged underneath this config, in order */
+    extends: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+    source: sourceSchema,
+    /** Globs of the code files to analyze; `!` patterns exclude */
+    files: z.union([z.string(), z.array(z.string().min(1))]).optional(),
+    /** Files and directories to skip, in .gitignore syntax (like .dslintignore) */
+    ignore: z.array(z.string()).optional(),
+    /** With --staged and --commit-diff, only report problems on added or modified lines */
+    changedLinesOnly: z.boolean().optional(),
+    rules: rulesSchema.optional(),
+    /** Token name globs or token types allowed per CSS property, e.g. `{ "color": ["color.text.*"] }` */
+    propertyTokens: z.record(z.string().min(1), z.array(z.string().min(1))).optional(),
+    /** How `dslint-disable` comments are checked */
+    disableDirectives: z.strictObject({
+        reportUnused: z.union([severitySchema, z.literal('off')]).optional(),
+        requireJustification: z.boolean().optional()
+    }).optional(),
+    report: z.strictObject({
+        format: z.array(z.enum(['console', 'json', 'pr-comment'])).optional(),
+        outputPath: z.string().optional()
+    }).optional(),
+    plugins: z.array(z.string().min(1)).optional()
+});
+
+/**
+ * A single config file or preset before `extends` is merged.
+ * Unknown keys are still rejected, but any key may be left for another file to provide.
+ */
+export const partialConfigSchema = configSchema.extend({
+    source: sourceSchema.partial(),
+    rules: z.strictObject({
+        'naming-convention': namingConventionSchema.partial().optional(),
+        'alias-reference': toggleRuleSchema.partial().optional(),
+        'missing-mode': toggleRuleSchema.partial().optional(),
+        'raw-color': rawColorRuleSchema.partial().optional(),
+        'raw-pixel': rawPixelRuleSchema.partial().optional(),
+        'raw-typography': toggleRuleSchema.partial().optional(),
+        'raw-radius': toggleRuleSchema.partial().optional(),
+        'raw-shadow': toggleRuleSchema.partial().optional(),
+        'raw-z-index': toggleRuleSchema.partial().optional(),
+        'raw-opacity': toggleRuleSchema.partial().optional(),
+        'raw-motion': toggleRuleSchema.partial().optional(),
+        'tailwind-theme': tailwindThemeRuleSchema.partial().optional(),
+        'unused-token': unusedTokenRuleSchema.partial().optional(),
+        'custom-rules': z.array(customRuleSchema).optional()
+    })
+}).partial();
+
+export type ConfigIssue = {
+    /** Key path of the offending value, e.g. `rules.raw-color.severity` or `rules.custom-rules[0].prompt` */
+    path: string;
+    message: string;
+};
+
+/**
+ * Thrown when designlintrc.json can't be parsed or doesn't match the config schema
+ */
+export class ConfigError extends Error {
+    constructor(
+        public readonly configPath: string,
+        public readonly issues: ConfigIssue[]
+    ) {
+        super(
+            `設定ファイル ${configPath} が不正です:\n` +
+            issues.map(issue => `  - ${issue.path || '(root)'}: ${issue.message}`).join('\n')
+        );
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * Flatten zod issues into key paths. Unknown keys are reported at the key itself
+ * so typos like `rules.raw-colr` point at the typo.
+ */
+export function toConfigIssues(error: z.ZodError): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    for (const issue of error.issues) {
+        if (issue.code === 'unrecognized_keys') {
+            for (const key of issue.keys) {
+                issues.push({ path: formatPath([...issue.path, key]), message: 'Unknown key' });
+            }
+        } else {
+            issues.push({ path: formatPath(issue.path), message: issue.message });
+        }
+    }
+    return issues;
+}
+
+function formatPath(segments: PropertyKey[]): string {
+    return segments.reduce<string>((result, segment) => {
+        if (typeof segment === 'number') return `${result}[${segment}]`;
+        return result ? `${result}.${String(segment)}` : String(segment);
+    }, '');
+}
+
+function isValidRegExp(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
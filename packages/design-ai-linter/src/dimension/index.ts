@@ -0,0 +1,18 @@
+export {
+    parseDimension,
+    toPixels,
+    formatDimension,
+    DEFAULT_ROOT_FONT_SIZE,
+    DETECTABLE_UNITS,
+    DEFAULT_UNITS,
+    type Dimension,
+    type DimensionContext,
+    type DetectableUnit
+} from './parse';
+export {
+    createDimensionScale,
+    findNearestDimension,
+    findMatchingDimension,
+    type DimensionScale,
+    type DimensionMatch
+} from './nearest';
@@ -0,0 +1,79 @@
+import { Token } from '../types';
+import { parseDimension, toPixels, Dimension, DimensionContext } from './parse';
+
+type ScaleEntry = {
+    token: Token;
+    /** Token value (of one of the modes) as written */
+    value: string;
+    dimension: Dimension;
+    /** undefined when the unit is relative to the layout */
+    pixels?: number;
+};
+
+export type DimensionScale = ScaleEntry[];
+
+export type DimensionMatch = {
+    token: Token;
+    value: string;
+    /** Difference in px, or in the shared unit for layout-relative units */
+    difference: number;
+};
+
+/**
+ * Index the dimension tokens once: every mode value that parses as a dimension becomes an entry
+ */
+export function createDimensionScale(tokens: Token[], context: DimensionContext): DimensionScale {
+    const scale: DimensionScale = [];
+    for (const token of tokens) {
+        const values = [token.value ?? token.rawValue, ...Object.values(token.modes ?? {})];
+        for (const value of values) {
+            const dimension = parseDimension(value);
+            if (!dimension) continue;
+            scale.push({ token, value: String(value), dimension, pixels: toPixels(dimension, context) });
+        }
+    }
+    return scale;
+}
+
+/**
+ * Find the token whose value is closest to a dimension.
+ * Lengths are compared in px, so `1rem` matches a `16px` token; % and viewport units
+ * only compare to tokens in the same unit.
+ */
+export function findNearestDimension(
+    dimension: Dimension,
+    scale: DimensionScale,
+    context: DimensionContext
+): DimensionMatch | undefined {
+    const pixels = toPixels(dimension, context);
+    let nearest: DimensionMatch | undefined;
+
+    for (const entry of scale) {
+        let difference: number;
+        if (pixels !== undefined && entry.pixels !== undefined) {
+            difference = Math.abs(entry.pixels - pixels);
+        } else if (entry.dimension.unit === dimension.unit) {
+            difference = Math.abs(entry.dimension.value - dimension.value);
+        } else {
+            continue;
+        }
+
+        if (!nearest || difference < nearest.difference) {
+            nearest = { token: entry.token, value: entry.value, difference };
+        }
+    }
+
+    return nearest;
+}
+
+/**
+ * The token with exactly this value, if any (to within rounding of converted units)
+ */
+export function findMatchingDimension(
+    dimension: Dimension,
+    scale: DimensionScale,
+    context: DimensionContext
+): DimensionMatch | undefined {
+    const nearest = findNearestDimension(dimension, scale, context);
+    return nearest && nearest.difference < 0.01 ? nearest : undefined;
+}
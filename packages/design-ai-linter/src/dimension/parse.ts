@@ -0,0 +1,66 @@
+/** A CSS length or percentage; `unit` is lowercase */
+export type Dimension = {
+    value: number;
+    unit: string;
+};
+
+/** How relative units resolve to pixels */
+export type DimensionContext = {
+    /** Font size of the root element in px, for rem (and em, whose context is unknown) */
+    rootFontSize: number;
+};
+
+export const DEFAULT_ROOT_FONT_SIZE = 16;
+
+/** Units the raw value scanner can be asked to report */
+export const DETECTABLE_UNITS = ['px', 'rem', 'em', '%', 'vw', 'vh', 'vmin', 'vmax', 'pt'] as const;
+
+export type DetectableUnit = typeof DETECTABLE_UNITS[number];
+
+/** Units scanned by default */
+export const DEFAULT_UNITS: DetectableUnit[] = ['px', 'rem', 'em'];
+
+/** Pixels per unit of the absolute lengths */
+const ABSOLUTE_UNITS: Record<string, number> = {
+    px: 1,
+    pt: 4 / 3,
+    pc: 16,
+    in: 96,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+    q: 96 / 101.6
+};
+
+const DIMENSION_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z]+|%)?$/i;
+
+/**
+ * Parse a dimension token value or a CSS length: `16px`, `1.5rem`, `50%`.
+ * Plain numbers (`16`, `'16'`) are px, as in tokens exported without a unit.
+ * @returns undefined for anything else (keywords, calc(), several values)
+ */
+export function parseDimension(value: unknown): Dimension | undefined {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? { value, unit: 'px' } : undefined;
+    }
+    if (typeof value !== 'string') return undefined;
+
+    const match = DIMENSION_PATTERN.exec(value.trim());
+    if (!match) return undefined;
+    return { value: parseFloat(match[1]), unit: match[2]?.toLowerCase() ?? 'px' };
+}
+
+/**
+ * Resolve a dimension to pixels; em is resolved against the root font size.
+ * @returns undefined for units relative to the layout (%, viewport units), which only compare to the same unit
+ */
+export function toPixels(dimension: Dimension, context: DimensionContext): number | undefined {
+    if (dimension.unit === 'rem' || dimension.unit === 'em') {
+        return dimension.value * context.rootFontSize;
+    }
+    const factor = ABSOLUTE_UNITS[dimension.unit];
+    return factor === undefined ? undefined : dimension.value * factor;
+}
+
+export function formatDimension(dimension: Dimension): string {
+    return `${dimension.value}${dimension.unit}`;
+}
@@ -346,7 +346,7 @@ export async function runCustomPrompt(
 
     // Prepare tokens context
     const tokensContext = JSON.stringify(
-        tokens.map(t => ({ name: t.name, type: t.type, value: t.rawValue })),
+        tokens.map(t => ({ name: t.name, type: t.type, value: t.rawValue, ...(t.modes ? { modes: t.modes } : {}) })),
         null,
         2
     );
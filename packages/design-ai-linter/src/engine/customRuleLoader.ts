@@ -4,7 +4,7 @@ import path from 'path';
 import { AIRule, LintContext } from '../types';
 import { z } from 'zod';
 
-type CustomRuleConfig = {
+export type CustomRuleConfig = {
     id: string;
     description: string;
     severity: 'error' | 'warn' | 'info';
@@ -167,7 +167,7 @@ export async function loadCustomRules(
                     // Replace {{TOKENS}} placeholder or append tokens info
                     let finalPrompt = promptText;
                     const tokensContext = JSON.stringify(
-                        context.tokens.map(t => ({ name: t.name, type: t.type, value: t.rawValue })),
+                        context.tokens.map(t => ({ name: t.name, type: t.type, value: t.rawValue, ...(t.modes ? { modes: t.modes } : {}) })),
                         null,
                         2
                     );
@@ -0,0 +1,201 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CodeFile, Diagnostic, TextEdit } from '../types';
+
+export type FileFixResult = {
+    file: string;
+    original: string;
+    output: string;
+    applied: TextEdit[];
+    /** Edits overlapping an edit that was already applied; a second `fix` run picks them up */
+    conflicts: TextEdit[];
+    /** Set when the file could not be fixed (changed on disk since it was linted, unreadable...) */
+    error?: string;
+};
+
+export type ApplyFixesOptions = {
+    cwd?: string;
+    /** Compute the fixed content without writing it to disk */
+    dryRun?: boolean;
+};
+
+/**
+ * Apply non-overlapping edits to a text.
+ * Edits are applied in order of their start offset; an edit overlapping one that was
+ * already accepted (or an exact duplicate of it) is not applied.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): { output: string; applied: TextEdit[]; conflicts: TextEdit[] } {
+    const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+    const applied: TextEdit[] = [];
+    const conflicts: TextEdit[] = [];
+
+    let lastEnd = -1;
+    for (const edit of sorted) {
+        if (edit.start < 0 || edit.end < edit.start || edit.end > content.length) {
+            conflicts.push(edit);
+            continue;
+        }
+
+        const previous = applied[applied.length - 1];
+        const isDuplicate = previous
+            && previous.start === edit.start
+            && previous.end === edit.end
+            && previous.replacement === edit.replacement;
+        if (isDuplicate) continue;
+
+        // Touching ranges are fine, overlapping ones (and two insertions at one point) are not
+        if (edit.start < lastEnd || (previous && edit.start === previous.start && edit.start === lastEnd)) {
+            conflicts.push(edit);
+            continue;
+        }
+
+        applied.push(edit);
+        lastEnd = edit.end;
+    }
+
+    let output = '';
+    let cursor = 0;
+    for (const edit of applied) {
+        output += content.slice(cursor, edit.start) + edit.replacement;
+        cursor = edit.end;
+    }
+    output += content.slice(cursor);
+
+    return { output, applied, conflicts };
+}
+
+/**
+ * Apply the edits carried by the diagnostics to the linted files.
+ * Offsets refer to the content the files had when they were linted, so a file whose
+ * content on disk has changed since then is left untouched.
+ */
+export async function applyFixes(
+    diagnostics: Diagnostic[],
+    codeFiles: CodeFile[],
+    options: ApplyFixesOptions = {}
+): Promise<FileFixResult[]> {
+    const cwd = options.cwd ?? process.cwd();
+    const editsByFile = new Map<string, TextEdit[]>();
+
+    for (const diag of diagnostics) {
+        for (const edit of diag.edits ?? []) {
+            if (!editsByFile.has(edit.file)) {
+                editsByFile.set(edit.file, []);
+            }
+            editsByFile.get(edit.file)!.push(edit);
+        }
+    }
+
+    const results: FileFixResult[] = [];
+    for (const [file, edits] of editsByFile) {
+        const codeFile = codeFiles.find(f => f.path === file);
+        const fullPath = path.resolve(cwd, file);
+
+        let onDisk: string | undefined;
+        try {
+            onDisk = await fs.readFile(fullPath, 'utf-8');
+        } catch (error: any) {
+            results.push({ file, original: '', output: '', applied: [], conflicts: edits, error: error.message });
+            continue;
+        }
+
+        const original = codeFile?.content ?? onDisk;
+        if (original !== onDisk) {
+            results.push({ file, original, output: original, applied: [], conflicts: edits, error: 'file changed since it was linted' });
+            continue;
+        }
+
+        const { output, applied, conflicts } = applyTextEdits(original, edits);
+        if (!options.dryRun && applied.length > 0) {
+            await fs.writeFile(fullPath, output, 'utf-8');
+        }
+        results.push({ file, original, output, applied, conflicts });
+    }
+
+    return results;
+}
+
+/**
+ * Unified diff (as printed by `diff -u`) between two versions of a file
+ */
+export function createUnifiedDiff(file: string, original: string, output: string, context = 3): string {
+    if (original === output) return '';
+
+    const a = original.split('\n');
+    const b = output.split('\n');
+
+    // Only the part between the common prefix and suffix needs an LCS
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix && suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const ops: Array<{ type: ' ' | '-' | '+'; text: string }> = [];
+    for (let i = 0; i < prefix; i++) ops.push({ type: ' ', text: a[i] });
+    ops.push(...diffLines(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)));
+    for (let i = a.length - suffix; i < a.length; i++) ops.push({ type: ' ', text: a[i] });
+
+    const lines = [`--- a/${file}`, `+++ b/${file}`];
+    let index = 0;
+    while (index < ops.length) {
+        // Find the next change and grow the hunk while changes are within 2 * context lines
+        while (index < ops.length && ops[index].type === ' ') index++;
+        if (index >= ops.length) break;
+
+        const hunkStart = Math.max(0, index - context);
+        let hunkEnd = index;
+        let lastChange = index;
+        while (hunkEnd < ops.length && hunkEnd - lastChange <= context * 2) {
+            if (ops[hunkEnd].type !== ' ') lastChange = hunkEnd;
+            hunkEnd++;
+        }
+        hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+        const hunk = ops.slice(hunkStart, hunkEnd);
+        const before = ops.slice(0, hunkStart);
+        const oldStart = before.filter(op => op.type !== '+').length + 1;
+        const newStart = before.filter(op => op.type !== '-').length + 1;
+        const oldCount = hunk.filter(op => op.type !== '+').length;
+        const newCount = hunk.filter(op => op.type !== '-').length;
+
+        lines.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+        lines.push(...hunk.map(op => op.type + op.text));
+        index = hunkEnd;
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Line diff of two short line lists via their longest common subsequence
+ */
+function diffLines(a: string[], b: string[]): Array<{ type: ' ' | '-' | '+'; text: string }> {
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const ops: Array<{ type: ' ' | '-' | '+'; text: string }> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            ops.push({ type: ' ', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            ops.push({ type: '-', text: a[i++] });
+        } else {
+            ops.push({ type: '+', text: b[j++] });
+        }
+    }
+    while (i < a.length) ops.push({ type: '-', text: a[i++] });
+    while (j < b.length) ops.push({ type: '+', text: b[j++] });
+
+    return ops;
+}
@@ -0,0 +1,26 @@
+import { CodeFile } from '../types';
+import { runLintPipeline, PipelineOptions, PipelineResult } from './pipeline';
+
+export type LintOptions = Omit<PipelineOptions, 'files'> & {
+    /** Loaded code files, or globs overriding `config.files` */
+    files?: CodeFile[] | string | string[];
+};
+
+export type LintResult = PipelineResult;
+
+/**
+ * Run the whole lint pipeline (static rules → AI candidate selection → AI rules)
+ * and return the diagnostics without printing a report or exiting the process.
+ */
+export async function lint(options: LintOptions = {}): Promise<LintResult> {
+    return runLintPipeline({
+        ...options,
+        files: isPattern(options.files)
+            ? { pattern: options.files, fallback: 'none' }
+            : options.files
+    });
+}
+
+function isPattern(files: LintOptions['files']): files is string | string[] {
+    return typeof files === 'string' || (Array.isArray(files) && files.length > 0 && files.every(file => typeof file === 'string'));
+}
@@ -0,0 +1,482 @@
+import path from 'path';
+import { Token, Diagnostic, CodeFile, AIRule } from '../types';
+import { LintConfig, ResolvedConfig, resolveConfig, findConfigFile, loadConfigFile } from '../config/loadConfig';
+import { loadTokensFromSource } from '../adapters/tokenSource';
+import { loadCodeFiles, loadCodeFilesFromGitDiff } from '../adapters/codeFileAdapter';
+import { runStaticRules, StaticRuleConfig } from './staticRunner';
+import { selectAICandidates } from './candidateSelector';
+import { loadCustomRules } from './customRuleLoader';
+import { loadPlugins } from './pluginLoader';
+import { loadTailwindTheme, TailwindTheme } from '../tailwind';
+import { RAW_VALUE_RULE_IDS } from '../rules/raw-values';
+import { collectDisableDirectives, suppressDiagnostics, reportDirectiveProblems } from '../suppression';
+import { Baseline, BaselineResult, applyBaseline, readBaseline } from '../baseline';
+
+/** Glob used when every file is checked and neither --files nor config.files is set */
+export const DEFAULT_FILES_PATTERN = '**/*.{ts,tsx,js,jsx,css,scss,vue,svelte,astro,html}';
+
+export type PipelineContext = {
+    config: LintConfig;
+    cwd: string;
+    tokens: Token[];
+    codeFiles: CodeFile[];
+    /** Diagnostics collected so far; hooks may add, remove or rewrite entries */
+    diagnostics: Diagnostic[];
+    /** Tokens sent to the AI rules; set after the static layer, hooks may narrow it down */
+    candidates: Token[];
+};
+
+type Hook = (context: PipelineContext) => void | Promise<void>;
+
+export type LintHooks = {
+    beforeStatic?: Hook;
+    afterStatic?: Hook;
+    beforeAI?: Hook;
+    afterReport?: Hook;
+};
+
+export type LintPlugin = LintHooks & {
+    name: string;
+};
+
+/**
+ * Which code files to analyze.
+ * Priority: commitDiff > since > staged > pattern (option or config.files) > fallback
+ */
+export type FileSelection = {
+    commitDiff?: string;
+    /** Branch or commit: files changed since its merge-base with HEAD */
+    since?: string;
+    staged?: boolean;
+    /** Glob, or globs where `!` patterns exclude */
+    pattern?: string | string[];
+    /** What to check when nothing else is specified: staged files (lint) or every file (fix) */
+    fallback?: 'staged' | 'all' | 'none';
+    /** With a git diff selection, only report problems on added or modified lines (default: config.changedLinesOnly) */
+    changedLinesOnly?: boolean;
+};
+
+export type PipelineOptions = {
+    /** Config object, or a path to a config file (default: the config closest to each code file) */
+    config?: LintConfig | string;
+    /** Loaded tokens, or a path overriding `config.source.path` */
+    tokens?: Token[] | string;
+    theme?: string;
+    /** Loaded code files, or how to select them */
+    files?: CodeFile[] | FileSelection;
+    cwd?: string;
+    /** Run AI rules when an API key is available (default: true) */
+    ai?: boolean;
+    model?: string;
+    plugins?: LintPlugin[];
+    /** Known diagnostics left out of the result and the reports, or a path to a baseline file */
+    baseline?: Baseline | string;
+    report?: {
+        json?: string;
+        prComment?: boolean;
+        console?: boolean;
+    };
+    /** Receives progress messages; silent by default */
+    logger?: (message: string) => void;
+};
+
+export type PipelineResult = {
+    diagnostics: Diagnostic[];
+    tokens: Token[];
+    codeFiles: CodeFile[];
+    /** What the baseline matched and what was fixed since, when one was given */
+    baseline?: BaselineResult;
+};
+
+/** Code files linted with one config */
+type ConfigGroup = ResolvedConfig & {
+    codeFiles: CodeFile[];
+};
+
+type PipelineRun = {
+    context: PipelineContext;
+    plugins: LintPlugin[];
+};
+
+/**
+ * The lint pipeline shared by `dslint lint`, `dslint fix` and the programmatic API:
+ * config → tokens → code files → static rules → AI candidates → AI rules → reports.
+ * Plugins (from options and `config.plugins`) run their hooks between the stages.
+ *
+ * Without an explicit config each code file is linted with the config closest to it,
+ * so the stages run once per config and the reports cover every run.
+ */
+export async function runLintPipeline(options: PipelineOptions = {}): Promise<PipelineResult> {
+    const cwd = options.cwd ?? process.cwd();
+    const log = options.logger ?? (() => undefined);
+
+    const root: ResolvedConfig = typeof options.config === 'object'
+        ? { config: options.config }
+        : await resolveConfig(options.config, cwd);
+
+    const codeFiles = Array.isArray(options.files)
+        ? options.files
+        : await selectCodeFiles(options.files ?? { pattern: root.config.files, fallback: 'none' }, root.config, cwd, log);
+
+    const groups = options.config === undefined
+        ? await groupByNearestConfig(codeFiles, root, cwd)
+        : [{ ...root, codeFiles }];
+
+    const runs: PipelineRun[] = [];
+    for (const group of groups) {
+        if (groups.length > 1) {
+            log(`⚙️  設定ファイル: ${group.filepath ?? '(デフォルト)'}（${group.codeFiles.length}ファイル）`);
+        }
+        runs.push(await runStages(group, options, cwd, log));
+    }
+
+    const linted = runs.flatMap(run => run.context.codeFiles);
+    let diagnostics = filterChangedLines(runs.flatMap(run => run.context.diagnostics), linted);
+
+    // Known diagnostics don't count
+    let baseline: BaselineResult | undefined;
+    if (options.baseline) {
+        baseline = typeof options.baseline === 'string'
+            ? applyBaseline(diagnostics, linted, await readBaseline(path.resolve(cwd, options.baseline)), {
+                cwd,
+                baseDir: path.dirname(path.resolve(cwd, options.baseline))
+            })
+            : applyBaseline(diagnostics, linted, options.baseline, { cwd });
+        diagnostics = baseline.diagnostics;
+        log(`📋 ベースラインの既知の問題${baseline.baselined.length}件を除外しました。`);
+    }
+
+    // 4. Reports
+    await writeReports(diagnostics, options.report);
+    for (const run of runs) {
+        await runHook(run, 'afterReport');
+    }
+
+    return {
+        diagnostics,
+        tokens: runs.length === 1 ? runs[0].context.tokens : runs.flatMap(run => run.context.tokens),
+        codeFiles: runs.length === 1 ? runs[0].context.codeFiles : linted,
+        ...(baseline && { baseline })
+    };
+}
+
+/**
+ * Static and AI stages for the code files of one config.
+ * Relative paths in a config file (token source, custom rules, plugins) are resolved from its directory.
+ */
+async function runStages(
+    group: ConfigGroup,
+    options: PipelineOptions,
+    cwd: string,
+    log: (message: string) => void
+): Promise<PipelineRun> {
+    const { config } = group;
+    const baseDir = group.filepath ? path.dirname(group.filepath) : cwd;
+
+    const tokens = await resolveTokens(options, config, cwd, baseDir, log);
+    const plugins = [
+        ...(options.plugins ?? []),
+        ...(Array.isArray(config.plugins) ? await loadPlugins(config.plugins, baseDir) : [])
+    ];
+    const run: PipelineRun = {
+        context: { config, cwd, tokens, codeFiles: group.codeFiles, diagnostics: [], candidates: [] },
+        plugins
+    };
+    const { context } = run;
+
+    // 1. Static Lint Layer
+    await runHook(run, 'beforeStatic');
+    log('🔍 Running Static Rules...');
+    const tailwindTheme = await loadProjectTailwindTheme(config, context.codeFiles, baseDir);
+    const rulesConfig = withDefaultRules(config.rules, context.codeFiles, tailwindTheme);
+    const directives = collectDisableDirectives(context.codeFiles, config.disableDirectives);
+    const checkedRules = getCheckedRuleIds(rulesConfig);
+    const referenceFiles = await loadReferenceFiles(config, baseDir);
+    const staticDiags = runStaticRules(
+        context.tokens,
+        rulesConfig,
+        context.codeFiles,
+        { tailwindTheme, propertyTokens: config.propertyTokens, referenceFiles }
+    );
+    context.diagnostics.push(...suppressDiagnostics(staticDiags, directives));
+    await runHook(run, 'afterStatic');
+
+    // 2. AI Candidate Selector
+    context.candidates = selectAICandidates(context.tokens, context.diagnostics);
+
+    // 3. AI Lint Layer
+    if (options.ai !== false) {
+        await runHook(run, 'beforeAI');
+
+        const hasAIKey = !!process.env.OPENAI_API_KEY || !!process.env.GEMINI_API_KEY;
+        if (hasAIKey && context.candidates.length > 0) {
+            log(`🤖 Running AI Rules on ${context.candidates.length} candidates...`);
+            const { runAIRules } = await import('./aiRunner');
+            const rules = await loadAIRules(config, baseDir, log);
+            const aiDiags = await runAIRules(context.candidates, rules, undefined, 'openai', context.codeFiles, options.model);
+            context.diagnostics.push(...suppressDiagnostics(aiDiags, directives));
+            rules.forEach(rule => checkedRules.add(rule.id));
+        } else if (!hasAIKey) {
+            log('ℹ️  AIルールをスキップします（OPENAI_API_KEYまたはGEMINI_API_KEYが見つかりません）');
+        } else {
+            log('ℹ️  AI分析の候補がありません。');
+        }
+    }
+
+    context.diagnostics.push(...reportDirectiveProblems(directives, checkedRules));
+
+    return run;
+}
+
+async function runHook(run: PipelineRun, hook: keyof LintHooks) {
+    for (const plugin of run.plugins) {
+        await plugin[hook]?.(run.context);
+    }
+}
+
+/**
+ * Group code files by the closest config file above them.
+ * Files without a config of their own use the config resolved from the working directory.
+ */
+async function groupByNearestConfig(codeFiles: CodeFile[], root: ResolvedConfig, cwd: string): Promise<ConfigGroup[]> {
+    const groups = new Map<string | undefined, ConfigGroup>([[root.filepath, { ...root, codeFiles: [] }]]);
+    const configByDir = new Map<string, string | undefined>();
+
+    for (const codeFile of codeFiles) {
+        const dir = path.dirname(path.resolve(cwd, codeFile.path));
+        if (!configByDir.has(dir)) {
+            configByDir.set(dir, await findConfigFile(dir));
+        }
+
+        const filepath = configByDir.get(dir) ?? root.filepath;
+        if (!groups.has(filepath)) {
+            groups.set(filepath, { config: await loadConfigFile(filepath!), filepath, codeFiles: [] });
+        }
+        groups.get(filepath)!.codeFiles.push(codeFile);
+    }
+
+    const used = Array.from(groups.values()).filter(group => group.codeFiles.length > 0);
+    if (used.length <= 1) {
+        // A single config (or a run without code files): keep the caller's file list as is
+        return [{ ...(used[0] ?? root), codeFiles }];
+    }
+    return used;
+}
+
+async function resolveTokens(
+    options: PipelineOptions,
+    config: LintConfig,
+    cwd: string,
+    baseDir: string,
+    log: (message: string) => void
+): Promise<Token[]> {
+    if (Array.isArray(options.tokens)) {
+        return options.tokens;
+    }
+
+    // --source is relative to the working directory, source.path to the config file
+    const sourcePath = options.tokens
+        ? path.resolve(cwd, options.tokens)
+        : path.resolve(baseDir, config.source.path);
+    log(`📦 トークンを読み込み中: ${options.tokens ?? config.source.path}`);
+    const tokens = await loadTokensFromSource({
+        ...config.source,
+        theme: options.theme ?? config.source.theme,
+        path: sourcePath
+    });
+    log(`✅ ${tokens.length}個のトークンが見つかりました。`);
+    return tokens;
+}
+
+/**
+ * Load the code files to analyze according to the selection
+ */
+export async function selectCodeFiles(
+    selection: FileSelection,
+    config: LintConfig,
+    cwd: string = process.cwd(),
+    log: (message: string) => void = () => undefined
+): Promise<CodeFile[]> {
+    let codeFiles: CodeFile[];
+    const gitOptions = { ignore: config.ignore, changedLines: selection.changedLinesOnly ?? config.changedLinesOnly };
+    const logRenames = (files: CodeFile[]) => {
+        for (const codeFile of files.filter(file => file.previousPath)) {
+            log(`   🔀 ${codeFile.previousPath} → ${codeFile.path}`);
+        }
+    };
+
+    if (selection.commitDiff) {
+        log(`📁 Git差分のコードファイルを読み込み中: ${selection.commitDiff}`);
+        codeFiles = await loadCodeFilesFromGitDiff(cwd, undefined, selection.commitDiff, gitOptions);
+        log(`✅ ${codeFiles.length}個の変更されたコードファイルが見つかりました。`);
+        logRenames(codeFiles);
+        return codeFiles;
+    }
+
+    if (selection.since) {
+        log(`📁 ${selection.since}からの変更のコードファイルを読み込み中...`);
+        codeFiles = await loadCodeFilesFromGitDiff(cwd, undefined, undefined, { ...gitOptions, since: selection.since });
+        log(`✅ ${codeFiles.length}個の変更されたコードファイルが見つかりました。`);
+        logRenames(codeFiles);
+        return codeFiles;
+    }
+
+    if (selection.staged) {
+        log(`📁 ステージングされたコードファイルを読み込み中...`);
+        codeFiles = await loadCodeFilesFromGitDiff(cwd, true, undefined, gitOptions);
+        log(`✅ ${codeFiles.length}個のステージングされたコードファイルが見つかりました。`);
+        logRenames(codeFiles);
+        return codeFiles;
+    }
+
+    const pattern = selection.pattern || config.files || (selection.fallback === 'all' ? DEFAULT_FILES_PATTERN : undefined);
+    if (pattern) {
+        log(`📁 コードファイルを読み込み中: ${[pattern].flat().join(' ')}`);
+        codeFiles = await loadCodeFiles(pattern, cwd, { ignore: config.ignore });
+        log(`✅ ${codeFiles.length}個のコードファイルが見つかりました。`);
+        return codeFiles;
+    }
+
+    if (selection.fallback === 'staged') {
+        log(`📁 ステージングされたコードファイルを読み込み中（デフォルト）...`);
+        codeFiles = await loadCodeFilesFromGitDiff(cwd, true, undefined, gitOptions);
+        log(`✅ ${codeFiles.length}個のステージングされたコードファイルが見つかりました。`);
+        logRenames(codeFiles);
+        return codeFiles;
+    }
+
+    return [];
+}
+
+/**
+ * Drop the diagnostics on lines a code file's git diff didn't add or modify.
+ * Diagnostics without a line, and those of files loaded without changed lines, are kept.
+ */
+function filterChangedLines(diagnostics: Diagnostic[], codeFiles: CodeFile[]): Diagnostic[] {
+    const changedLines = new Map(codeFiles.filter(codeFile => codeFile.changedLines).map(codeFile => [codeFile.path, codeFile.changedLines!]));
+    if (changedLines.size === 0) return diagnostics;
+
+    return diagnostics.filter(diagnostic => {
+        const ranges = diagnostic.file ? changedLines.get(diagnostic.file) : undefined;
+        const line = diagnostic.line;
+        return !ranges || !line || ranges.some(range => line >= range.start && line <= range.end);
+    });
+}
+
+/**
+ * The Tailwind theme next to the config, when there is one and something uses it:
+ * - the tailwind-theme rule, unless turned off; it checks the theme values even without code files
+ * - the code files, whose arbitrary values are fixed with theme utilities even when the rule is off
+ * - the unused-token rule, which maps theme utilities back to tokens
+ */
+async function loadProjectTailwindTheme(config: LintConfig, codeFiles: CodeFile[], baseDir: string): Promise<TailwindTheme | undefined> {
+    const ruleConfig = config.rules?.['tailwind-theme'];
+    const checksTheme = ruleConfig?.enabled !== false;
+    const fixesClasses = codeFiles.length > 0;
+    const findsReferences = !!config.rules?.['unused-token'] && config.rules['unused-token'].enabled !== false;
+    if (!checksTheme && !fixesClasses && !findsReferences) return undefined;
+    return loadTailwindTheme(baseDir, ruleConfig?.config);
+}
+
+/**
+ * The files unused-token searches for references. A token used outside the linted files
+ * (a git diff, a single file) is still used, so the rule looks at the whole project.
+ */
+async function loadReferenceFiles(config: LintConfig, baseDir: string): Promise<CodeFile[] | undefined> {
+    const ruleConfig = config.rules?.['unused-token'];
+    if (!ruleConfig || ruleConfig.enabled === false) return undefined;
+    return loadCodeFiles(ruleConfig.files ?? config.files ?? DEFAULT_FILES_PATTERN, baseDir, { ignore: config.ignore });
+}
+
+/**
+ * Rules that are on unless the config says otherwise.
+ * raw-color and raw-pixel are only meaningful when code files are analyzed,
+ * tailwind-theme when the project has a Tailwind config.
+ */
+function withDefaultRules(rules: LintConfig['rules'], codeFiles: CodeFile[], tailwindTheme?: TailwindTheme): StaticRuleConfig {
+    const rulesConfig: StaticRuleConfig = { ...rules };
+    if (!rulesConfig['alias-reference']) {
+        rulesConfig['alias-reference'] = { severity: 'error', enabled: true };
+    }
+    if (!rulesConfig['missing-mode']) {
+        rulesConfig['missing-mode'] = { severity: 'warn', enabled: true };
+    }
+    if (codeFiles.length > 0) {
+        if (!rulesConfig['raw-color']) {
+            rulesConfig['raw-color'] = { severity: 'warn', enabled: true };
+        }
+        if (!rulesConfig['raw-pixel']) {
+            rulesConfig['raw-pixel'] = { severity: 'warn', enabled: true };
+        }
+        if (!rulesConfig['raw-typography']) {
+            rulesConfig['raw-typography'] = { severity: 'warn', enabled: true };
+        }
+        for (const ruleId of RAW_VALUE_RULE_IDS) {
+            if (!rulesConfig[ruleId]) {
+                rulesConfig[ruleId] = { severity: 'warn', enabled: true };
+            }
+        }
+    }
+    if (tailwindTheme && !rulesConfig['tailwind-theme']) {
+        rulesConfig['tailwind-theme'] = { severity: 'warn', enabled: true };
+    }
+    return rulesConfig;
+}
+
+/**
+ * Static rules the config turns on, for telling unused disable directives from directives of rules that didn't run
+ */
+function getCheckedRuleIds(rulesConfig: StaticRuleConfig): Set<string> {
+    return new Set(Object.entries(rulesConfig)
+        .filter(([ruleId, ruleConfig]) => ruleId !== 'custom-rules' && ruleConfig && (ruleConfig as { enabled?: boolean }).enabled !== false)
+        .map(([ruleId]) => ruleId));
+}
+
+/**
+ * Built-in AI rules plus the custom rules declared in the config
+ */
+async function loadAIRules(config: LintConfig, baseDir: string, log: (message: string) => void): Promise<AIRule[]> {
+    const { semanticNamingRule } = await import('../rules/ai/semantic-naming');
+    const { spacingConsistencyRule } = await import('../rules/ai/spacing-consistency');
+    const { designComplexityRule } = await import('../rules/ai/design-complexity');
+
+    const rules: AIRule[] = [
+        semanticNamingRule,
+        spacingConsistencyRule,
+        designComplexityRule
+    ];
+
+    const customRulesConfig = config.rules?.['custom-rules'];
+    if (Array.isArray(customRulesConfig)) {
+        try {
+            const customRules = await loadCustomRules(customRulesConfig, baseDir);
+            if (customRules.length > 0) {
+                log(`✅ ${customRules.length}個のカスタムルールを読み込みました`);
+                rules.push(...customRules);
+            }
+        } catch (error: any) {
+            console.warn(`⚠️  カスタムルールの読み込み中にエラーが発生しました: ${error.message}`);
+        }
+    }
+
+    return rules;
+}
+
+async function writeReports(diagnostics: Diagnostic[], report: PipelineOptions['report']) {
+    if (!report) return;
+
+    if (report.json) {
+        const { generateJSONReport } = await import('../reporters/jsonReporter');
+        await generateJSONReport(diagnostics, report.json);
+    }
+
+    if (report.prComment) {
+        const { generatePRCommentReport } = await import('../reporters/prCommentReporter');
+        console.log('\n' + generatePRCommentReport(diagnostics));
+    }
+
+    if (report.console) {
+        const { formatConsoleReport } = await import('../reporters/consoleReporter');
+        console.log(formatConsoleReport(diagnostics));
+    }
+}
@@ -0,0 +1,40 @@
+import path from 'path';
+import type { LintPlugin } from './pipeline';
+
+/**
+ * Load lint plugins declared in the config
+ * @param pluginSpecifiers Module names (e.g. "dslint-plugin-storybook") or paths relative to baseDir
+ * @param baseDir Base directory to resolve plugins from (usually process.cwd())
+ * @returns Plugins exporting `default` or `plugin`
+ */
+export async function loadPlugins(
+    pluginSpecifiers: string[],
+    baseDir: string = process.cwd()
+): Promise<LintPlugin[]> {
+    const plugins: LintPlugin[] = [];
+
+    for (const specifier of pluginSpecifiers) {
+        try {
+            const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+            const resolved = isPath
+                ? path.resolve(baseDir, specifier)
+                : require.resolve(specifier, { paths: [baseDir] });
+
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const pluginModule = require(resolved);
+            const plugin: LintPlugin | undefined = pluginModule.default ?? pluginModule.plugin ?? pluginModule;
+
+            if (!plugin || typeof plugin !== 'object' || typeof plugin.name !== 'string') {
+                throw new Error('プラグインは`name`を持つオブジェクトを`export default`または`export const plugin`でエクスポートする必要があります。');
+            }
+
+            plugins.push(plugin);
+            console.log(`✅ プラグインを読み込みました: ${plugin.name}`);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`❌ プラグインの読み込みエラー (${specifier}):`, errorMessage);
+        }
+    }
+
+    return plugins;
+}
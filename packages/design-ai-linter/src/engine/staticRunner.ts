@@ -1,213 +1,385 @@
-import { Token, Diagnostic, CodeFile } from '../types';
+import { Token, Diagnostic, CodeFile, TextEdit } from '../types';
 import { ruleNamingConvention } from '../rules/naming-convention';
-import { extractRawColors, extractRawPixels } from '../adapters/codeFileAdapter';
+import { ruleAliasReference } from '../rules/alias-reference';
+import { ruleMissingMode } from '../rules/missing-mode';
+import { ruleTailwindTheme } from '../rules/tailwind-theme';
+import { ruleRawTypography } from '../rules/raw-typography';
+import { ruleRawValue, getRawValueRuleProperties, RAW_VALUE_RULE_IDS, RawValueRuleId } from '../rules/raw-values';
+import { ruleUnusedToken } from '../rules/unused-token';
+import { generateTokenReference } from '../rules/valueFix';
+import { extractRawColors, extractRawDimensions } from '../adapters/codeFileAdapter';
+import { RawValueMatch } from '../parsers';
+import {
+    createColorPalette,
+    findNearestColors,
+    classifyColorMatch,
+    DEFAULT_NEAR_THRESHOLD,
+    DEFAULT_MAX_SUGGESTION_DELTA_E,
+    ColorPalette,
+    ColorMetric,
+    ColorMatchKind
+} from '../color';
+import {
+    parseDimension,
+    createDimensionScale,
+    findNearestDimension,
+    findMatchingDimension,
+    DEFAULT_ROOT_FONT_SIZE,
+    DEFAULT_UNITS,
+    DetectableUnit,
+    DimensionScale
+} from '../dimension';
+import {
+    TailwindTheme,
+    ThemeTokenIndex,
+    indexThemeTokens,
+    parseTailwindClass,
+    toTokenUtilityClass
+} from '../tailwind';
+import { createTypographyScale, TYPOGRAPHY_CSS_PROPERTIES } from '../typography';
+import { filterTokensByProperty, resolvePropertyTokens, PropertyTokenMap } from '../category';
+
+/** How closely a raw color matches a token, for picking the better of two palettes */
+const MATCH_RANK: Record<ColorMatchKind, number> = { exact: 2, near: 1, 'off-palette': 0 };
 
 export type StaticRuleConfig = {
     'naming-convention'?: { severity: 'error' | 'warn' | 'info', pattern: string };
-    'raw-color'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
-    'raw-pixel'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'alias-reference'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'missing-mode'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'raw-color'?: {
+        severity: 'error' | 'warn' | 'info',
+        enabled: boolean,
+        /** ΔE up to which a color counts as a near match of a token (default 5) */
+        threshold?: number,
+        /** ΔE up to which an off-palette color names its nearest tokens (default 10) */
+        maxSuggestionDeltaE?: number,
+        metric?: ColorMetric,
+        /** Severity per match kind; near and off-palette default to `severity`, exact matches of a token value are accepted ('off') */
+        severities?: { exact?: 'error' | 'warn' | 'info' | 'off', near?: 'error' | 'warn' | 'info', offPalette?: 'error' | 'warn' | 'info' }
+    };
+    'raw-pixel'?: {
+        severity: 'error' | 'warn' | 'info',
+        enabled: boolean,
+        /** Root font size in px that rem and em values are converted with (default 16) */
+        rootFontSize?: number,
+        /** Units reported as raw values (default px, rem and em) */
+        units?: DetectableUnit[]
+    };
+    'raw-typography'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'raw-radius'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'raw-shadow'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'raw-z-index'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'raw-opacity'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'raw-motion'?: { severity: 'error' | 'warn' | 'info', enabled: boolean };
+    'tailwind-theme'?: {
+        severity: 'error' | 'warn' | 'info',
+        enabled: boolean,
+        /** Path to the Tailwind config (default: tailwind.config.{js,cjs,mjs,ts} next to the lint config) */
+        config?: string
+    };
+    'unused-token'?: {
+        severity: 'error' | 'warn' | 'info',
+        enabled: boolean,
+        /** Globs of the files searched for references (default: the lint `files`) */
+        files?: string | string[]
+    };
+};
+
+export type StaticRuleOptions = {
+    /** Theme of the project's Tailwind config; enables token-backed class fixes and the tailwind-theme rule */
+    tailwindTheme?: TailwindTheme;
+    /** Tokens allowed per CSS property, merged over DEFAULT_PROPERTY_TOKENS */
+    propertyTokens?: PropertyTokenMap;
+    /** Files the unused-token rule searches for references (default: the linted code files) */
+    referenceFiles?: CodeFile[];
 };
 
-export function runStaticRules(tokens: Token[], config: StaticRuleConfig, codeFiles?: CodeFile[]): Diagnostic[] {
+export function runStaticRules(
+    allTokens: Token[],
+    config: StaticRuleConfig,
+    codeFiles?: CodeFile[],
+    options: StaticRuleOptions = {}
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
+    // Tokens with a name the format rejects are only reported by naming-convention
+    const tokens = allTokens.filter(t => !t.meta?.nameError);
+    const dimensionContext = { rootFontSize: config['raw-pixel']?.rootFontSize ?? DEFAULT_ROOT_FONT_SIZE };
+    const themeIndex = options.tailwindTheme && indexThemeTokens(options.tailwindTheme, tokens, dimensionContext);
+    const propertyTokens = resolvePropertyTokens(options.propertyTokens);
 
     // Rule: Naming Convention
     if (config['naming-convention']) {
         const ruleCfg = config['naming-convention'];
         const pattern = new RegExp(ruleCfg.pattern);
-        diagnostics.push(...ruleNamingConvention(tokens, pattern, ruleCfg.severity));
+        diagnostics.push(...ruleNamingConvention(allTokens, pattern, ruleCfg.severity));
+    }
+
+    // Rule: Alias Reference (circular / dangling)
+    if (config['alias-reference']?.enabled) {
+        diagnostics.push(...ruleAliasReference(tokens, config['alias-reference'].severity));
+    }
+
+    // Rule: Missing Mode Values
+    if (config['missing-mode']?.enabled) {
+        diagnostics.push(...ruleMissingMode(tokens, config['missing-mode'].severity));
     }
 
+    // Radii, shadows and the like are left to their own rule when it has tokens to check them against
+    const enabledValueRules = RAW_VALUE_RULE_IDS.filter(id => config[id]?.enabled);
+    const valueRuleProperties = codeFiles
+        ? enabledValueRules.flatMap(id => getRawValueRuleProperties(id, tokens, dimensionContext))
+        : [];
+
     // Rule: Raw Color Detection
     if (config['raw-color']?.enabled && codeFiles) {
-        diagnostics.push(...detectRawColors(codeFiles, tokens, config['raw-color'].severity));
+        diagnostics.push(...detectRawColors(codeFiles, tokens, config['raw-color'], propertyTokens, themeIndex, valueRuleProperties));
     }
 
     // Rule: Raw Pixel Detection
     if (config['raw-pixel']?.enabled && codeFiles) {
-        diagnostics.push(...detectRawPixels(codeFiles, tokens, config['raw-pixel'].severity));
+        // Font sizes and the like are left to raw-typography when it has tokens to check them against
+        const typographyProperties = config['raw-typography']?.enabled
+            ? [...createTypographyScale(tokens, dimensionContext).properties].map(p => TYPOGRAPHY_CSS_PROPERTIES[p])
+            : [];
+        diagnostics.push(...detectRawPixels(codeFiles, tokens, config['raw-pixel'], propertyTokens, [...typographyProperties, ...valueRuleProperties]));
+    }
+
+    // Rule: Raw Typography Detection
+    if (config['raw-typography']?.enabled && codeFiles) {
+        diagnostics.push(...ruleRawTypography(tokens, codeFiles, config['raw-typography'].severity, dimensionContext));
+    }
+
+    // Rules: Raw Radius, Shadow, Z-Index, Opacity and Motion Detection
+    if (codeFiles) {
+        for (const ruleId of enabledValueRules) {
+            const ruleCfg = config[ruleId] as NonNullable<StaticRuleConfig[RawValueRuleId]>;
+            diagnostics.push(...ruleRawValue(ruleId, tokens, codeFiles, ruleCfg.severity, dimensionContext, propertyTokens));
+        }
+    }
+
+    // Rule: Tailwind Theme
+    if (config['tailwind-theme']?.enabled && options.tailwindTheme) {
+        diagnostics.push(...ruleTailwindTheme(tokens, options.tailwindTheme, codeFiles, config['tailwind-theme'].severity, dimensionContext));
+    }
+
+    // Rule: Unused Token
+    const referenceFiles = options.referenceFiles ?? codeFiles;
+    if (config['unused-token']?.enabled && referenceFiles) {
+        diagnostics.push(...ruleUnusedToken(tokens, referenceFiles, config['unused-token'].severity, themeIndex));
     }
 
     return diagnostics;
 }
 
 /**
- * Detect raw color values in code files and suggest tokens
+ * Detect raw color values in code files and suggest the perceptually closest tokens.
+ * Exact matches are accepted unless `severities.exact` is set; exact and near matches get a fix,
+ * off-palette colors only name the nearest tokens within `maxSuggestionDeltaE`.
+ * The tokens mapped to the property are preferred, but a color matching another token better
+ * (a brand color as a background) is classified against the whole palette.
  */
-function detectRawColors(codeFiles: CodeFile[], tokens: Token[], severity: 'error' | 'warn' | 'info'): Diagnostic[] {
+function detectRawColors(
+    codeFiles: CodeFile[],
+    tokens: Token[],
+    ruleConfig: NonNullable<StaticRuleConfig['raw-color']>,
+    propertyTokens: PropertyTokenMap,
+    themeIndex?: ThemeTokenIndex,
+    skippedProperties: string[] = []
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
-    
-    // Build a map of color tokens for quick lookup
+
+    // A raw color is compared with the token value of every mode, of the tokens its property allows
     const colorTokens = tokens.filter(t => t.type === 'color');
-    const colorTokenMap = new Map<string, Token[]>();
-    
-    for (const token of colorTokens) {
-        const normalizedValue = normalizeColorValue(token.rawValue);
-        if (!colorTokenMap.has(normalizedValue)) {
-            colorTokenMap.set(normalizedValue, []);
+    const fullPalette = { tokens: colorTokens, palette: createColorPalette(colorTokens) };
+    const palettes = new Map<string, { tokens: Token[], palette: ColorPalette }>();
+    const getPalette = (property: string) => {
+        if (!palettes.has(property)) {
+            const allowed = filterTokensByProperty(property, colorTokens, propertyTokens);
+            palettes.set(property, allowed ? { tokens: allowed, palette: createColorPalette(allowed) } : fullPalette);
         }
-        colorTokenMap.get(normalizedValue)!.push(token);
-    }
-    
+        return palettes.get(property)!;
+    };
+    const threshold = ruleConfig.threshold ?? DEFAULT_NEAR_THRESHOLD;
+    const maxSuggestionDeltaE = Math.max(ruleConfig.maxSuggestionDeltaE ?? DEFAULT_MAX_SUGGESTION_DELTA_E, threshold);
+    const matchColor = (value: string, property: string) => {
+        const mapped = getPalette(property);
+        const candidates = findNearestColors(value, mapped.palette, { metric: ruleConfig.metric });
+        const kind = classifyColorMatch(candidates, threshold);
+        if (kind === 'exact' || mapped === fullPalette) return { kind, candidates, tokens: mapped.tokens, outside: false };
+
+        const all = findNearestColors(value, fullPalette.palette, { metric: ruleConfig.metric });
+        const allKind = classifyColorMatch(all, threshold);
+        return MATCH_RANK[allKind] > MATCH_RANK[kind]
+            ? { kind: allKind, candidates: all, tokens: colorTokens, outside: true }
+            : { kind, candidates, tokens: mapped.tokens, outside: false };
+    };
+    const severities: Record<ColorMatchKind, 'error' | 'warn' | 'info' | 'off'> = {
+        exact: ruleConfig.severities?.exact ?? 'off',
+        near: ruleConfig.severities?.near ?? ruleConfig.severity,
+        'off-palette': ruleConfig.severities?.offPalette ?? ruleConfig.severity
+    };
+
     for (const codeFile of codeFiles) {
-        const rawColors = extractRawColors(codeFile.content);
-        
+        const rawColors = extractRawColors(codeFile.content, codeFile.language, codeFile.path);
+
         for (const color of rawColors) {
-            const normalizedValue = normalizeColorValue(color.value);
-            const matchingTokens = colorTokenMap.get(normalizedValue);
-            
-            if (!matchingTokens || matchingTokens.length === 0) {
-                // No matching token found - suggest using a token
-                diagnostics.push({
-                    ruleId: 'raw-color',
-                    message: `Raw color ${color.value} should use a design token`,
-                    severity,
-                    file: codeFile.path,
-                    line: color.line,
-                    problem: `raw color ${color.value}`,
-                    reason: 'Design tokens should be used instead of raw color values for consistency',
-                    suggestedToken: findClosestColorToken(color.value, colorTokens),
-                    fixedCode: generateFixedCode(codeFile.content, color, findClosestColorToken(color.value, colorTokens)),
-                    impact: 'Medium'
-                });
+            if (skippedProperties.includes(color.property)) continue;
+            const match = matchColor(color.value, color.property);
+            const { kind, tokens: allowedTokens, outside } = match;
+            // Tokens far from an off-palette color are no suggestion at all
+            const candidates = kind === 'off-palette'
+                ? match.candidates.filter(c => c.distance <= maxSuggestionDeltaE)
+                : match.candidates;
+            const severity = severities[kind];
+            // A color that is the value of a token (in any mode) is accepted unless the config asks for the token
+            if (severity === 'off') continue;
+            const nearest = candidates[0];
+            const distance = nearest ? formatDistance(nearest.distance) : undefined;
+            const category = outside ? `, outside the tokens mapped to ${color.property}` : '';
+
+            const diagnostic: Diagnostic = {
+                ruleId: 'raw-color',
+                message: '',
+                severity,
+                file: codeFile.path,
+                line: color.line,
+                problem: `raw color ${color.value}`,
+                suggestedToken: nearest?.token.name,
+                candidates: candidates.map(c => ({ tokenName: c.token.name, distance: formatDistance(c.distance) })),
+                impact: 'Medium'
+            };
+
+            if (kind === 'exact') {
+                diagnostic.message = `Raw color ${color.value} should use token "${nearest.token.name}" (exact match${category})`;
+                diagnostic.reason = 'The color is the value of a design token; referencing the token keeps it in sync with the design system';
+                diagnostic.impact = 'Low';
+                Object.assign(diagnostic, createTokenFix(codeFile, color, nearest.token.name, allowedTokens, themeIndex));
+            } else if (kind === 'near') {
+                diagnostic.message = `Raw color ${color.value} is close to token "${nearest.token.name}" (ΔE ${distance}${category}) and probably meant to be that token`;
+                diagnostic.reason = 'The color is barely distinguishable from a design token value';
+                Object.assign(diagnostic, createTokenFix(codeFile, color, nearest.token.name, allowedTokens, themeIndex));
+            } else {
+                diagnostic.message = nearest
+                    ? `Raw color ${color.value} is not in the palette (nearest token "${nearest.token.name}", ΔE ${distance})`
+                    : match.candidates.length > 0
+                        ? `Raw color ${color.value} is not in the palette`
+                        : `Raw color ${color.value} should use a design token`;
+                diagnostic.reason = 'The color is not part of the design system palette';
             }
+
+            diagnostics.push(diagnostic);
         }
     }
-    
+
     return diagnostics;
 }
 
 /**
- * Detect raw pixel values in code files and suggest tokens
+ * Detect raw lengths (px, rem, em...) in code files and suggest tokens.
+ * Values are compared by their size in px, so `1rem` matches a `16px` token.
  */
-function detectRawPixels(codeFiles: CodeFile[], tokens: Token[], severity: 'error' | 'warn' | 'info'): Diagnostic[] {
+function detectRawPixels(
+    codeFiles: CodeFile[],
+    tokens: Token[],
+    ruleConfig: NonNullable<StaticRuleConfig['raw-pixel']>,
+    propertyTokens: PropertyTokenMap,
+    skippedProperties: string[] = []
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
-    
-    // Build a map of spacing/size tokens
+    const context = { rootFontSize: ruleConfig.rootFontSize ?? DEFAULT_ROOT_FONT_SIZE };
+
+    // Spacing/size tokens, unless the property is mapped to tokens of its own
     const spacingTokens = tokens.filter(t => 
         t.type === 'spacing' || 
         t.type === 'size' || 
         t.name.includes('spacing') || 
         t.name.includes('size')
     );
-    
+    // Color tokens never measure a length, even where the property maps to them (`background-position`)
+    const lengthTokens = tokens.filter(t => t.type !== 'color');
+    const scales = new Map<string, DimensionScale>();
+    const getScale = (property: string) => {
+        if (!scales.has(property)) {
+            const allowed = filterTokensByProperty(property, lengthTokens, propertyTokens) ?? spacingTokens;
+            scales.set(property, createDimensionScale(allowed, context));
+        }
+        return scales.get(property)!;
+    };
+
     for (const codeFile of codeFiles) {
-        const rawPixels = extractRawPixels(codeFile.content);
-        
-        for (const pixel of rawPixels) {
-            const pixelValue = parseFloat(pixel.value);
-            const matchingToken = findMatchingSpacingToken(pixelValue, spacingTokens);
-            
-            if (!matchingToken) {
-                diagnostics.push({
-                    ruleId: 'raw-pixel',
-                    message: `Raw pixel value ${pixel.value} should use a design token`,
-                    severity,
-                    file: codeFile.path,
-                    line: pixel.line,
-                    problem: `raw pixel ${pixel.value}`,
-                    reason: 'Design tokens should be used instead of raw pixel values for consistency',
-                    suggestedToken: findClosestSpacingToken(pixelValue, spacingTokens),
-                    fixedCode: generateFixedCode(codeFile.content, pixel, findClosestSpacingToken(pixelValue, spacingTokens)),
-                    impact: 'Medium'
-                });
-            }
+        const rawDimensions = extractRawDimensions(codeFile.content, codeFile.language, codeFile.path, ruleConfig.units ?? DEFAULT_UNITS);
+
+        for (const raw of rawDimensions) {
+            if (skippedProperties.includes(raw.property)) continue;
+            const scale = getScale(raw.property);
+            const dimension = parseDimension(raw.value);
+            if (!dimension || findMatchingDimension(dimension, scale, context)) continue;
+
+            // Only values no token has get here, so the nearest token is a hint rather than a fix:
+            // swapping it in would change the layout
+            const suggestedToken = findNearestDimension(dimension, scale, context)?.token.name;
+            const kind = dimension.unit === 'px' ? 'pixel' : 'dimension';
+            diagnostics.push({
+                ruleId: 'raw-pixel',
+                message: `Raw ${kind === 'pixel' ? 'pixel value' : kind} ${raw.value} should use a design token`,
+                severity: ruleConfig.severity,
+                file: codeFile.path,
+                line: raw.line,
+                problem: `raw ${kind} ${raw.value}`,
+                reason: 'Design tokens should be used instead of raw dimension values for consistency',
+                suggestedToken,
+                impact: 'Medium'
+            });
         }
     }
-    
+
     return diagnostics;
 }
 
 /**
- * Normalize color value for comparison
+ * Build the fix for a raw color: the fixed line for reports and the range edit applied by `dslint fix`.
+ * A Tailwind arbitrary value is fixed by swapping the whole class for the token-backed utility.
+ * No edit is produced when the suggested token is not one of the candidates.
  */
-function normalizeColorValue(value: string): string {
-    // Convert hex to lowercase
-    if (value.startsWith('#')) {
-        return value.toLowerCase();
-    }
-    
-    // Normalize RGB/RGBA
-    if (value.startsWith('rgb')) {
-        // Extract numbers and normalize
-        const numbers = value.match(/\d+/g);
-        if (numbers && numbers.length >= 3) {
-            return `rgb(${numbers[0]},${numbers[1]},${numbers[2]})`;
-        }
+function createTokenFix(
+    codeFile: CodeFile,
+    match: RawValueMatch,
+    suggestedToken: string,
+    candidates: Token[],
+    themeIndex?: ThemeTokenIndex
+): { fixedCode?: string; edits?: TextEdit[] } {
+    const { content } = codeFile;
+    const token = candidates.find(t => t.name === suggestedToken);
+    // A class whose arbitrary value is just this raw value (`bg-[#1a73e8]`, not `shadow-[0_1px_#000]`) is replaced as a whole
+    let parsedClass = token && match.utility ? parseTailwindClass(match.utility.className) : undefined;
+    if (parsedClass?.value !== match.value) {
+        parsedClass = undefined;
     }
-    
-    return value.toLowerCase();
-}
 
-/**
- * Find closest color token by value
- */
-function findClosestColorToken(colorValue: string, tokens: Token[]): string {
-    // Simple heuristic: return first color token if available
-    if (tokens.length > 0) {
-        return tokens[0].name;
+    const target = parsedClass ? match.utility! : { className: match.value, offset: match.offset };
+    const start = target.offset;
+    const end = start + target.className.length;
+    if (content.slice(start, end) !== target.className) {
+        return {};
     }
-    return 'color.primary';
-}
 
-/**
- * Find matching spacing token by exact value
- */
-function findMatchingSpacingToken(pixelValue: number, tokens: Token[]): Token | null {
-    for (const token of tokens) {
-        const tokenValue = typeof token.rawValue === 'number' 
-            ? token.rawValue 
-            : parseFloat(String(token.rawValue).replace('px', ''));
-        
-        if (Math.abs(tokenValue - pixelValue) < 0.1) {
-            return token;
-        }
-    }
-    return null;
-}
+    // Other raw values outside classes sit in a CSS value (a stylesheet or a style string), so a custom property fits everywhere
+    const reference = generateTokenReference(suggestedToken);
+    const replacement = parsedClass ? toTokenUtilityClass(parsedClass, token!, themeIndex) : reference;
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = content.indexOf('\n', end);
+    const fixedCode = content.slice(lineStart, start) + replacement + content.slice(end, lineEnd < 0 ? undefined : lineEnd);
 
-/**
- * Find closest spacing token by value
- */
-function findClosestSpacingToken(pixelValue: number, tokens: Token[]): string {
-    let closest: Token | null = null;
-    let minDiff = Infinity;
-    
-    for (const token of tokens) {
-        const tokenValue = typeof token.rawValue === 'number' 
-            ? token.rawValue 
-            : parseFloat(String(token.rawValue).replace('px', ''));
-        
-        const diff = Math.abs(tokenValue - pixelValue);
-        if (diff < minDiff) {
-            minDiff = diff;
-            closest = token;
-        }
+    if (!token) {
+        return { fixedCode };
     }
-    
-    return closest ? closest.name : 'spacing.md';
+
+    return {
+        fixedCode,
+        edits: [{ file: codeFile.path, start, end, replacement }]
+    };
 }
 
-/**
- * Generate fixed code suggestion
- */
-function generateFixedCode(originalContent: string, match: { value: string; line: number; column: number }, suggestedToken: string): string {
-    const lines = originalContent.split('\n');
-    const lineIndex = match.line - 1;
-    const line = lines[lineIndex];
-    
-    if (!line) return originalContent;
-    
-    // Replace the raw value with token reference
-    // For CSS: var(--token-name)
-    // For TSX: token variable or CSS variable
-    const isCSS = line.includes(':') && line.includes(';');
-    const replacement = isCSS 
-        ? `var(--${suggestedToken.replace(/\./g, '-')})`
-        : `token('${suggestedToken}')`;
-    
-    const fixedLine = line.replace(match.value, replacement);
-    lines[lineIndex] = fixedLine;
-    
-    return lines.join('\n');
+function formatDistance(distance: number): number {
+    return Math.round(distance * 100) / 100;
 }
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { compileGlob, matchGlob, couldMatchInside, getGlobBase, CompiledGlob } from './pattern';
+import {
+    IgnoreRule,
+    DEFAULT_IGNORE,
+    parseIgnoreRules,
+    isIgnored,
+    isPathIgnored,
+    readIgnoreFiles,
+    readIgnoreFilesAbove
+} from './ignore';
+
+export type FindFilesOptions = {
+    /** Directory the patterns are relative to (default: process.cwd()) */
+    cwd?: string;
+    /** More ignore patterns in .gitignore syntax, relative to `cwd`; they win over the ignore files */
+    ignore?: string[];
+};
+
+/**
+ * Find the files matching any of the patterns and none of the `!` patterns, skipping what
+ * DEFAULT_IGNORE, the .gitignore/.dslintignore files (in the repository and every walked directory)
+ * and `options.ignore` exclude. Ignored directories are not walked.
+ * @returns absolute paths, sorted
+ */
+export async function findFiles(patterns: string | string[], options: FindFilesOptions = {}): Promise<string[]> {
+    const cwd = path.resolve(options.cwd ?? process.cwd());
+    const list = (Array.isArray(patterns) ? patterns : [patterns]).map(p => toRelativePattern(p, cwd)).filter(Boolean);
+    const includes = list.filter(p => !p.startsWith('!'));
+    const excludes = list.filter(p => p.startsWith('!')).map(p => compileGlob(p.slice(1)));
+    const extraRules = parseIgnoreRules(options.ignore ?? [], cwd);
+    const defaultRules = parseIgnoreRules(DEFAULT_IGNORE, cwd);
+
+    const found = new Set<string>();
+    for (const [base, globs] of groupByBase(includes)) {
+        const dir = path.resolve(cwd, base);
+        const rules = [...defaultRules, ...await readIgnoreFilesAbove(dir, cwd)];
+        await walk(dir, rules, { cwd, globs, excludes, extraRules, found });
+    }
+
+    return [...found].sort();
+}
+
+/**
+ * Drop the paths (relative to `cwd` or absolute) that findFiles would skip as ignored,
+ * for file lists that don't come from a walk such as git diffs
+ */
+export async function filterIgnoredFiles(paths: string[], options: FindFilesOptions = {}): Promise<string[]> {
+    const cwd = path.resolve(options.cwd ?? process.cwd());
+    const defaultRules = parseIgnoreRules(DEFAULT_IGNORE, cwd);
+    const extraRules = parseIgnoreRules(options.ignore ?? [], cwd);
+    const rulesByDir = new Map<string, IgnoreRule[]>();
+
+    const kept: string[] = [];
+    for (const filePath of paths) {
+        const fullPath = path.resolve(cwd, filePath);
+        const dir = path.dirname(fullPath);
+        if (!rulesByDir.has(dir)) {
+            rulesByDir.set(dir, [...defaultRules, ...await readIgnoreFilesAbove(dir, cwd), ...extraRules]);
+        }
+        if (!isPathIgnored(fullPath, cwd, rulesByDir.get(dir)!)) kept.push(filePath);
+    }
+    return kept;
+}
+
+type WalkState = {
+    cwd: string;
+    globs: CompiledGlob[];
+    excludes: CompiledGlob[];
+    extraRules: IgnoreRule[];
+    found: Set<string>;
+};
+
+async function walk(dir: string, rules: IgnoreRule[], state: WalkState): Promise<void> {
+    let entries;
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        // Skip directories we can't read
+        return;
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const fullPath = path.join(dir, entry.name);
+        const relativePath = path.relative(state.cwd, fullPath).split(path.sep).join('/');
+        const allRules = [...rules, ...state.extraRules];
+
+        if (entry.isDirectory()) {
+            if (isIgnored(fullPath, true, allRules)) continue;
+            if (!state.globs.some(glob => couldMatchInside(glob, relativePath))) continue;
+            await walk(fullPath, [...rules, ...await readIgnoreFiles(fullPath)], state);
+        } else if (entry.isFile()) {
+            if (!state.globs.some(glob => matchGlob(glob, relativePath))) continue;
+            if (state.excludes.some(glob => matchGlob(glob, relativePath))) continue;
+            if (isIgnored(fullPath, false, allRules)) continue;
+            state.found.add(fullPath);
+        }
+    }
+}
+
+/**
+ * Group patterns by the directory they start from; a base inside another base is walked with it
+ */
+function groupByBase(patterns: string[]): Map<string, CompiledGlob[]> {
+    const bases = patterns.map(getGlobBase);
+    const groups = new Map<string, CompiledGlob[]>();
+    patterns.forEach((pattern, i) => {
+        const outer = bases.filter(base => isWithin(bases[i], base)).sort((a, b) => a.length - b.length)[0];
+        groups.set(outer, [...(groups.get(outer) ?? []), compileGlob(pattern)]);
+    });
+    return groups;
+}
+
+function isWithin(dir: string, base: string): boolean {
+    return base === '' || dir === base || dir.startsWith(`${base}/`);
+}
+
+/** Patterns are matched against paths relative to cwd; absolute patterns are made relative */
+function toRelativePattern(pattern: string, cwd: string): string {
+    const negated = pattern.startsWith('!');
+    const body = (negated ? pattern.slice(1) : pattern).trim();
+    // A backslash is an escape in a pattern, but a separator in an absolute Windows path
+    const relative = path.isAbsolute(body) ? path.relative(cwd, body).split(path.sep).join('/') : body;
+    return relative === '' ? '' : `${negated ? '!' : ''}${relative}`;
+}
@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { compileGlob, matchGlob, CompiledGlob } from './pattern';
+
+/** Ignore files read in every directory, in this order */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.dslintignore'];
+
+/** Directories skipped unless an ignore rule re-includes them (`!dist/`) */
+export const DEFAULT_IGNORE = ['node_modules/', '.git/', 'dist/', 'build/'];
+
+/** One line of an ignore file */
+export type IgnoreRule = {
+    glob: CompiledGlob;
+    /** `!pattern`: re-include what an earlier rule ignored */
+    negated: boolean;
+    /** `pattern/`: only matches directories */
+    directoryOnly: boolean;
+    /** Absolute directory the pattern is relative to */
+    base: string;
+};
+
+/**
+ * Parse ignore patterns with .gitignore semantics: `#` comments, `!` negation, a trailing `/` for directories only,
+ * and patterns without a `/` in the middle matching at any depth below `base`
+ */
+export function parseIgnoreRules(lines: string | string[], base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of typeof lines === 'string' ? lines.split(/\r?\n/) : lines) {
+        // Trailing spaces are dropped unless escaped
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (line === '' || line.startsWith('#')) continue;
+
+        const negated = line.startsWith('!');
+        if (negated) line = line.slice(1);
+        if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+        const directoryOnly = line.endsWith('/');
+        if (directoryOnly) line = line.slice(0, -1);
+        if (line === '') continue;
+
+        const anchored = line.includes('/');
+        const pattern = anchored ? line.replace(/^\//, '') : `**/${line}`;
+        rules.push({ glob: compileGlob(pattern, { dot: true }), negated, directoryOnly, base: path.resolve(base) });
+    }
+    return rules;
+}
+
+/**
+ * Whether the last rule matching the path ignores it. Rules only apply below their base directory;
+ * the path's parent directories are not checked (walkers skip ignored directories instead).
+ */
+export function isIgnored(absolutePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) continue;
+        const relative = path.relative(rule.base, absolutePath);
+        if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+        if (matchGlob(rule.glob, relative.split(path.sep).join('/'))) {
+            ignored = !rule.negated;
+        }
+    }
+    return ignored;
+}
+
+/**
+ * Whether the path or one of its directories below `root` is ignored
+ */
+export function isPathIgnored(absolutePath: string, root: string, rules: IgnoreRule[]): boolean {
+    const relative = path.relative(root, absolutePath);
+    const parts = relative.split(path.sep);
+    let current = root;
+    for (let i = 0; i < parts.length; i++) {
+        current = path.join(current, parts[i]);
+        if (isIgnored(current, i < parts.length - 1, rules)) return true;
+    }
+    return false;
+}
+
+/**
+ * Rules of the ignore files in one directory
+ */
+export async function readIgnoreFiles(dir: string): Promise<IgnoreRule[]> {
+    const rules: IgnoreRule[] = [];
+    for (const name of IGNORE_FILE_NAMES) {
+        const content = await fs.readFile(path.join(dir, name), 'utf-8').catch(() => undefined);
+        if (content !== undefined) rules.push(...parseIgnoreRules(content, dir));
+    }
+    return rules;
+}
+
+/**
+ * Rules of the ignore files from the top of the repository (the closest directory with `.git`,
+ * or `cwd` outside a repository) down to `dir`
+ */
+export async function readIgnoreFilesAbove(dir: string, cwd: string): Promise<IgnoreRule[]> {
+    const top = (await findRepositoryRoot(cwd)) ?? path.resolve(cwd);
+    const relative = path.relative(top, dir);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return readIgnoreFiles(dir);
+
+    const rules: IgnoreRule[] = [];
+    let current = top;
+    for (const part of ['', ...relative.split(path.sep).filter(Boolean)]) {
+        current = path.join(current, part);
+        rules.push(...await readIgnoreFiles(current));
+    }
+    return rules;
+}
+
+async function findRepositoryRoot(cwd: string): Promise<string | undefined> {
+    let currentDir = path.resolve(cwd);
+    let previousDir: string | undefined;
+
+    // path.dirname of the filesystem root is the root itself
+    while (currentDir !== previousDir) {
+        const exists = await fs.access(path.join(currentDir, '.git')).then(() => true, () => false);
+        if (exists) return currentDir;
+        previousDir = currentDir;
+        currentDir = path.dirname(currentDir);
+    }
+
+    return undefined;
+}
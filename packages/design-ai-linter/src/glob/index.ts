@@ -0,0 +1,19 @@
+export {
+    compileGlob,
+    matchGlob,
+    couldMatchInside,
+    getGlobBase,
+    type CompiledGlob,
+    type GlobOptions
+} from './pattern';
+export {
+    parseIgnoreRules,
+    isIgnored,
+    isPathIgnored,
+    readIgnoreFiles,
+    readIgnoreFilesAbove,
+    IGNORE_FILE_NAMES,
+    DEFAULT_IGNORE,
+    type IgnoreRule
+} from './ignore';
+export { findFiles, filterIgnoredFiles, type FindFilesOptions } from './find';
@@ -0,0 +1,171 @@
+/** Matches any number of path segments (`**`) */
+const GLOBSTAR = Symbol('globstar');
+
+type Segment = RegExp | typeof GLOBSTAR;
+
+/** A glob compiled into one list of segment matchers per alternative of its braces */
+export type CompiledGlob = {
+    source: string;
+    alternatives: Segment[][];
+    /** Wildcards match names starting with a dot */
+    dot: boolean;
+};
+
+export type GlobOptions = {
+    /** Let wildcards match names starting with a dot, as in ignore files (default false) */
+    dot?: boolean;
+};
+
+/**
+ * Compile a glob: `*` and `?` within a segment, `**` across segments, `[a-z]`/`[!a-z]` classes,
+ * `{a,b}` alternatives (nested and across `/`), and `\` escapes.
+ * Without `dot`, wildcards skip names starting with a dot unless the pattern spells the dot out (`.storybook/**`).
+ */
+export function compileGlob(pattern: string, options: GlobOptions = {}): CompiledGlob {
+    const dot = options.dot ?? false;
+    const alternatives = expandBraces(normalizeGlob(pattern)).map(expanded =>
+        expanded.split('/').filter(part => part !== '').map(part => compileSegment(part, dot))
+    );
+    return { source: pattern, alternatives, dot };
+}
+
+/**
+ * Whether a relative path (`/`-separated) matches the glob
+ */
+export function matchGlob(glob: CompiledGlob, relativePath: string): boolean {
+    const segments = splitPath(relativePath);
+    return glob.alternatives.some(alternative => matchSegments(alternative, segments, 0, 0, glob.dot, false));
+}
+
+/**
+ * Whether the glob could match a path inside the directory, so the directory is worth walking
+ */
+export function couldMatchInside(glob: CompiledGlob, relativeDir: string): boolean {
+    const segments = splitPath(relativeDir);
+    return glob.alternatives.some(alternative => matchSegments(alternative, segments, 0, 0, glob.dot, true));
+}
+
+/**
+ * The directory a glob starts from: its leading segments without wildcards (`src/components` for `src/components/**\/*.tsx`)
+ */
+export function getGlobBase(pattern: string): string {
+    const parts = normalizeGlob(pattern).split('/');
+    const literal = parts.findIndex(part => /[*?[\]{}\\]/.test(part));
+    // A pattern without wildcards names a file; its base is the file's directory
+    return parts.slice(0, literal < 0 ? -1 : literal).join('/');
+}
+
+/** `./src/` → `src/**`: forward slashes, no leading `./`, a trailing slash means everything below */
+function normalizeGlob(pattern: string): string {
+    let normalized = pattern.trim().replace(/^(\.\/)+/, '');
+    if (normalized.endsWith('/')) normalized += '**';
+    return normalized;
+}
+
+function splitPath(relativePath: string): string[] {
+    return relativePath.replace(/\\/g, '/').split('/').filter(part => part !== '' && part !== '.');
+}
+
+/**
+ * Match path segments against pattern segments from the given positions.
+ * With `partial`, running out of path while pattern segments remain is a match (a directory on the way).
+ */
+function matchSegments(pattern: Segment[], path: string[], pi: number, si: number, dot: boolean, partial: boolean): boolean {
+    if (si === path.length && partial) return pi < pattern.length;
+    if (pi === pattern.length) return si === path.length;
+
+    const segment = pattern[pi];
+    if (segment === GLOBSTAR) {
+        if (matchSegments(pattern, path, pi + 1, si, dot, partial)) return true;
+        const name = path[si];
+        return si < path.length && name !== '..' && (dot || !name.startsWith('.')) &&
+            matchSegments(pattern, path, pi, si + 1, dot, partial);
+    }
+    return si < path.length && segment.test(path[si]) && matchSegments(pattern, path, pi + 1, si + 1, dot, partial);
+}
+
+function compileSegment(part: string, dot: boolean): Segment {
+    if (part === '**') return GLOBSTAR;
+
+    let source = '';
+    for (let i = 0; i < part.length; i++) {
+        const char = part[i];
+        if (char === '\\' && i + 1 < part.length) {
+            source += escapeRegExp(part[++i]);
+        } else if (char === '*') {
+            // `a**b` is not a globstar; collapse the stars
+            while (part[i + 1] === '*') i++;
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = part.indexOf(']', i + 2);
+            if (end < 0) {
+                source += '\\[';
+                continue;
+            }
+            let body = part.slice(i + 1, end);
+            const negated = body.startsWith('!') || body.startsWith('^');
+            if (negated) body = body.slice(1);
+            source += `[${negated ? '^/' : ''}${body.replace(/[\\\]^]/g, '\\$&')}]`;
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+
+    // Wildcards never match `.` and `..`, nor any dot name unless allowed
+    const guard = part.startsWith('.') ? '' : dot ? '(?!\\.{1,2}$)' : '(?!\\.)';
+    return new RegExp(`^${guard}${source}$`);
+}
+
+/**
+ * Expand `{a,b}` alternatives, innermost groups included: `src/{a,b/{c,d}}.ts` → 3 patterns.
+ * Braces without a top-level comma are literal.
+ */
+function expandBraces(pattern: string): string[] {
+    let depth = 0;
+    let start = -1;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '{') {
+            if (depth++ === 0) start = i;
+        } else if (char === '}' && depth > 0 && --depth === 0) {
+            const options = splitTopLevel(pattern.slice(start + 1, i));
+            if (options.length < 2) continue;
+            const prefix = pattern.slice(0, start);
+            const suffix = pattern.slice(i + 1);
+            return options.flatMap(option => expandBraces(prefix + option + suffix));
+        }
+    }
+    return [pattern];
+}
+
+function splitTopLevel(body: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let i = 0; i < body.length; i++) {
+        const char = body[i];
+        if (char === '\\') {
+            current += char + (body[++i] ?? '');
+            continue;
+        }
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
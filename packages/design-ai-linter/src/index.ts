@@ -0,0 +1,183 @@
+// Programmatic API of the design AI linter
+// Everything the CLI does is available here without printing reports or exiting the process.
+
+export { lint, type LintOptions, type LintResult } from './engine/linter';
+export {
+    runLintPipeline,
+    selectCodeFiles,
+    DEFAULT_FILES_PATTERN,
+    type PipelineOptions,
+    type PipelineResult,
+    type PipelineContext,
+    type FileSelection,
+    type LintHooks,
+    type LintPlugin
+} from './engine/pipeline';
+export { loadPlugins } from './engine/pluginLoader';
+export {
+    applyFixes,
+    applyTextEdits,
+    createUnifiedDiff,
+    type ApplyFixesOptions,
+    type FileFixResult
+} from './engine/fixer';
+export {
+    loadConfig,
+    resolveConfig,
+    findConfigFile,
+    loadConfigFile,
+    parseConfig,
+    mergeConfigs,
+    CONFIG_FILE_NAMES,
+    DEFAULT_CONFIG,
+    type LintConfig,
+    type ResolvedConfig
+} from './config/loadConfig';
+export { configSchema, ConfigError, type ConfigIssue } from './config/schema';
+export { initConfig, STARTER_CONFIG } from './config/initConfig';
+
+// Adapters
+export { loadTokensFromSource, type TokenSourceConfig } from './adapters/tokenSource';
+export { loadTokensFromJson } from './adapters/tokensJsonAdapter';
+export { loadTokensFromDtcg, parseDtcgTokens } from './adapters/dtcgAdapter';
+export { loadTokensFromTokensStudio, parseTokensStudio, parseTokensStudioThemes } from './adapters/tokensStudioAdapter';
+export { resolveTokenAliases, isAlias, findAliasReferences, type AliasIssue } from './adapters/aliasResolver';
+export {
+    loadCodeFiles,
+    loadCodeFilesFromGitDiff,
+    getGitChangedFiles,
+    getGitChanges,
+    getGitChangedLines,
+    parseDiffChangedLines,
+    getCodeFileLanguage,
+    CODE_FILE_LANGUAGES,
+    extractRawColors,
+    extractRawPixels,
+    extractRawDimensions,
+    type GitDiffTarget,
+    type GitChange
+} from './adapters/codeFileAdapter';
+
+// File matching
+export {
+    findFiles,
+    filterIgnoredFiles,
+    compileGlob,
+    matchGlob,
+    parseIgnoreRules,
+    DEFAULT_IGNORE,
+    type FindFilesOptions
+} from './glob';
+
+// Engine
+export { runStaticRules, type StaticRuleConfig, type StaticRuleOptions } from './engine/staticRunner';
+export { runAIRules, runCustomPrompt } from './engine/aiRunner';
+export { selectAICandidates } from './engine/candidateSelector';
+export { loadCustomRules, type CustomRuleConfig } from './engine/customRuleLoader';
+
+// Inline disable directives
+export {
+    collectDisableDirectives,
+    suppressDiagnostics,
+    reportDirectiveProblems,
+    parseDisableDirectives,
+    type DisableDirective,
+    type DisableDirectiveOptions
+} from './suppression';
+
+// Baseline of known diagnostics
+export {
+    createBaseline,
+    applyBaseline,
+    pruneBaseline,
+    readBaseline,
+    writeBaseline,
+    DEFAULT_BASELINE_FILE,
+    type Baseline,
+    type BaselineEntry,
+    type BaselineResult
+} from './baseline';
+
+// Color matching
+export {
+    parseColor,
+    formatColor,
+    normalizeColor,
+    isNamedColor,
+    rgbToLab,
+    rgbToOklab,
+    deltaE2000,
+    deltaEOK,
+    createColorPalette,
+    findNearestColors,
+    classifyColorMatch,
+    type RGBA,
+    type Lab,
+    type ColorPalette,
+    type ColorCandidate,
+    type ColorMetric,
+    type ColorMatchKind
+} from './color';
+
+// Dimension matching
+export {
+    parseDimension,
+    toPixels,
+    createDimensionScale,
+    findNearestDimension,
+    findMatchingDimension,
+    DEFAULT_ROOT_FONT_SIZE,
+    type Dimension,
+    type DimensionContext,
+    type DimensionScale,
+    type DimensionMatch
+} from './dimension';
+
+// Typography matching
+export {
+    parseTypographyValue,
+    createTypographyScale,
+    findTypographyToken,
+    findNearestTypographyValue,
+    type TypographyProperty,
+    type TypographyValues,
+    type TypographyScale
+} from './typography';
+
+// Token categories per CSS property
+export {
+    filterTokensByProperty,
+    resolvePropertyTokens,
+    DEFAULT_PROPERTY_TOKENS,
+    type PropertyTokenMap
+} from './category';
+
+// Radius, shadow, z-index, opacity and motion matching
+export { parseShadow, isSameShadow, type ShadowLayer } from './shadow';
+export { parseDuration, parseEasing, scanMotionValues, type Easing } from './motion';
+export { RAW_VALUE_RULE_IDS, type RawValueRuleId } from './rules/raw-values';
+
+// Tailwind
+export {
+    parseTailwindClass,
+    extractClassNames,
+    loadTailwindTheme,
+    resolveTailwindTheme,
+    type TailwindClass,
+    type TailwindTheme,
+    type ClassNameMatch
+} from './tailwind';
+
+// Token usage
+export { collectTokenReferences, ruleUnusedToken } from './rules/unused-token';
+export { generateTokenReference, getTokenVariableName } from './rules/valueFix';
+
+// Rules
+export { semanticNamingRule } from './rules/ai/semantic-naming';
+export { spacingConsistencyRule } from './rules/ai/spacing-consistency';
+export { designComplexityRule } from './rules/ai/design-complexity';
+
+// Reporters
+export { generateJSONReport, generatePRCommentReport, formatConsoleReport, type LintReport } from './reporters';
+
+export type { Token, Diagnostic, TextEdit, CodeFile, LineRange, LintContext, AIRule } from './types';
@@ -0,0 +1,9 @@
+export {
+    parseDuration,
+    parseEasing,
+    getEasingDifference,
+    scanMotionValues,
+    EASING_KEYWORDS,
+    type Easing,
+    type MotionValue
+} from './parse';
@@ -0,0 +1,108 @@
+import valueParser from 'postcss-value-parser';
+
+/** A cubic Bézier curve `[x1, y1, x2, y2]`, or a canonical `steps(n, position)` */
+export type Easing = [number, number, number, number] | string;
+
+/** Where a duration or a timing function sits in a declaration value */
+export type MotionValue = {
+    kind: 'duration' | 'easing';
+    text: string;
+    /** Offset of the text in the declaration value */
+    offset: number;
+};
+
+/** The curves of the timing function keywords */
+export const EASING_KEYWORDS: Record<string, [number, number, number, number]> = {
+    linear: [0, 0, 1, 1],
+    ease: [0.25, 0.1, 0.25, 1],
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+const STEP_KEYWORDS: Record<string, string> = {
+    'step-start': 'steps(1,jump-start)',
+    'step-end': 'steps(1,jump-end)'
+};
+
+const DURATION_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+))(ms|s)$/i;
+
+/**
+ * Parse a duration in ms: `200ms`, `0.2s`, a DTCG `{ value, unit }`,
+ * or a plain number as exported by tools that leave out the unit (ms)
+ */
+export function parseDuration(value: unknown): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (value && typeof value === 'object') {
+        const { value: amount, unit } = value as { value?: unknown; unit?: unknown };
+        return typeof amount === 'number' && typeof unit === 'string' ? parseDuration(`${amount}${unit}`) : undefined;
+    }
+    if (typeof value !== 'string') return undefined;
+
+    const text = value.trim();
+    if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(text)) return parseFloat(text);
+    const match = DURATION_PATTERN.exec(text);
+    if (!match) return undefined;
+    return parseFloat(match[1]) * (match[2].toLowerCase() === 's' ? 1000 : 1);
+}
+
+/**
+ * Parse a timing function: a keyword, `cubic-bezier()`, `steps()`, or a DTCG cubicBezier array
+ * @returns undefined for anything else, including `linear()` with stops
+ */
+export function parseEasing(value: unknown): Easing | undefined {
+    if (Array.isArray(value)) {
+        return value.length === 4 && value.every(n => typeof n === 'number')
+            ? value as [number, number, number, number]
+            : undefined;
+    }
+    if (typeof value !== 'string') return undefined;
+
+    const text = value.trim().toLowerCase();
+    if (EASING_KEYWORDS[text]) return EASING_KEYWORDS[text];
+    if (STEP_KEYWORDS[text]) return STEP_KEYWORDS[text];
+
+    const fn = /^(cubic-bezier|steps)\(([^()]*)\)$/.exec(text);
+    if (!fn) return undefined;
+    const args = fn[2].split(',').map(arg => arg.trim());
+
+    if (fn[1] === 'cubic-bezier') {
+        const numbers = args.map(Number);
+        return numbers.length === 4 && args.every(arg => arg !== '') && numbers.every(Number.isFinite)
+            ? numbers as [number, number, number, number]
+            : undefined;
+    }
+
+    const [count, position = 'jump-end'] = args;
+    if (!/^\d+$/.test(count) || args.length > 2) return undefined;
+    const canonical = position === 'end' ? 'jump-end' : position === 'start' ? 'jump-start' : position;
+    return `steps(${count},${canonical})`;
+}
+
+/**
+ * Largest difference between the control points of two curves; step functions only match themselves
+ * @returns undefined when the easings can't be compared
+ */
+export function getEasingDifference(a: Easing, b: Easing): number | undefined {
+    if (typeof a === 'string' || typeof b === 'string') {
+        return a === b ? 0 : undefined;
+    }
+    return Math.max(...a.map((n, i) => Math.abs(n - b[i])));
+}
+
+/**
+ * Find the durations and timing functions of a `transition` or `animation` value, including shorthands
+ * and comma-separated lists. Other parts (property and animation names, counts) are skipped.
+ */
+export function scanMotionValues(value: string): MotionValue[] {
+    const values: MotionValue[] = [];
+    for (const node of valueParser(value).nodes) {
+        const text = valueParser.stringify(node);
+        if (node.type === 'word' && DURATION_PATTERN.test(text)) {
+            values.push({ kind: 'duration', text, offset: node.sourceIndex });
+        } else if ((node.type === 'word' || node.type === 'function') && parseEasing(text) !== undefined) {
+            values.push({ kind: 'easing', text, offset: node.sourceIndex });
+        }
+    }
+    return values;
+}
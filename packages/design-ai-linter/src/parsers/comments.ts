@@ -0,0 +1,116 @@
+import postcss, { Root } from 'postcss';
+import postcssScss from 'postcss-scss';
+import ts from 'typescript';
+import { CodeFile } from '../types';
+import { isMarkupLanguage, splitMarkup } from './markupParser';
+import { getScriptKind } from './tsParser';
+import { createPositionResolver } from './position';
+
+/**
+ * A comment in a code file
+ */
+export type CodeComment = {
+    /** Text between the comment delimiters, trimmed */
+    text: string;
+    /** Character offset of the comment in CodeFile.content */
+    offset: number;
+    /** 1-based lines the comment starts and ends on */
+    line: number;
+    endLine: number;
+};
+
+/**
+ * Collect the comments of a code file with the parser of its language:
+ * `/* *\/` in CSS, `//` too in SCSS and JS/TS (JSX `{/* *\/}` and CSS template literals included), and `<!-- -->`
+ * plus the comments of the style and script blocks in markup files.
+ * Parts that can't be parsed contribute no comments.
+ * @returns comments in file order
+ */
+export function extractComments(content: string, language: CodeFile['language'], fileName?: string): CodeComment[] {
+    const toPosition = createPositionResolver(content);
+    const ranges: { text: string; start: number; end: number }[] = [];
+
+    if (language === 'css' || language === 'scss') {
+        ranges.push(...readCssComments(content, language));
+    } else if (isMarkupLanguage(language)) {
+        const documents = splitMarkup(content, language);
+        for (const style of documents.styles) {
+            ranges.push(...readCssComments(style.content, style.syntax));
+        }
+        ranges.push(...readTsComments(documents.script, documents.scriptFileName));
+        for (const match of content.matchAll(/<!--([\s\S]*?)-->/g)) {
+            ranges.push({ text: match[1], start: match.index!, end: match.index! + match[0].length });
+        }
+    } else {
+        ranges.push(...readTsComments(content, fileName ?? 'file.tsx'));
+    }
+
+    return ranges
+        .sort((a, b) => a.start - b.start)
+        .map(range => ({
+            text: range.text.trim(),
+            offset: range.start,
+            line: toPosition(range.start).line,
+            endLine: toPosition(Math.max(range.start, range.end - 1)).line
+        }));
+}
+
+function readCssComments(content: string, syntax: 'css' | 'scss'): { text: string; start: number; end: number }[] {
+    let root: Root;
+    try {
+        root = syntax === 'scss' ? postcssScss.parse(content) : postcss.parse(content);
+    } catch {
+        return [];
+    }
+
+    const comments: { text: string; start: number; end: number }[] = [];
+    root.walkComments(comment => {
+        const start = comment.source?.start?.offset;
+        if (start === undefined) return;
+        const inline = (comment.raws as { inline?: boolean }).inline === true;
+        const close = inline ? content.indexOf('\n', start) : content.indexOf('*/', start) + 2;
+        comments.push({ text: comment.text, start, end: inline && close < 0 ? content.length : close });
+    });
+    return comments;
+}
+
+/**
+ * Comments are trivia in the TS AST: read them around every token, except in JSX text where `//` is plain text.
+ * Template literals hold CSS comments as text.
+ */
+function readTsComments(content: string, fileName: string): { text: string; start: number; end: number }[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+    const comments = new Map<number, { text: string; start: number; end: number }>();
+
+    const add = (range: ts.CommentRange) => {
+        if (comments.has(range.pos)) return;
+        const body = range.kind === ts.SyntaxKind.SingleLineCommentTrivia
+            ? content.slice(range.pos + 2, range.end)
+            : content.slice(range.pos + 2, range.end - 2);
+        comments.set(range.pos, { text: body, start: range.pos, end: range.end });
+    };
+
+    const visit = (node: ts.Node) => {
+        if (node.kind === ts.SyntaxKind.JsxText) return;
+        if (isTemplateLiteralPart(node)) {
+            // CSS comments inside styled-components and emotion templates
+            const start = node.getStart(sourceFile);
+            for (const match of content.slice(start, node.end).matchAll(/\/\*([\s\S]*?)\*\//g)) {
+                add({ kind: ts.SyntaxKind.MultiLineCommentTrivia, pos: start + match.index!, end: start + match.index! + match[0].length });
+            }
+        }
+        ts.getLeadingCommentRanges(content, node.pos)?.forEach(add);
+        ts.getTrailingCommentRanges(content, node.end)?.forEach(add);
+        node.getChildren(sourceFile).forEach(visit);
+    };
+    visit(sourceFile);
+
+    return [...comments.values()];
+}
+
+function isTemplateLiteralPart(node: ts.Node): boolean {
+    return node.kind === ts.SyntaxKind.NoSubstitutionTemplateLiteral ||
+        node.kind === ts.SyntaxKind.TemplateHead ||
+        node.kind === ts.SyntaxKind.TemplateMiddle ||
+        node.kind === ts.SyntaxKind.TemplateTail;
+}
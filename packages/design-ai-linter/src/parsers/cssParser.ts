@@ -0,0 +1,35 @@
+import postcss, { Root } from 'postcss';
+import postcssScss from 'postcss-scss';
+import { StyleDeclaration } from '../types';
+import { createPositionResolver } from './position';
+
+/**
+ * Collect the declarations of a CSS or SCSS stylesheet.
+ * Custom property and SCSS variable definitions are skipped: they define values rather than use them.
+ * @throws CssSyntaxError when the stylesheet can't be parsed
+ */
+export function parseCssDeclarations(content: string, syntax: 'css' | 'scss' = 'css'): StyleDeclaration[] {
+    const root: Root = syntax === 'scss' ? postcssScss.parse(content) : postcss.parse(content);
+    const toPosition = createPositionResolver(content);
+    const declarations: StyleDeclaration[] = [];
+
+    root.walkDecls(decl => {
+        if (decl.prop.startsWith('--') || decl.prop.startsWith('$')) return;
+
+        const start = decl.source?.start?.offset;
+        if (start === undefined) return;
+
+        // raws.value holds the value with its comments when postcss cleaned them out of decl.value
+        const value = decl.raws.value?.raw ?? decl.value;
+        let offset = start + decl.prop.length + (decl.raws.between ?? '').length;
+        if (content.slice(offset, offset + value.length) !== value) {
+            offset = content.indexOf(value, start);
+            if (offset < 0) return;
+        }
+
+        const block = decl.parent?.source?.start?.offset;
+        declarations.push({ property: decl.prop.toLowerCase(), value, offset, ...toPosition(offset), ...(block !== undefined && { block }) });
+    });
+
+    return declarations;
+}
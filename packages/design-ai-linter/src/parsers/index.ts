@@ -0,0 +1,38 @@
+import { CssSyntaxError } from 'postcss';
+import { CodeFile, StyleDeclaration } from '../types';
+import { parseCssDeclarations } from './cssParser';
+import { parseTsStyleDeclarations } from './tsParser';
+import { isMarkupLanguage, parseMarkupStyleDeclarations } from './markupParser';
+import { extractTailwindDeclarations } from '../tailwind/extract';
+
+export { parseCssDeclarations } from './cssParser';
+export { parseTsStyleDeclarations } from './tsParser';
+export { parseMarkupStyleDeclarations, splitMarkup, isMarkupLanguage, MARKUP_LANGUAGES, type MarkupLanguage } from './markupParser';
+export { extractComments, type CodeComment } from './comments';
+export { scanColors, scanPixels, scanDimensions, type RawValueMatch } from './valueScanner';
+
+/**
+ * Collect the style declarations of a code file with the parser of its language,
+ * plus the arbitrary values of its Tailwind classes.
+ * A file that can't be parsed yields no declarations and a warning.
+ */
+export function extractStyleDeclarations(
+    content: string,
+    language: CodeFile['language'],
+    fileName?: string
+): StyleDeclaration[] {
+    try {
+        const declarations = language === 'css' || language === 'scss'
+            ? parseCssDeclarations(content, language)
+            : isMarkupLanguage(language)
+                ? parseMarkupStyleDeclarations(content, language)
+                : parseTsStyleDeclarations(content, fileName);
+        return [...declarations, ...extractTailwindDeclarations(content, language, fileName)]
+            .sort((a, b) => a.offset - b.offset);
+    } catch (error) {
+        // A CSS syntax error's reason leaves out the position its message repeats
+        const reason = error instanceof CssSyntaxError ? error.reason : error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  ファイルを解析できませんでした: ${fileName ?? language} - ${reason}`);
+        return [];
+    }
+}
@@ -0,0 +1,292 @@
+import { StyleDeclaration } from '../types';
+import { parseCssDeclarations } from './cssParser';
+import { parseTsStyleDeclarations } from './tsParser';
+import { createPositionResolver } from './position';
+
+export type MarkupLanguage = 'vue' | 'svelte' | 'astro' | 'html';
+
+export const MARKUP_LANGUAGES: readonly MarkupLanguage[] = ['vue', 'svelte', 'astro', 'html'];
+
+type Range = { start: number; end: number };
+
+/**
+ * The parts of a markup file written in other languages. Each document is the whole file
+ * with everything outside its parts blanked out, so offsets, lines and columns are those of the file.
+ */
+export type MarkupDocuments = {
+    /** One stylesheet per `<style>` block */
+    styles: { syntax: 'css' | 'scss'; content: string }[];
+    /** `style=""` attributes, each wrapped in braces as a rule */
+    styleAttributes: string;
+    /** `<script>` blocks, Astro frontmatter and style bindings (`:style=""`, `style={}`) as statements */
+    script: string;
+    /** Class bindings (`:class=""`, `class={}`, `class:list={}`) as expression statements */
+    classBindings: string;
+    /** File name telling the TS parser whether the scripts are JSX */
+    scriptFileName: string;
+    /** Static class lists: `class=""` attributes and Svelte `class:name` directives */
+    classLists: Range[];
+    /** Svelte `style:color="#fff"` directives */
+    styleDirectives: (Range & { property: string })[];
+};
+
+type Attribute = {
+    name: string;
+    nameOffset: number;
+    /** Offset of the `=` */
+    equals?: number;
+    /** Value without its quotes or braces */
+    value?: Range;
+    quote?: '"' | '\'' | '{' | '';
+};
+
+/** A part copied into a document; `text` replaces the original characters (same length) */
+type Part = Range & { text?: string };
+
+export function isMarkupLanguage(language: string): language is MarkupLanguage {
+    return (MARKUP_LANGUAGES as readonly string[]).includes(language);
+}
+
+/**
+ * Collect the style declarations of a Vue, Svelte, Astro or HTML file:
+ * `<style>` blocks, `style=""` attributes, Svelte `style:` directives and the style objects of scripts and bindings
+ * @throws CssSyntaxError when a style block can't be parsed
+ */
+export function parseMarkupStyleDeclarations(content: string, language: MarkupLanguage): StyleDeclaration[] {
+    const documents = splitMarkup(content, language);
+    const toPosition = createPositionResolver(content);
+
+    return [
+        ...documents.styles.flatMap(style => parseCssDeclarations(style.content, style.syntax)),
+        ...parseCssDeclarations(documents.styleAttributes),
+        ...parseTsStyleDeclarations(documents.script, documents.scriptFileName),
+        ...documents.styleDirectives.map(directive => ({
+            property: directive.property,
+            value: content.slice(directive.start, directive.end),
+            offset: directive.start,
+            ...toPosition(directive.start)
+        }))
+    ];
+}
+
+/**
+ * Split a markup file into the documents of its embedded languages
+ */
+export function splitMarkup(content: string, language: MarkupLanguage): MarkupDocuments {
+    const styles: MarkupDocuments['styles'] = [];
+    const styleAttributes: Part[] = [];
+    const script: Part[] = [];
+    const classBindings: Part[] = [];
+    const classLists: Range[] = [];
+    const styleDirectives: MarkupDocuments['styleDirectives'] = [];
+    const lowerContent = content.toLowerCase();
+    const hasInterpolation = language === 'svelte' || language === 'astro';
+    let jsx = false;
+
+    const tagPattern = /<!--[\s\S]*?-->|<([a-zA-Z][\w:.-]*)/g;
+    if (language === 'astro') {
+        // The frontmatter between the leading `---` fences is TypeScript
+        const fence = /^\s*---[ \t]*\r?\n/.exec(content);
+        if (fence) {
+            const start = fence[0].length;
+            const close = content.indexOf('\n---', start - 1);
+            script.push({ start, end: close < 0 ? content.length : close });
+            tagPattern.lastIndex = close < 0 ? content.length : close + 4;
+        }
+    }
+
+    // A binding becomes the statement `;(expression)`: the `=` and the quotes or braces around it are replaced
+    const pushBinding = (parts: Part[], attribute: Attribute) => {
+        const { value, equals } = attribute;
+        if (!value || equals === undefined) return;
+        parts.push(
+            { start: equals, end: equals + 1, text: ';' },
+            { start: value.start - 1, end: value.start, text: '(' },
+            value,
+            { start: value.end, end: value.end + 1, text: ')' }
+        );
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(content)) !== null) {
+        if (!match[1]) continue;
+        const tagName = match[1].toLowerCase();
+        const { attributes, end, selfClosing } = readAttributes(content, tagPattern.lastIndex);
+        tagPattern.lastIndex = end;
+
+        for (const attribute of attributes) {
+            const { name, value, quote } = attribute;
+            const isQuoted = quote === '"' || quote === '\'';
+
+            if (name === 'style' && value && quote === '{') {
+                pushBinding(script, attribute);
+            } else if (name === 'style' && value && isQuoted) {
+                styleAttributes.push(
+                    { start: value.start - 1, end: value.start, text: '{' },
+                    ...(hasInterpolation ? skipInterpolations(content, value) : [value]),
+                    { start: value.end, end: value.end + 1, text: '}' }
+                );
+            } else if ((name === ':style' || name === 'v-bind:style') && isQuoted) {
+                pushBinding(script, attribute);
+            } else if (
+                name.startsWith('style:') && !name.startsWith('style:--') && value && quote !== '{' &&
+                !content.slice(value.start, value.end).includes('{')
+            ) {
+                styleDirectives.push({ property: name.slice('style:'.length).toLowerCase(), ...value });
+            } else if ((name === 'class' || name === 'classname') && value && quote !== '{') {
+                classLists.push(...(hasInterpolation ? skipInterpolations(content, value) : [value]));
+            } else if (
+                ((name === 'class' || name === 'classname' || name === 'class:list') && quote === '{') ||
+                ((name === ':class' || name === 'v-bind:class') && isQuoted)
+            ) {
+                pushBinding(classBindings, attribute);
+            } else if (language === 'svelte' && name.startsWith('class:') && name.length > 'class:'.length) {
+                const start = attribute.nameOffset + 'class:'.length;
+                classLists.push({ start, end: attribute.nameOffset + name.length });
+            }
+        }
+
+        if ((tagName !== 'style' && tagName !== 'script') || selfClosing) continue;
+
+        const close = lowerContent.indexOf(`</${tagName}`, end);
+        const body = { start: end, end: close < 0 ? content.length : close };
+        tagPattern.lastIndex = body.end;
+
+        const lang = getAttributeValue(content, attributes, 'lang')?.toLowerCase() ?? '';
+        if (tagName === 'style') {
+            if (lang === '' || lang === 'css' || lang === 'postcss') styles.push({ syntax: 'css', content: blankOutside(content, [body]) });
+            else if (lang === 'scss') styles.push({ syntax: 'scss', content: blankOutside(content, [body]) });
+            // Indented Sass, Less and Stylus don't parse as SCSS; a parse error would hide the whole block, so they are skipped
+        } else {
+            const type = getAttributeValue(content, attributes, 'type')?.toLowerCase();
+            if (type && !/^(module|text\/(java|type)script|application\/(java|type)script)$/.test(type)) continue;
+            if (lang === 'tsx' || lang === 'jsx') jsx = true;
+            script.push(body);
+        }
+    }
+
+    return {
+        styles,
+        styleAttributes: blankOutside(content, styleAttributes),
+        script: blankOutside(content, script),
+        classBindings: blankOutside(content, classBindings),
+        scriptFileName: jsx ? 'script.tsx' : 'script.ts',
+        classLists,
+        styleDirectives
+    };
+}
+
+/**
+ * Read the attributes of a start tag up to its `>`.
+ * Values may be quoted, unquoted or, in Svelte and Astro, an expression in braces.
+ */
+function readAttributes(content: string, from: number): { attributes: Attribute[]; end: number; selfClosing: boolean } {
+    const attributes: Attribute[] = [];
+    const namePattern = /[^\s"'>/={}]+/y;
+    let index = from;
+
+    while (index < content.length) {
+        const char = content[index];
+        if (/\s/.test(char)) {
+            index++;
+        } else if (char === '>') {
+            return { attributes, end: index + 1, selfClosing: content[index - 1] === '/' };
+        } else if (char === '{') {
+            // Svelte/Astro spread or shorthand: {...props}, {value}
+            index = skipBraces(content, index);
+        } else {
+            namePattern.lastIndex = index;
+            const name = namePattern.exec(content);
+            if (!name) {
+                index++;
+                continue;
+            }
+
+            const attribute: Attribute = { name: name[0].toLowerCase(), nameOffset: index };
+            index += name[0].length;
+            const equals = /\s*=\s*/y;
+            equals.lastIndex = index;
+            const equalsMatch = equals.exec(content);
+            if (equalsMatch) {
+                attribute.equals = index + equalsMatch[0].indexOf('=');
+                index = equals.lastIndex;
+                const quote = content[index];
+                if (quote === '"' || quote === '\'') {
+                    const close = content.indexOf(quote, index + 1);
+                    const end = close < 0 ? content.length : close;
+                    Object.assign(attribute, { quote, value: { start: index + 1, end } });
+                    index = end + 1;
+                } else if (quote === '{') {
+                    const end = skipBraces(content, index);
+                    Object.assign(attribute, { quote, value: { start: index + 1, end: end - 1 } });
+                    index = end;
+                } else {
+                    const unquoted = /[^\s>]+/y;
+                    unquoted.lastIndex = index;
+                    const value = unquoted.exec(content)?.[0].replace(/\/$/, '') ?? '';
+                    Object.assign(attribute, { quote: '', value: { start: index, end: index + value.length } });
+                    index += value.length;
+                }
+            }
+            attributes.push(attribute);
+        }
+    }
+
+    return { attributes, end: content.length, selfClosing: false };
+}
+
+/**
+ * Offset just past the brace matching the one at `start`, skipping braces inside string literals
+ */
+function skipBraces(content: string, start: number): number {
+    let depth = 0;
+    let index = start;
+    while (index < content.length) {
+        const char = content[index];
+        if (char === '"' || char === '\'' || char === '`') {
+            const close = content.indexOf(char, index + 1);
+            index = close < 0 ? content.length : close + 1;
+            continue;
+        }
+        if (char === '{') depth++;
+        else if (char === '}' && --depth === 0) return index + 1;
+        index++;
+    }
+    return content.length;
+}
+
+/** The parts of a quoted attribute value outside `{expression}` interpolations */
+function skipInterpolations(content: string, range: Range): Range[] {
+    const parts: Range[] = [];
+    let start = range.start;
+    let index = range.start;
+    while (index < range.end) {
+        if (content[index] === '{') {
+            parts.push({ start, end: index });
+            index = Math.min(skipBraces(content, index), range.end);
+            start = index;
+        } else {
+            index++;
+        }
+    }
+    parts.push({ start, end: range.end });
+    return parts.filter(part => part.end > part.start);
+}
+
+function getAttributeValue(content: string, attributes: Attribute[], name: string): string | undefined {
+    const value = attributes.find(attribute => attribute.name === name)?.value;
+    return value && content.slice(value.start, value.end);
+}
+
+/**
+ * A copy of content where everything but the parts is blanked with spaces, keeping line breaks
+ */
+function blankOutside(content: string, parts: Part[]): string {
+    const chars = content.replace(/[^\r\n]/g, ' ').split('');
+    for (const part of parts) {
+        for (let i = part.start; i < part.end && i < chars.length; i++) {
+            chars[i] = part.text ? part.text[i - part.start] : content[i];
+        }
+    }
+    return chars.join('');
+}
@@ -0,0 +1,21 @@
+/**
+ * Map character offsets of a text to 1-based line and column numbers
+ */
+export function createPositionResolver(content: string): (offset: number) => { line: number; column: number } {
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    return (offset: number) => {
+        // Binary search for the last line starting at or before the offset
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (lineStarts[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return { line: low + 1, column: offset - lineStarts[low] + 1 };
+    };
+}
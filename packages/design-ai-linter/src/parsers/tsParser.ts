@@ -0,0 +1,202 @@
+import ts from 'typescript';
+import { StyleDeclaration } from '../types';
+import { parseCssDeclarations } from './cssParser';
+import { createPositionResolver } from './position';
+
+/** Object keys treated as CSS properties (after conversion to kebab-case) */
+const STYLE_PROPERTY_PATTERN = /^(color|background|border|outline|fill|stroke|caret-color|accent-color|text-decoration|text-shadow|box-shadow|column-rule|margin|padding|gap|row-gap|column-gap|width|height|min-width|min-height|max-width|max-height|top|right|bottom|left|inset|font|line-height|letter-spacing|word-spacing|text-indent|flex-basis|grid|translate|opacity|z-index|transition|animation)(-|$)/;
+
+/** Properties whose numbers React, emotion and vanilla-extract leave unitless instead of appending px */
+const UNITLESS_PROPERTIES = new Set([
+    'animation-iteration-count', 'border-image-outset', 'border-image-slice', 'border-image-width',
+    'column-count', 'fill-opacity', 'flex', 'flex-grow', 'flex-shrink', 'font-weight', 'grid-area',
+    'grid-column', 'grid-column-end', 'grid-column-start', 'grid-row', 'grid-row-end', 'grid-row-start',
+    'line-clamp', 'line-height', 'opacity', 'order', 'stroke-dasharray', 'stroke-dashoffset',
+    'stroke-miterlimit', 'stroke-opacity', 'stroke-width', 'z-index', 'zoom'
+]);
+
+/** MUI `sx` shorthand keys */
+const SX_SHORTHANDS: Record<string, string> = {
+    m: 'margin', mt: 'margin-top', mr: 'margin-right', mb: 'margin-bottom', ml: 'margin-left',
+    mx: 'margin-inline', my: 'margin-block',
+    p: 'padding', pt: 'padding-top', pr: 'padding-right', pb: 'padding-bottom', pl: 'padding-left',
+    px: 'padding-inline', py: 'padding-block',
+    bgcolor: 'background-color'
+};
+
+/** Functions taking a style object: vanilla-extract, emotion's css() and the object syntax of styled() */
+const STYLE_OBJECT_FUNCTIONS = new Set(['style', 'styleVariants', 'globalStyle', 'recipe', 'keyframes', 'css']);
+
+/** Tags of template literals holding CSS: styled-components and emotion */
+const CSS_TEMPLATE_TAGS = new Set(['css', 'keyframes', 'createGlobalStyle', 'injectGlobal']);
+
+/**
+ * Where an object literal sits: numbers are px in style objects,
+ * theme scale steps in `sx` props, and not style values anywhere else
+ */
+type ObjectContext = 'plain' | 'style' | 'sx';
+
+/**
+ * Collect style properties written in JS/TS:
+ * - string values of object literal properties named like CSS properties (`{ backgroundColor: '#fff' }`)
+ * - numbers in style objects (`style={{ padding: 12 }}`, `css({})`, vanilla-extract `style({})`), which mean px
+ *   unless the property is unitless like `fontWeight`
+ * - `sx` props, with MUI shorthands such as `p` and `bgcolor`
+ * - the CSS of styled-components and emotion template literals (styled.div`...`, css`...`)
+ */
+export function parseTsStyleDeclarations(content: string, fileName = 'file.tsx'): StyleDeclaration[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+    const toPosition = createPositionResolver(content);
+    const declarations: StyleDeclaration[] = [];
+
+    const visit = (node: ts.Node, context: ObjectContext) => {
+        if (ts.isPropertyAssignment(node)) {
+            const declaration = readPropertyAssignment(node, context, sourceFile);
+            if (declaration) {
+                declarations.push({ ...declaration, ...toPosition(declaration.offset) });
+            }
+        } else if (ts.isTaggedTemplateExpression(node) && isCssTemplateTag(node.tag)) {
+            for (const declaration of parseTemplateDeclarations(node.template, content, sourceFile)) {
+                declarations.push({ ...declaration, ...toPosition(declaration.offset) });
+            }
+        } else if (ts.isJsxAttribute(node) && ts.isIdentifier(node.name)) {
+            const name = node.name.text;
+            if (name === 'style' || name === 'css') context = 'style';
+            else if (name === 'sx') context = 'sx';
+        } else if (ts.isCallExpression(node) && isStyleObjectFunction(node.expression)) {
+            node.arguments.forEach(arg => visit(arg, 'style'));
+            return;
+        }
+        ts.forEachChild(node, child => visit(child, context));
+    };
+    visit(sourceFile, 'plain');
+
+    return declarations;
+}
+
+type PendingDeclaration = Omit<StyleDeclaration, 'line' | 'column'>;
+
+function readPropertyAssignment(
+    node: ts.PropertyAssignment,
+    context: ObjectContext,
+    sourceFile: ts.SourceFile
+): PendingDeclaration | undefined {
+    const key = getPropertyName(node.name);
+    if (!key) return undefined;
+
+    const property = (context === 'sx' && SX_SHORTHANDS[key]) || toKebabCase(key);
+    if (!STYLE_PROPERTY_PATTERN.test(property)) return undefined;
+
+    const content = sourceFile.text;
+    const initializer = node.initializer;
+    const block = node.parent.getStart(sourceFile);
+    if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer)) {
+        // Skip the opening quote; the raw text keeps escapes so offsets stay exact
+        const start = initializer.getStart(sourceFile) + 1;
+        return { property, value: content.slice(start, initializer.getEnd() - 1), offset: start, block };
+    }
+
+    // Numbers in `sx` are steps of the theme scale, not lengths
+    if (context !== 'style') return undefined;
+
+    const number = ts.isPrefixUnaryExpression(initializer) && initializer.operator === ts.SyntaxKind.MinusToken
+        ? initializer.operand
+        : initializer;
+    if (!ts.isNumericLiteral(number) || Number(number.text) === 0) return undefined;
+
+    const start = initializer.getStart(sourceFile);
+    return {
+        property,
+        value: content.slice(start, number.getEnd()),
+        offset: start,
+        block,
+        numeric: true,
+        ...(!UNITLESS_PROPERTIES.has(property) && { implicitUnit: 'px' })
+    };
+}
+
+/**
+ * Parse the CSS of a template literal. Each `${}` is replaced by a placeholder of the same length,
+ * a comment between declarations and a word inside a value, so offsets map back to the file unchanged.
+ * Templates that still aren't valid CSS are skipped.
+ */
+function parseTemplateDeclarations(
+    template: ts.TemplateLiteral,
+    content: string,
+    sourceFile: ts.SourceFile
+): PendingDeclaration[] {
+    const start = template.getStart(sourceFile) + 1;
+    let css = content.slice(start, template.getEnd() - 1);
+
+    if (ts.isTemplateExpression(template)) {
+        for (const span of template.templateSpans) {
+            // From `${` to the matching `}`, which opens the following literal part
+            const from = span.expression.getFullStart() - 2 - start;
+            const to = span.literal.getStart(sourceFile) + 1 - start;
+            const previous = css.slice(0, from).trimEnd().slice(-1);
+            const placeholder = createPlaceholder(css.slice(from, to), previous === '' || '{};'.includes(previous));
+            css = css.slice(0, from) + placeholder + css.slice(to);
+        }
+    }
+
+    try {
+        return parseCssDeclarations(css, 'scss').map(declaration => ({
+            property: declaration.property,
+            value: declaration.value,
+            offset: start + declaration.offset,
+            // Declarations at the top of the template belong to the template itself
+            block: start + (declaration.block ?? -1)
+        }));
+    } catch {
+        return [];
+    }
+}
+
+/** Same length and line breaks as the interpolation, so positions stay exact */
+function createPlaceholder(interpolation: string, isStatement: boolean): string {
+    const filler = interpolation.replace(/[^\n]/g, 'x');
+    return isStatement ? `/*${filler.slice(4)}*/` : filler;
+}
+
+/** styled.div`...`, styled(Button)`...`, styled.a.attrs({})`...`, css`...` */
+function isCssTemplateTag(tag: ts.Expression): boolean {
+    if (ts.isIdentifier(tag) && CSS_TEMPLATE_TAGS.has(tag.text)) return true;
+    return tag !== getStyledRoot(tag) && isStyledIdentifier(getStyledRoot(tag));
+}
+
+/** style({}), css({}), styled.div({}), styled(Button)(props => ({})) */
+function isStyleObjectFunction(callee: ts.Expression): boolean {
+    if (ts.isIdentifier(callee)) return STYLE_OBJECT_FUNCTIONS.has(callee.text);
+    return isStyledIdentifier(getStyledRoot(callee));
+}
+
+/** Walk a chain of property accesses and calls down to the expression it starts from */
+function getStyledRoot(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (ts.isPropertyAccessExpression(current) || ts.isCallExpression(current)) {
+        current = current.expression;
+    }
+    return current;
+}
+
+function isStyledIdentifier(expression: ts.Expression): boolean {
+    return ts.isIdentifier(expression) && expression.text === 'styled';
+}
+
+export function getScriptKind(fileName: string): ts.ScriptKind {
+    if (fileName.endsWith('.ts') || fileName.endsWith('.mts') || fileName.endsWith('.cts')) return ts.ScriptKind.TS;
+    if (/\.(jsx?|mjs|cjs)$/.test(fileName)) return ts.ScriptKind.JSX;
+    return ts.ScriptKind.TSX;
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNoSubstitutionTemplateLiteral(name)) {
+        return name.text;
+    }
+    return undefined;
+}
+
+function toKebabCase(key: string): string {
+    if (key.includes('-')) return key.toLowerCase();
+    return key.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+}
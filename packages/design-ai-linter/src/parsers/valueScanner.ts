@@ -0,0 +1,119 @@
+import valueParser from 'postcss-value-parser';
+import { StyleDeclaration } from '../types';
+import { parseColor, isNamedColor, COLOR_FUNCTION_NAMES } from '../color';
+
+/** A raw value found inside a declaration value, positioned in the code file */
+export type RawValueMatch = {
+    value: string;
+    property: string;
+    line: number;
+    column: number;
+    offset: number;
+    /** Set when the value is the arbitrary value of a Tailwind class */
+    utility?: StyleDeclaration['utility'];
+    /** Set when the value is a JS number the runtime appends this unit to */
+    implicitUnit?: string;
+};
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/** Properties taking a color, where a word like `red` is a named color rather than an identifier */
+const COLOR_PROPERTY_PATTERN = /(^|-)(color|background|border|outline|shadow|fill|stroke|caret|decoration|rule|emphasis)(-|$)/;
+
+/** Functions whose arguments are references or resources, never raw design values */
+const REFERENCE_FUNCTIONS = new Set(['var', 'env', 'url', 'attr', 'token', 'theme']);
+
+/** Functions not descended into: references, and colors whose percentages are channels, not lengths */
+const SKIPPED_FUNCTIONS = new Set([...REFERENCE_FUNCTIONS, ...COLOR_FUNCTION_NAMES]);
+
+/**
+ * Find colors in declaration values: hex, named colors and every CSS Color 4 color function.
+ * Colors that don't parse on their own (relative colors, `rgb(var(--rgb) / 50%)`) are not reported.
+ */
+export function scanColors(declarations: StyleDeclaration[]): RawValueMatch[] {
+    return scanValues(declarations, (node, declaration) => {
+        if (node.type === 'word') {
+            if (HEX_COLOR_PATTERN.test(node.value)) return node.value;
+            if (isNamedColor(node.value) && COLOR_PROPERTY_PATTERN.test(declaration.property)) return node.value;
+            return undefined;
+        }
+        if (node.type === 'function' && COLOR_FUNCTION_NAMES.has(node.value.toLowerCase())) {
+            const value = valueParser.stringify(node);
+            return parseColor(value) ? value : undefined;
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Find px lengths in declaration values
+ */
+export function scanPixels(declarations: StyleDeclaration[]): RawValueMatch[] {
+    return scanDimensions(declarations, ['px']);
+}
+
+/**
+ * Find lengths and percentages in the given units in declaration values.
+ * Numbers of JS style objects count in their implicit unit.
+ */
+export function scanDimensions(declarations: StyleDeclaration[], units: readonly string[]): RawValueMatch[] {
+    return scanValues(declarations, (node, declaration) => {
+        if (node.type !== 'word') return undefined;
+        const dimension = valueParser.unit(node.value);
+        const unit = dimension && (dimension.unit.toLowerCase() || declaration.implicitUnit);
+        if (!unit || !units.includes(unit)) return undefined;
+        return node.value;
+    }).map(match => {
+        // Report the length without its sign so `-16px` is matched against 16px tokens
+        const sign = /^[+-]/.exec(match.value);
+        return sign
+            ? { ...match, value: match.value.slice(1), offset: match.offset + 1, column: match.column + 1 }
+            : match;
+    });
+}
+
+/**
+ * Walk the parsed value of every declaration. `match` returns the source text of a raw value,
+ * or undefined to keep descending into function arguments (except those of SKIPPED_FUNCTIONS).
+ */
+function scanValues(
+    declarations: StyleDeclaration[],
+    match: (node: valueParser.Node, declaration: StyleDeclaration) => string | undefined
+): RawValueMatch[] {
+    const results: RawValueMatch[] = [];
+
+    for (const declaration of declarations) {
+        const walk = (nodes: valueParser.Node[]) => {
+            for (const node of nodes) {
+                const value = match(node, declaration);
+                if (value !== undefined) {
+                    const lineBreak = declaration.value.lastIndexOf('\n', node.sourceIndex - 1);
+                    results.push({
+                        value,
+                        property: declaration.property,
+                        offset: declaration.offset + node.sourceIndex,
+                        line: declaration.line + countLineBreaks(declaration.value.slice(0, node.sourceIndex)),
+                        column: lineBreak < 0
+                            ? declaration.column + node.sourceIndex
+                            : node.sourceIndex - lineBreak,
+                        ...(declaration.utility && { utility: declaration.utility }),
+                        ...(declaration.implicitUnit && { implicitUnit: declaration.implicitUnit })
+                    });
+                } else if (node.type === 'function' && !SKIPPED_FUNCTIONS.has(node.value.toLowerCase())) {
+                    walk(node.nodes);
+                }
+            }
+        };
+        walk(valueParser(declaration.value).nodes);
+    }
+
+    return results;
+}
+
+function countLineBreaks(text: string): number {
+    let count = 0;
+    for (const char of text) {
+        if (char === '\n') count++;
+    }
+    return count;
+}
@@ -0,0 +1,43 @@
+import { Diagnostic } from '../types';
+
+const COLORS = {
+    error: '\x1b[31m',
+    warn: '\x1b[33m',
+    info: '\x1b[36m'
+};
+const RESET = '\x1b[0m';
+
+export function formatConsoleReport(diagnostics: Diagnostic[]): string {
+    if (diagnostics.length === 0) {
+        return '✔ 問題は見つかりませんでした';
+    }
+
+    const lines: string[] = [`\n${diagnostics.length}件の問題が見つかりました:\n`];
+
+    for (const d of diagnostics) {
+        lines.push(`${COLORS[d.severity]}[${d.severity.toUpperCase()}]${RESET} ${d.ruleId}: ${d.message}`);
+        if (d.file) {
+            lines.push(`    ファイル: ${d.file}${d.line ? `:${d.line}` : ''}`);
+        }
+        if (d.tokenName) lines.push(`    トークン: ${d.tokenName}`);
+        if (d.problem) lines.push(`    問題: ${d.problem}`);
+        if (d.reason) lines.push(`    理由: ${d.reason}`);
+        if (d.suggestedToken) lines.push(`    推奨トークン: ${d.suggestedToken}`);
+        if (d.candidates && d.candidates.length > 1) {
+            lines.push(`    候補: ${d.candidates.map(c => `${c.tokenName} (ΔE ${c.distance})`).join(', ')}`);
+        }
+        if (d.suggestion) lines.push(`    提案: ${d.suggestion}`);
+        if (d.fixedCode) {
+            lines.push(`    修正コード:`);
+            for (const line of d.fixedCode.split('\n')) {
+                if (line.trim()) {
+                    lines.push(`      ${line}`);
+                }
+            }
+        }
+        if (d.impact) lines.push(`    影響度: ${d.impact}`);
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
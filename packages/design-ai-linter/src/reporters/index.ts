@@ -1,3 +1,3 @@
 export { generateJSONReport, type LintReport } from './jsonReporter';
 export { generatePRCommentReport } from './prCommentReporter';
-
+export { formatConsoleReport } from './consoleReporter';
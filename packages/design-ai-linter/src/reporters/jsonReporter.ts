@@ -1,4 +1,4 @@
-import { Diagnostic } from '../types';
+import { Diagnostic, TextEdit } from '../types';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -9,7 +9,9 @@ export interface LintReport {
         problem?: string;
         reason?: string;
         suggestedToken?: string;
+        candidates?: Array<{ tokenName: string; distance: number }>;
         fixedCode?: string;
+        edits?: TextEdit[];
         impact?: 'Low' | 'Medium' | 'High';
         ruleId: string;
         message: string;
@@ -36,7 +38,9 @@ export async function generateJSONReport(
             problem: d.problem,
             reason: d.reason,
             suggestedToken: d.suggestedToken,
+            candidates: d.candidates,
             fixedCode: d.fixedCode,
+            edits: d.edits,
             impact: d.impact,
             ruleId: d.ruleId,
             message: d.message,
@@ -51,6 +51,9 @@ export function generatePRCommentReport(diagnostics: Diagnostic[]): string {
             if (diag.suggestedToken) {
                 report += `- **推奨トークン**: \`${diag.suggestedToken}\`\n`;
             }
+            if (diag.candidates && diag.candidates.length > 1) {
+                report += `- **候補**: ${diag.candidates.map(c => `\`${c.tokenName}\` (ΔE ${c.distance})`).join(', ')}\n`;
+            }
             if (diag.fixedCode) {
                 report += `- **修正案**:\n`;
                 report += `\`\`\`\n${diag.fixedCode}\n\`\`\`\n`;
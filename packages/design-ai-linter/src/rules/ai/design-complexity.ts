@@ -30,6 +30,7 @@ export const designComplexityRule: AIRule = {
 2. **命名の明確性**: 名前は直感的で一貫しているか？
 3. **スケールの複雑さ**: スケール（色、スペーシング、タイポグラフィ）が複雑すぎる、または不規則か？
 4. **認知的負荷**: 開発者が適切なトークンを選択するのがどれだけ難しいか？
+5. **モードの一貫性**: modesを持つトークンについて、各モード（light/dark/brandなど）間で値の対応関係が一貫しているか？
 
 出力フォーマット（必ずオブジェクト形式で返してください）:
 {
@@ -54,7 +55,7 @@ export const designComplexityRule: AIRule = {
 重要: 必ずオブジェクト形式で返してください。配列を直接返さないでください。
 
 Tokens:
-${JSON.stringify(context.tokens.map(t => ({ name: t.name, value: t.rawValue })), null, 2)}
+${JSON.stringify(context.tokens.map(t => ({ name: t.name, value: t.rawValue, ...(t.modes ? { modes: t.modes } : {}) })), null, 2)}
 
 ${context.codeFiles && context.codeFiles.length > 0 ? `
 Code Files:
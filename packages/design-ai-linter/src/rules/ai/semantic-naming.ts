@@ -29,6 +29,7 @@ Design Token と実装コードの整合性を確認し、必要に応じて改
 - "info" vs "information"のような同義語を避ける
 - 数値と記述的値の混在を避ける
 - 命名の深さの不一致を避ける
+- modesを持つトークンは、各モード（light/darkなど）の値がトークン名の意味と矛盾していないか確認する
 
 出力フォーマット（必ずオブジェクト形式で返してください）:
 {
@@ -50,7 +51,7 @@ Design Token と実装コードの整合性を確認し、必要に応じて改
 重要: 必ずオブジェクト形式（{"issues": [...]}）で返してください。配列を直接返さないでください。
 
 Tokens:
-${JSON.stringify(context.tokens.map(t => ({ name: t.name, value: t.rawValue })), null, 2)}
+${JSON.stringify(context.tokens.map(t => ({ name: t.name, value: t.rawValue, ...(t.modes ? { modes: t.modes } : {}) })), null, 2)}
 
 ${context.codeFiles && context.codeFiles.length > 0 ? `
 Code Files:
@@ -31,6 +31,7 @@ Design Token と実装コードの整合性を確認し、必要に応じて改
 - 確立されたスケールに適合しないトークン（外れ値）を特定
 - 命名の不一致をチェック（例: "sm"のようなTシャツサイズと数値"4"の混在）
 - グリッドに合わせるための修正を提案
+- modesを持つトークンは、各モードの値がそれぞれスケールに適合しているか確認
 
 出力フォーマット（必ずオブジェクト形式で返してください）:
 {
@@ -52,7 +53,7 @@ Design Token と実装コードの整合性を確認し、必要に応じて改
 重要: 必ずオブジェクト形式（{"issues": [...]}）で返してください。配列を直接返さないでください。
 
 Spacing Tokens:
-${JSON.stringify(spacingTokens.map(t => ({ name: t.name, value: t.rawValue })), null, 2)}
+${JSON.stringify(spacingTokens.map(t => ({ name: t.name, value: t.rawValue, ...(t.modes ? { modes: t.modes } : {}) })), null, 2)}
 
 ${context.codeFiles && context.codeFiles.length > 0 ? `
 Code Files:
@@ -0,0 +1,22 @@
+import { Token, Diagnostic } from '../types';
+
+export function ruleAliasReference(tokens: Token[], severity: 'error' | 'warn' | 'info' = 'error'): Diagnostic[] {
+    const diags: Diagnostic[] = [];
+    for (const t of tokens) {
+        const aliasError = t.meta?.aliasError;
+        if (!aliasError) continue;
+
+        const chain = (aliasError.chain as string[]).join(' → ');
+        diags.push({
+            ruleId: 'alias-reference',
+            message: aliasError.type === 'circular'
+                ? `Token "${t.name}" has a circular reference: ${chain}`
+                : `Token "${t.name}" references undefined token "{${aliasError.reference}}"`,
+            severity,
+            tokenName: t.name,
+            problem: aliasError.type === 'circular' ? `circular reference ${chain}` : `dangling reference {${aliasError.reference}}`,
+            reason: 'Alias references must point to an existing token and must not form a cycle'
+        });
+    }
+    return diags;
+}
@@ -0,0 +1,44 @@
+import { Token, Diagnostic } from '../types';
+
+/**
+ * Report tokens that lack a value for a mode their collection defines.
+ * Expected modes are the union of the modes used by tokens of the same collection.
+ */
+export function ruleMissingMode(tokens: Token[], severity: 'error' | 'warn' | 'info' = 'warn'): Diagnostic[] {
+    const diags: Diagnostic[] = [];
+
+    const expectedModes = new Map<string, Set<string>>();
+    for (const t of tokens) {
+        if (!t.modes) continue;
+        const collection = t.meta?.collection ?? '';
+        if (!expectedModes.has(collection)) {
+            expectedModes.set(collection, new Set());
+        }
+        for (const mode of Object.keys(t.modes)) {
+            expectedModes.get(collection)!.add(mode);
+        }
+    }
+
+    for (const t of tokens) {
+        if (!t.modes) continue;
+        const collection = t.meta?.collection ?? '';
+
+        for (const mode of expectedModes.get(collection)!) {
+            const value = t.modes[mode];
+            if (value !== undefined && value !== null) continue;
+
+            diags.push({
+                ruleId: 'missing-mode',
+                message: `Token "${t.name}" has no value for mode "${mode}"`,
+                severity,
+                tokenName: t.name,
+                problem: `missing value for mode ${mode}`,
+                reason: collection
+                    ? `Every token in collection "${collection}" should define a value for each of its modes`
+                    : 'Every token with per-mode values should define a value for each mode'
+            });
+        }
+    }
+
+    return diags;
+}
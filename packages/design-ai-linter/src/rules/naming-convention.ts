@@ -3,7 +3,15 @@ import { Token, Diagnostic } from '../types';
 export function ruleNamingConvention(tokens: Token[], pattern: RegExp, severity: 'error' | 'warn' | 'info' = 'error'): Diagnostic[] {
     const diags: Diagnostic[] = [];
     for (const t of tokens) {
-        if (!pattern.test(t.name)) {
+        // Names the token format itself rejects, recorded by the adapter
+        if (t.meta?.nameError) {
+            diags.push({
+                ruleId: 'naming-convention',
+                message: `Token name "${t.name}" is invalid: ${t.meta.nameError}`,
+                severity,
+                tokenName: t.name
+            });
+        } else if (!pattern.test(t.name)) {
             diags.push({
                 ruleId: 'naming-convention',
                 message: `Token name "${t.name}" does not match pattern ${pattern}`,
@@ -0,0 +1,129 @@
+import { Token, Diagnostic, CodeFile, StyleDeclaration } from '../types';
+import { DimensionContext, DEFAULT_ROOT_FONT_SIZE } from '../dimension';
+import { extractStyleDeclarations } from '../parsers';
+import {
+    TypographyProperty,
+    TypographyValues,
+    TypographyScale,
+    TYPOGRAPHY_PROPERTIES,
+    TYPOGRAPHY_CSS_PROPERTIES,
+    createTypographyScale,
+    parseTypographyValue,
+    findTypographyToken,
+    findNearestTypographyValue
+} from '../typography';
+import { createValueFix } from './valueFix';
+
+type RawTypography = {
+    declaration: StyleDeclaration;
+    property: TypographyProperty;
+    value: NonNullable<TypographyValues[TypographyProperty]>;
+};
+
+const PROPERTIES_BY_CSS = new Map(TYPOGRAPHY_PROPERTIES.map(property => [TYPOGRAPHY_CSS_PROPERTIES[property], property]));
+
+/**
+ * Detect hardcoded font-family, font-size, font-weight, line-height and letter-spacing values.
+ * Declarations of one rule or style object that together match a composite typography token are
+ * reported once with that token; other values are matched one by one against the typography tokens.
+ * Properties no token defines are not checked.
+ */
+export function ruleRawTypography(
+    tokens: Token[],
+    codeFiles: CodeFile[],
+    severity: 'error' | 'warn' | 'info' = 'warn',
+    context: DimensionContext = { rootFontSize: DEFAULT_ROOT_FONT_SIZE }
+): Diagnostic[] {
+    const diags: Diagnostic[] = [];
+    const scale = createTypographyScale(tokens, context);
+    if (scale.entries.length === 0) return diags;
+
+    for (const codeFile of codeFiles) {
+        const groups = new Map<number, RawTypography[]>();
+        for (const declaration of extractStyleDeclarations(codeFile.content, codeFile.language, codeFile.path)) {
+            const property = PROPERTIES_BY_CSS.get(declaration.property);
+            if (!property || !scale.properties.has(property)) continue;
+            const value = parseTypographyValue(property, declaration.value, context);
+            if (value === undefined) continue;
+
+            // Tailwind classes have no block; each stands alone
+            const key = declaration.block ?? declaration.offset;
+            groups.set(key, [...(groups.get(key) ?? []), { declaration, property, value }]);
+        }
+
+        for (const group of groups.values()) {
+            diags.push(...checkGroup(group, codeFile, scale, severity));
+        }
+    }
+
+    return diags;
+}
+
+function checkGroup(
+    group: RawTypography[],
+    codeFile: CodeFile,
+    scale: TypographyScale,
+    severity: Diagnostic['severity']
+): Diagnostic[] {
+    const values: TypographyValues = {};
+    for (const raw of group) {
+        (values as Record<string, unknown>)[raw.property] = raw.value;
+    }
+
+    const token = group.length > 1 ? findTypographyToken(values, scale) : undefined;
+    if (token) {
+        const list = group.map(raw => `${raw.declaration.property}: ${raw.declaration.value}`).join('; ');
+        return [{
+            ruleId: 'raw-typography',
+            message: `Typography values (${list}) match typography token "${token.name}"`,
+            severity,
+            file: codeFile.path,
+            line: group[0].declaration.line,
+            problem: `raw typography ${list}`,
+            reason: 'A text style defined as a typography token should be applied as a whole',
+            suggestedToken: token.name,
+            suggestion: `Apply the typography token "${token.name}" instead of setting its properties one by one`,
+            impact: 'Medium'
+        }];
+    }
+
+    return group.map(raw => checkValue(raw, codeFile, scale, severity, values.fontSize));
+}
+
+function checkValue(
+    raw: RawTypography,
+    codeFile: CodeFile,
+    scale: TypographyScale,
+    severity: Diagnostic['severity'],
+    fontSize?: number
+): Diagnostic {
+    const { declaration, property, value } = raw;
+    const text = `${declaration.property} ${declaration.value}`;
+    const match = findNearestTypographyValue(property, value, scale, fontSize);
+    const diagnostic: Diagnostic = {
+        ruleId: 'raw-typography',
+        message: `Raw ${text} is not defined by any typography token`,
+        severity,
+        file: codeFile.path,
+        line: declaration.line,
+        problem: `raw ${text}`,
+        reason: 'Typography values should come from design tokens for consistent text styles',
+        impact: 'Medium'
+    };
+    if (!match) return diagnostic;
+
+    diagnostic.suggestedToken = match.token.name;
+    if (match.difference > 0) {
+        diagnostic.message = `Raw ${text} is not on the typography scale (nearest token "${match.token.name}")`;
+    } else if (match.composite) {
+        diagnostic.message = `Raw ${text} matches the ${declaration.property} of typography token "${match.token.name}"`;
+    } else {
+        diagnostic.message = `Raw ${text} should use token "${match.token.name}"`;
+        // A font stack only becomes the token when the fallbacks agree too
+        const tokenValue = scale.entries.find(entry => entry.token === match.token)?.values.fontFamily;
+        if (property !== 'fontFamily' || tokenValue?.join() === (value as string[]).join()) {
+            Object.assign(diagnostic, createValueFix(codeFile, declaration, match.token.name));
+        }
+    }
+    return diagnostic;
+}
@@ -0,0 +1,279 @@
+import valueParser from 'postcss-value-parser';
+import { Token, Diagnostic, CodeFile, StyleDeclaration } from '../types';
+import { parseDimension, toPixels, Dimension, DimensionContext, DEFAULT_ROOT_FONT_SIZE } from '../dimension';
+import { extractStyleDeclarations } from '../parsers';
+import { createPositionResolver } from '../parsers/position';
+import { parseShadow, isSameShadow, getShadowDifference, ShadowLayer } from '../shadow';
+import { parseDuration, parseEasing, getEasingDifference, scanMotionValues, Easing } from '../motion';
+import { filterTokensByProperty, PropertyTokenMap, DEFAULT_PROPERTY_TOKENS } from '../category';
+import { createValueFix } from './valueFix';
+
+/** A kind of value compared against the tokens holding values of that kind */
+type ValueKind<V> = {
+    /** Token types and names holding values of this kind (`borderRadius`, `radius.md`) */
+    tokenPattern: RegExp;
+    /** Parse a token value or a value found in code */
+    parse(value: unknown, context: DimensionContext): V | undefined;
+    /** Distance between two values; undefined when they can't be compared */
+    difference(a: V, b: V, context: DimensionContext): number | undefined;
+    /** Exact match; defaults to a difference below 0.01 */
+    isSame?(a: V, b: V): boolean;
+    /** Values that switch the property off rather than pick a design value (`border-radius: 0`) */
+    isNeutral?(value: V): boolean;
+};
+
+/** A value of one kind inside a declaration value */
+type RawPart = {
+    kind: string;
+    text: string;
+    /** Offset of the text in the declaration value */
+    offset: number;
+};
+
+type RawValueRule = {
+    /** Token category named in messages */
+    label: string;
+    /** CSS properties checked by the rule */
+    properties: string[];
+    kinds: Record<string, ValueKind<unknown>>;
+    /** Split a declaration value into the values checked one by one */
+    scan(value: string): RawPart[];
+    reason: string;
+};
+
+type Length = { dimension: Dimension; pixels?: number };
+
+const radius: ValueKind<Length> = {
+    tokenPattern: /radius|radii|rounded/i,
+    parse: (value, context) => {
+        const dimension = parseDimension(value);
+        return dimension && { dimension, pixels: toPixels(dimension, context) };
+    },
+    difference: (a, b) => {
+        if (a.pixels !== undefined && b.pixels !== undefined) return Math.abs(a.pixels - b.pixels);
+        return a.dimension.unit === b.dimension.unit ? Math.abs(a.dimension.value - b.dimension.value) : undefined;
+    },
+    isNeutral: value => value.dimension.value === 0
+};
+
+const shadow: ValueKind<ShadowLayer[]> = {
+    tokenPattern: /shadow/i,
+    parse: parseShadow,
+    difference: getShadowDifference,
+    isSame: isSameShadow
+};
+
+const zIndex: ValueKind<number> = {
+    tokenPattern: /z-?index|^z[.-]|^layers?[.-]/i,
+    parse: value => {
+        const text = String(value).trim();
+        return (typeof value === 'number' || typeof value === 'string') && /^[+-]?\d+$/.test(text) ? Number(text) : undefined;
+    },
+    difference: (a, b) => Math.abs(a - b),
+    isNeutral: value => value === 0
+};
+
+const opacity: ValueKind<number> = {
+    tokenPattern: /opacity/i,
+    parse: value => {
+        if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+        const match = typeof value === 'string' ? /^\s*((?:\d+\.?\d*|\.\d+))(%?)\s*$/.exec(value) : null;
+        if (!match) return undefined;
+        return parseFloat(match[1]) / (match[2] ? 100 : 1);
+    },
+    difference: (a, b) => Math.abs(a - b),
+    // Fully transparent and opaque are visibility toggles
+    isNeutral: value => value === 0 || value === 1
+};
+
+const duration: ValueKind<number> = {
+    tokenPattern: /duration/i,
+    parse: parseDuration,
+    difference: (a, b) => Math.abs(a - b),
+    isNeutral: value => value === 0
+};
+
+const easing: ValueKind<Easing> = {
+    tokenPattern: /easing|cubic-?bezier|timing-?function/i,
+    parse: parseEasing,
+    difference: getEasingDifference,
+    isSame: (a, b) => getEasingDifference(a, b) !== undefined && getEasingDifference(a, b)! < 0.001
+};
+
+/** The whole value is one value */
+const scanWhole = (value: string): RawPart[] => [{ kind: 'value', text: value.trim(), offset: value.length - value.trimStart().length }];
+
+export const RAW_VALUE_RULES = {
+    'raw-radius': {
+        label: 'radius',
+        properties: [
+            'border-radius',
+            'border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius',
+            'border-start-start-radius', 'border-start-end-radius', 'border-end-start-radius', 'border-end-end-radius'
+        ],
+        kinds: { value: radius },
+        // Every corner of `4px 8px / 2px` is a value of its own
+        scan: value => valueParser(value).nodes
+            .filter(node => node.type === 'word')
+            .map(node => ({ kind: 'value', text: node.value, offset: node.sourceIndex })),
+        reason: 'Corner radii should come from design tokens for consistent shapes'
+    },
+    'raw-shadow': {
+        label: 'shadow',
+        properties: ['box-shadow', 'text-shadow'],
+        kinds: { value: shadow },
+        scan: scanWhole,
+        reason: 'Shadows should come from design tokens for a consistent elevation system'
+    },
+    'raw-z-index': {
+        label: 'z-index',
+        properties: ['z-index'],
+        kinds: { value: zIndex },
+        scan: scanWhole,
+        reason: 'Stacking order should come from z-index tokens so layers don\'t compete'
+    },
+    'raw-opacity': {
+        label: 'opacity',
+        properties: ['opacity', 'fill-opacity', 'stroke-opacity', 'flood-opacity', 'stop-opacity'],
+        kinds: { value: opacity },
+        scan: scanWhole,
+        reason: 'Opacity levels should come from design tokens for consistency'
+    },
+    'raw-motion': {
+        label: 'motion',
+        properties: [
+            'transition', 'transition-duration', 'transition-delay', 'transition-timing-function',
+            'animation', 'animation-duration', 'animation-delay', 'animation-timing-function'
+        ],
+        kinds: { duration, easing },
+        scan: scanMotionValues,
+        reason: 'Durations and easings should come from motion tokens for consistent animations'
+    }
+} satisfies Record<string, RawValueRule>;
+
+export type RawValueRuleId = keyof typeof RAW_VALUE_RULES;
+
+export const RAW_VALUE_RULE_IDS = Object.keys(RAW_VALUE_RULES) as RawValueRuleId[];
+
+type ScaleEntry = { token: Token; kind: string; value: unknown };
+
+/**
+ * Detect hardcoded values of one token category (radius, shadow, z-index, opacity, motion) in code files.
+ * Values matching a token get a fix; others name the nearest token. Kinds of values no token defines are not checked.
+ * When `propertyTokens` maps a property, its values are only compared with the tokens the mapping allows.
+ */
+export function ruleRawValue(
+    ruleId: RawValueRuleId,
+    tokens: Token[],
+    codeFiles: CodeFile[],
+    severity: 'error' | 'warn' | 'info' = 'warn',
+    context: DimensionContext = { rootFontSize: DEFAULT_ROOT_FONT_SIZE },
+    propertyTokens: PropertyTokenMap = DEFAULT_PROPERTY_TOKENS
+): Diagnostic[] {
+    const diags: Diagnostic[] = [];
+    const rule: RawValueRule = RAW_VALUE_RULES[ruleId];
+    const scale = createScale(rule, tokens, context);
+    if (scale.length === 0) return diags;
+
+    const scaleTokens = [...new Set(scale.map(entry => entry.token))];
+    const scales = new Map<string, ScaleEntry[]>();
+    const getScale = (property: string) => {
+        if (!scales.has(property)) {
+            const allowed = filterTokensByProperty(property, scaleTokens, propertyTokens);
+            scales.set(property, allowed ? scale.filter(entry => allowed.includes(entry.token)) : scale);
+        }
+        return scales.get(property)!;
+    };
+
+    for (const codeFile of codeFiles) {
+        const toPosition = createPositionResolver(codeFile.content);
+        for (const declaration of extractStyleDeclarations(codeFile.content, codeFile.language, codeFile.path)) {
+            if (!rule.properties.includes(declaration.property)) continue;
+
+            // Tailwind writes spaces as underscores; both are one character, so offsets hold
+            const value = declaration.utility ? declaration.value.replace(/_/g, ' ') : declaration.value;
+            for (const part of rule.scan(value)) {
+                // A multi-line value (layered shadows, transitions) reports each part on its own line
+                const line = toPosition(declaration.offset + part.offset).line;
+                const diagnostic = checkPart(ruleId, rule, part, declaration, line, codeFile, getScale(declaration.property), severity, context);
+                if (diagnostic) diags.push(diagnostic);
+            }
+        }
+    }
+
+    return diags;
+}
+
+/**
+ * CSS properties a rule checks, or none when no token holds values it could compare;
+ * other rules leave these properties to it
+ */
+export function getRawValueRuleProperties(ruleId: RawValueRuleId, tokens: Token[], context: DimensionContext): string[] {
+    const rule: RawValueRule = RAW_VALUE_RULES[ruleId];
+    return createScale(rule, tokens, context).length > 0 ? rule.properties : [];
+}
+
+/** Every mode value of the tokens of the rule's kinds that parses as a value of that kind */
+function createScale(rule: RawValueRule, tokens: Token[], context: DimensionContext): ScaleEntry[] {
+    const scale: ScaleEntry[] = [];
+    for (const token of tokens) {
+        for (const [name, kind] of Object.entries(rule.kinds)) {
+            if (!kind.tokenPattern.test(token.type) && !kind.tokenPattern.test(token.name)) continue;
+            const values = [token.value ?? token.rawValue, ...Object.values(token.modes ?? {})];
+            for (const value of values) {
+                const parsed = kind.parse(value, context);
+                if (parsed !== undefined) scale.push({ token, kind: name, value: parsed });
+            }
+        }
+    }
+    return scale;
+}
+
+function checkPart(
+    ruleId: RawValueRuleId,
+    rule: RawValueRule,
+    part: RawPart,
+    declaration: StyleDeclaration,
+    line: number,
+    codeFile: CodeFile,
+    scale: ScaleEntry[],
+    severity: Diagnostic['severity'],
+    context: DimensionContext
+): Diagnostic | undefined {
+    const kind = rule.kinds[part.kind];
+    const entries = scale.filter(entry => entry.kind === part.kind);
+    const value = kind.parse(part.text, context);
+    if (entries.length === 0 || value === undefined || kind.isNeutral?.(value)) return undefined;
+
+    let nearest: { token: Token; difference: number; same: boolean } | undefined;
+    for (const entry of entries) {
+        const difference = kind.difference(value, entry.value, context);
+        if (difference === undefined) continue;
+        const same = kind.isSame ? kind.isSame(value, entry.value) : difference < 0.01;
+        if (!nearest || (same && !nearest.same) || (same === nearest.same && difference < nearest.difference)) {
+            nearest = { token: entry.token, difference, same };
+        }
+    }
+
+    const text = `${declaration.property} ${part.text}`;
+    const diagnostic: Diagnostic = {
+        ruleId,
+        message: `Raw ${text} does not match any ${rule.label} token`,
+        severity,
+        file: codeFile.path,
+        line,
+        problem: `raw ${text}`,
+        reason: rule.reason,
+        impact: 'Medium'
+    };
+    if (!nearest) return diagnostic;
+
+    diagnostic.suggestedToken = nearest.token.name;
+    if (nearest.same) {
+        diagnostic.message = `Raw ${text} should use token "${nearest.token.name}"`;
+        Object.assign(diagnostic, createValueFix(codeFile, declaration, nearest.token.name, part));
+    } else {
+        diagnostic.message = `Raw ${text} does not match any ${rule.label} token (nearest token "${nearest.token.name}")`;
+    }
+    return diagnostic;
+}
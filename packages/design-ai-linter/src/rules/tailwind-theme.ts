@@ -0,0 +1,112 @@
+import path from 'path';
+import { Token, Diagnostic, CodeFile } from '../types';
+import { DimensionContext, DEFAULT_ROOT_FONT_SIZE, parseDimension, toPixels } from '../dimension';
+import { createPositionResolver } from '../parsers/position';
+import {
+    TailwindTheme,
+    ThemeSection,
+    THEME_SECTIONS,
+    extractClassNames,
+    parseTailwindClass,
+    getUtilitySections,
+    indexThemeTokens,
+    findNearestSectionToken,
+    getSectionTokens,
+    toTokenUtilityClass,
+    ClassNameMatch
+} from '../tailwind';
+
+/**
+ * Check a Tailwind theme against the tokens:
+ * - values the project config adds to the theme should stand for a token
+ * - standard utilities in code files (`p-3`) should resolve to a value on the token scale
+ */
+export function ruleTailwindTheme(
+    tokens: Token[],
+    theme: TailwindTheme,
+    codeFiles: CodeFile[] = [],
+    severity: 'error' | 'warn' | 'info' = 'warn',
+    context: DimensionContext = { rootFontSize: DEFAULT_ROOT_FONT_SIZE }
+): Diagnostic[] {
+    const diags: Diagnostic[] = [];
+    const index = indexThemeTokens(theme, tokens, context);
+    const configFile = theme.filepath && path.relative(process.cwd(), theme.filepath);
+    // Without tokens of its kind there is no scale to hold a section to
+    const sections = THEME_SECTIONS.filter(section => getSectionTokens(section, tokens).length > 0);
+
+    for (const section of sections) {
+        for (const key of theme.custom[section]) {
+            if (index[section].get(key)) continue;
+
+            const value = theme.sections[section][key];
+            const nearest = findNearestSectionToken(section, value, tokens, context);
+            diags.push({
+                ruleId: 'tailwind-theme',
+                message: `Tailwind theme value ${section}.${key} (${value}) is not backed by a design token`,
+                severity,
+                file: configFile,
+                problem: `theme ${section}.${key} is ${value}`,
+                reason: 'Theme values should reference design tokens so utilities stay in sync with the design system',
+                suggestedToken: nearest?.name
+            });
+        }
+    }
+
+    for (const codeFile of codeFiles) {
+        let classNames: ClassNameMatch[];
+        try {
+            classNames = extractClassNames(codeFile.content, codeFile.language, codeFile.path);
+        } catch {
+            // Reported once by the raw value rules
+            continue;
+        }
+        const toPosition = createPositionResolver(codeFile.content);
+
+        for (const match of classNames) {
+            const parsed = parseTailwindClass(match.className);
+            if (!parsed || parsed.arbitrary) continue;
+
+            const section = findDefaultSection(parsed.utility, parsed.value, theme);
+            if (!section || !sections.includes(section) || index[section].get(parsed.value)) continue;
+
+            const value = theme.sections[section][parsed.value];
+            if (isNeutralValue(value, context)) continue;
+
+            const nearest = findNearestSectionToken(section, value, tokens, context);
+            const replacement = nearest && toTokenUtilityClass(parsed, nearest, index);
+            diags.push({
+                ruleId: 'tailwind-theme',
+                message: `Utility ${match.className} (${value}) is not on the token scale`,
+                severity,
+                file: codeFile.path,
+                line: toPosition(match.offset).line,
+                problem: `utility ${match.className}`,
+                reason: 'Tailwind\'s default scale is not the design system scale',
+                suggestedToken: nearest?.name,
+                ...(replacement && {
+                    suggestion: replacement,
+                    edits: [{ file: codeFile.path, start: match.offset, end: match.offset + match.className.length, replacement }]
+                })
+            });
+        }
+    }
+
+    return diags;
+}
+
+/**
+ * Theme section a standard utility's value comes from, when that value is one of
+ * Tailwind's defaults; values set by the project are checked at the config instead
+ */
+function findDefaultSection(utility: string, key: string, theme: TailwindTheme): ThemeSection | undefined {
+    return getUtilitySections(utility).find(section =>
+        theme.sections[section][key] !== undefined && !theme.custom[section].has(key)
+    );
+}
+
+/** 0 and `full`-style values are not design decisions */
+function isNeutralValue(value: string, context: DimensionContext): boolean {
+    const dimension = parseDimension(value);
+    const pixels = dimension && toPixels(dimension, context);
+    return pixels === 0 || (pixels !== undefined && pixels >= 9999);
+}
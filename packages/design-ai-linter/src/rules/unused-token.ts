@@ -0,0 +1,116 @@
+import { Token, Diagnostic, CodeFile } from '../types';
+import { isMarkupLanguage, splitMarkup } from '../parsers/markupParser';
+import { extractClassNames, parseTailwindClass, getUtilitySections, ThemeTokenIndex } from '../tailwind';
+import { findAliasReferences } from '../adapters/aliasResolver';
+import { getTokenVariableName } from './valueFix';
+
+/** `var(--color-primary)`, and Tailwind's `bg-[--color-primary]` shorthand */
+const CUSTOM_PROPERTY_PATTERN = /(?:var\(\s*|\[)--([\w-]+)/g;
+
+/** `$color-primary` where it is used rather than defined (`$color-primary: #fff`) */
+const SCSS_VARIABLE_PATTERN = /\$([\w-]+)(?![\w-]|\s*:)/g;
+
+/** `token('color.primary')`, as in the token helpers of CSS-in-JS themes */
+const TOKEN_CALL_PATTERN = /\btoken\(\s*(['"`])([^'"`]+?)\1\s*[,)]/g;
+
+/**
+ * Report tokens nothing refers to, see collectTokenReferences
+ */
+export function ruleUnusedToken(
+    tokens: Token[],
+    codeFiles: CodeFile[],
+    severity: 'error' | 'warn' | 'info' = 'info',
+    themeIndex?: ThemeTokenIndex
+): Diagnostic[] {
+    const references = collectTokenReferences(tokens, codeFiles, themeIndex);
+
+    return tokens
+        .filter(token => !references.has(token.name))
+        .map(token => ({
+            ruleId: 'unused-token',
+            message: `Token "${token.name}" is not referenced in any code file or alias`,
+            severity,
+            tokenName: token.name,
+            problem: `unused token ${token.name}`,
+            reason: 'Tokens nothing uses make the design system harder to maintain; remove them or use them'
+        }));
+}
+
+/**
+ * Names of the tokens the code files or other tokens refer to:
+ * - custom properties (`var(--color-primary)`) and SCSS variables (`$color-primary`), named as the fixes name them
+ * - `token('color.primary')` calls
+ * - Tailwind classes whose theme key stands for the token (`bg-primary` when `colors.primary` is `var(--color-primary)`)
+ * - aliases: a token another token refers to (`{color.brand.500}`) counts as used even when only the alias is
+ */
+export function collectTokenReferences(tokens: Token[], codeFiles: CodeFile[], themeIndex?: ThemeTokenIndex): Set<string> {
+    const names = new Set(tokens.map(token => token.name));
+    // color.primary and color-primary share a variable name; a reference to it counts for both
+    const byVariable = new Map<string, string[]>();
+    for (const token of tokens) {
+        const variable = getTokenVariableName(token.name);
+        byVariable.set(variable, [...(byVariable.get(variable) ?? []), token.name]);
+    }
+
+    const references = new Set<string>();
+    const addVariable = (variable: string) => byVariable.get(variable)?.forEach(name => references.add(name));
+
+    for (const codeFile of codeFiles) {
+        const { content, language } = codeFile;
+        for (const match of content.matchAll(CUSTOM_PROPERTY_PATTERN)) {
+            addVariable(match[1]);
+        }
+        for (const match of content.matchAll(TOKEN_CALL_PATTERN)) {
+            if (names.has(match[2].trim())) references.add(match[2].trim());
+        }
+        for (const stylesheet of getScssSources(codeFile)) {
+            for (const match of stylesheet.matchAll(SCSS_VARIABLE_PATTERN)) {
+                addVariable(match[1]);
+            }
+        }
+        if (themeIndex) {
+            for (const name of findClassTokens(content, language, codeFile.path, themeIndex)) {
+                references.add(name);
+            }
+        }
+    }
+
+    for (const token of tokens) {
+        const aliases = [...findAliasReferences(token.rawValue), ...(token.meta?.modeAliases ?? [])];
+        for (const reference of aliases) {
+            if (reference !== token.name && names.has(reference)) references.add(reference);
+        }
+    }
+
+    return references;
+}
+
+/** The SCSS of a code file: the whole file, or the `<style lang="scss">` blocks of a markup file */
+function getScssSources(codeFile: CodeFile): string[] {
+    if (codeFile.language === 'scss') return [codeFile.content];
+    if (!isMarkupLanguage(codeFile.language)) return [];
+    return splitMarkup(codeFile.content, codeFile.language).styles
+        .filter(style => style.syntax === 'scss')
+        .map(style => style.content);
+}
+
+function findClassTokens(content: string, language: CodeFile['language'], fileName: string, themeIndex: ThemeTokenIndex): string[] {
+    let classNames;
+    try {
+        classNames = extractClassNames(content, language, fileName);
+    } catch {
+        // Reported once by the raw value rules
+        return [];
+    }
+
+    const names: string[] = [];
+    for (const { className } of classNames) {
+        const parsed = parseTailwindClass(className);
+        if (!parsed || parsed.arbitrary) continue;
+        for (const section of getUtilitySections(parsed.utility)) {
+            const token = themeIndex[section]?.get(parsed.value);
+            if (token) names.push(token.name);
+        }
+    }
+    return names;
+}
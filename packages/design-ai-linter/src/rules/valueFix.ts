@@ -0,0 +1,43 @@
+import { CodeFile, StyleDeclaration, TextEdit } from '../types';
+
+/**
+ * Replace a declaration value, or the part of it at `offset` (relative to the value), with the token's custom property.
+ * JS numbers become a string; Tailwind arbitrary values are left alone: `text-[var(--x)]` would be read as a color.
+ */
+export function createValueFix(
+    codeFile: CodeFile,
+    declaration: StyleDeclaration,
+    tokenName: string,
+    part: { text: string; offset: number } = { text: declaration.value, offset: 0 }
+): { fixedCode?: string; edits?: TextEdit[] } {
+    const { content } = codeFile;
+    const start = declaration.offset + part.offset;
+    const end = start + part.text.length;
+    if (declaration.utility || content.slice(start, end) !== part.text) {
+        return {};
+    }
+
+    const reference = generateTokenReference(tokenName);
+    const replacement = declaration.numeric ? `'${reference}'` : reference;
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = content.indexOf('\n', end);
+
+    return {
+        fixedCode: content.slice(lineStart, start) + replacement + content.slice(end, lineEnd < 0 ? undefined : lineEnd),
+        edits: [{ file: codeFile.path, start, end, replacement }]
+    };
+}
+
+/**
+ * CSS custom property of a token: color.primary → var(--color-primary)
+ */
+export function generateTokenReference(tokenName: string): string {
+    return `var(--${getTokenVariableName(tokenName)})`;
+}
+
+/**
+ * Name of a token's custom property or SCSS variable, without `--` or `$`: color.primary → color-primary
+ */
+export function getTokenVariableName(tokenName: string): string {
+    return tokenName.replace(/\./g, '-');
+}
@@ -0,0 +1,6 @@
+export {
+    parseShadow,
+    isSameShadow,
+    getShadowDifference,
+    type ShadowLayer
+} from './parse';
@@ -0,0 +1,115 @@
+import valueParser from 'postcss-value-parser';
+import { parseColor, formatColor, RGBA } from '../color';
+import { parseDimension, toPixels, DimensionContext } from '../dimension';
+
+/** One layer of a box-shadow or text-shadow, with its lengths in px */
+export type ShadowLayer = {
+    inset: boolean;
+    offsetX: number;
+    offsetY: number;
+    blur: number;
+    spread: number;
+    /** undefined when the color is left to currentColor */
+    color?: RGBA;
+};
+
+/**
+ * Parse a shadow written in CSS (`0 1px 2px rgb(0 0 0 / 10%), inset 0 0 0 1px #fff`) or as a token value:
+ * DTCG layers (`{ offsetX, offsetY, blur, spread, color, inset }`), Tokens Studio box shadows
+ * (`{ x, y, blur, spread, color, type: 'innerShadow' }`), or a list of either.
+ * @returns undefined for `none`, references and anything else that isn't a shadow
+ */
+export function parseShadow(value: unknown, context: DimensionContext): ShadowLayer[] | undefined {
+    if (typeof value === 'string') return parseCssShadow(value, context);
+
+    const layers = Array.isArray(value) ? value : [value];
+    if (layers.length === 0) return undefined;
+    const parsed = layers.map(layer => parseShadowObject(layer, context));
+    return parsed.every(layer => layer !== undefined) ? parsed as ShadowLayer[] : undefined;
+}
+
+/** Same layers in the same order, to within rounding of converted units and 8-bit colors */
+export function isSameShadow(a: ShadowLayer[], b: ShadowLayer[]): boolean {
+    const difference = getShadowDifference(a, b);
+    return difference !== undefined && difference < 0.01 && a.every((layer, i) => isSameColor(layer.color, b[i].color));
+}
+
+/**
+ * Sum of the differences in px between the offsets, blurs and spreads of two shadows; colors are not compared.
+ * @returns undefined when the shadows differ in their number of layers or which of them are inset
+ */
+export function getShadowDifference(a: ShadowLayer[], b: ShadowLayer[]): number | undefined {
+    if (a.length !== b.length || a.some((layer, i) => layer.inset !== b[i].inset)) return undefined;
+    return a.reduce((sum, layer, i) => sum +
+        Math.abs(layer.offsetX - b[i].offsetX) +
+        Math.abs(layer.offsetY - b[i].offsetY) +
+        Math.abs(layer.blur - b[i].blur) +
+        Math.abs(layer.spread - b[i].spread), 0);
+}
+
+function parseCssShadow(value: string, context: DimensionContext): ShadowLayer[] | undefined {
+    const layers: valueParser.Node[][] = [[]];
+    for (const node of valueParser(value).nodes) {
+        if (node.type === 'div' && node.value === ',') layers.push([]);
+        else if (node.type !== 'space' && node.type !== 'comment') layers[layers.length - 1].push(node);
+    }
+
+    const parsed = layers.map(nodes => parseCssShadowLayer(nodes, context));
+    return parsed.every(layer => layer !== undefined) ? parsed as ShadowLayer[] : undefined;
+}
+
+/** `[inset] <offset-x> <offset-y> [<blur> [<spread>]] [<color>]`, with the keyword and color in any position */
+function parseCssShadowLayer(nodes: valueParser.Node[], context: DimensionContext): ShadowLayer | undefined {
+    const lengths: number[] = [];
+    let inset = false;
+    let color: RGBA | undefined;
+
+    for (const node of nodes) {
+        const text = valueParser.stringify(node);
+        if (node.type === 'word' && text.toLowerCase() === 'inset' && !inset) {
+            inset = true;
+            continue;
+        }
+        const dimension = node.type === 'word' ? parseDimension(text) : undefined;
+        const pixels = dimension && toPixels(dimension, context);
+        if (pixels !== undefined) {
+            lengths.push(pixels);
+            continue;
+        }
+        const parsedColor = color ? undefined : parseColor(text);
+        if (!parsedColor) return undefined;
+        color = parsedColor;
+    }
+
+    if (lengths.length < 2 || lengths.length > 4) return undefined;
+    const [offsetX, offsetY, blur = 0, spread = 0] = lengths;
+    return { inset, offsetX, offsetY, blur, spread, color };
+}
+
+function parseShadowObject(layer: unknown, context: DimensionContext): ShadowLayer | undefined {
+    if (!layer || typeof layer !== 'object') return undefined;
+    const object = layer as Record<string, unknown>;
+
+    const toLength = (value: unknown) => {
+        if (value === undefined) return 0;
+        const dimension = parseDimension(value);
+        return dimension && toPixels(dimension, context);
+    };
+    const offsetX = toLength(object.offsetX ?? object.x);
+    const offsetY = toLength(object.offsetY ?? object.y);
+    const blur = toLength(object.blur);
+    const spread = toLength(object.spread);
+    if (offsetX === undefined || offsetY === undefined || blur === undefined || spread === undefined) return undefined;
+
+    // An unresolved reference as the color makes the shadow incomparable
+    const color = typeof object.color === 'string' ? parseColor(object.color) : undefined;
+    if (object.color !== undefined && !color) return undefined;
+
+    const inset = object.inset === true || object.type === 'innerShadow';
+    return { inset, offsetX, offsetY, blur, spread, color };
+}
+
+function isSameColor(a?: RGBA, b?: RGBA): boolean {
+    if (!a || !b) return a === b;
+    return formatColor(a) === formatColor(b);
+}
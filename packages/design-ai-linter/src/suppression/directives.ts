@@ -0,0 +1,41 @@
+import { CodeComment } from '../parsers/comments';
+
+export type DirectiveKind = 'disable' | 'enable' | 'disable-line' | 'disable-next-line';
+
+/**
+ * A `dslint-*` comment: `dslint-disable-next-line raw-color, raw-pixel -- partner logo color`
+ */
+export type DisableDirective = {
+    kind: DirectiveKind;
+    /** Rules the directive names; empty for every rule */
+    rules: string[];
+    /** Text after ` -- ` */
+    justification?: string;
+    /** Comment the directive was written in */
+    comment: CodeComment;
+};
+
+const DIRECTIVE_PATTERN = /^dslint-(disable-next-line|disable-line|disable|enable)(?=\s|$)([\s\S]*)$/;
+
+/**
+ * Read the directives out of a code file's comments. Comments that only mention a directive
+ * (`see dslint-disable`) are not directives: the comment has to start with it.
+ */
+export function parseDisableDirectives(comments: CodeComment[]): DisableDirective[] {
+    const directives: DisableDirective[] = [];
+    for (const comment of comments) {
+        // JSDoc-style block comments put a `*` in front of the text
+        const match = DIRECTIVE_PATTERN.exec(comment.text.replace(/^\*+\s*/, ''));
+        if (!match) continue;
+
+        const [body, ...justification] = match[2].split(/\s--(?:\s|$)/);
+        const text = justification.join(' -- ').trim();
+        directives.push({
+            kind: match[1] as DirectiveKind,
+            rules: body.split(/[\s,]+/).filter(Boolean),
+            ...(text && { justification: text }),
+            comment
+        });
+    }
+    return directives;
+}
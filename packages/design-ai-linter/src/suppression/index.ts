@@ -0,0 +1,8 @@
+export { parseDisableDirectives, type DisableDirective, type DirectiveKind } from './directives';
+export {
+    collectDisableDirectives,
+    suppressDiagnostics,
+    reportDirectiveProblems,
+    type DirectiveIndex,
+    type DisableDirectiveOptions
+} from './suppress';
@@ -0,0 +1,177 @@
+import { CodeFile, Diagnostic } from '../types';
+import { extractComments } from '../parsers/comments';
+import { DisableDirective, parseDisableDirectives } from './directives';
+
+export type DisableDirectiveOptions = {
+    /** Severity of directives that suppressed nothing, or 'off' (default warn) */
+    reportUnused?: Diagnostic['severity'] | 'off';
+    /** Disable directives without a ` -- ` justification are reported as errors and suppress nothing (default false) */
+    requireJustification?: boolean;
+};
+
+/** A directive with the rules it has suppressed problems of so far */
+type TrackedDirective = DisableDirective & {
+    suppressed: Set<string>;
+};
+
+/** Lines where a directive suppresses problems; `to` is Infinity for a disable block that is never closed */
+type SuppressionRange = {
+    from: number;
+    to: number;
+    /** Rules suppressed; empty for every rule */
+    rules: string[];
+    /** Rules re-enabled inside a block disabling every rule */
+    except: string[];
+    directive: TrackedDirective;
+};
+
+type FileDirectives = {
+    directives: TrackedDirective[];
+    ranges: SuppressionRange[];
+};
+
+/**
+ * The disable directives of a set of code files, by file path.
+ * Suppressing diagnostics records which directives were used, so the unused ones can be reported afterwards.
+ */
+export type DirectiveIndex = {
+    options: DisableDirectiveOptions;
+    files: Map<string, FileDirectives>;
+};
+
+/**
+ * Read the `dslint-disable*` / `dslint-enable` comments of the code files.
+ * Ranges are line based: `dslint-disable` covers its own line up to the line before the matching `dslint-enable`,
+ * or the rest of the file when nothing enables the rules again.
+ */
+export function collectDisableDirectives(codeFiles: CodeFile[], options: DisableDirectiveOptions = {}): DirectiveIndex {
+    const files = new Map<string, FileDirectives>();
+
+    for (const codeFile of codeFiles) {
+        if (!codeFile.content.includes('dslint-')) continue;
+
+        const directives: TrackedDirective[] = parseDisableDirectives(
+            extractComments(codeFile.content, codeFile.language, codeFile.path)
+        ).map(directive => ({ ...directive, suppressed: new Set<string>() }));
+        if (directives.length === 0) continue;
+
+        const active = directives.filter(directive =>
+            directive.kind === 'enable' || !options.requireJustification || directive.justification
+        );
+        files.set(codeFile.path, { directives, ranges: toRanges(active) });
+    }
+
+    return { options, files };
+}
+
+/**
+ * Drop the diagnostics a directive of their file covers. Diagnostics without a file and line are kept.
+ */
+export function suppressDiagnostics(diagnostics: Diagnostic[], index: DirectiveIndex): Diagnostic[] {
+    return diagnostics.filter(diagnostic => {
+        const { file, line, ruleId } = diagnostic;
+        const fileDirectives = file ? index.files.get(file) : undefined;
+        if (!fileDirectives || !line) return true;
+
+        const covering = fileDirectives.ranges.filter(range =>
+            line >= range.from && line <= range.to &&
+            (range.rules.length === 0 ? !range.except.includes(ruleId) : range.rules.includes(ruleId))
+        );
+        for (const range of covering) {
+            range.directive.suppressed.add(ruleId);
+        }
+        return covering.length === 0;
+    });
+}
+
+/**
+ * Problems with the directives themselves: missing justifications when they are required,
+ * and directives that suppressed nothing.
+ * @param checkedRules rules that ran; a directive naming a rule that didn't run (such as an AI rule without an API key)
+ *   isn't reported as unused for it
+ */
+export function reportDirectiveProblems(index: DirectiveIndex, checkedRules?: Set<string>): Diagnostic[] {
+    const { reportUnused = 'warn', requireJustification = false } = index.options;
+    const diagnostics: Diagnostic[] = [];
+
+    for (const [file, { directives }] of index.files) {
+        for (const directive of directives) {
+            if (directive.kind === 'enable') continue;
+            const name = `dslint-${directive.kind}`;
+
+            if (requireJustification && !directive.justification) {
+                diagnostics.push({
+                    ruleId: 'disable-directive-justification',
+                    message: `${name} directive needs a justification: add " -- <reason>" after the rules`,
+                    severity: 'error',
+                    file,
+                    line: directive.comment.line
+                });
+                continue;
+            }
+            if (reportUnused === 'off') continue;
+
+            if (directive.rules.length === 0) {
+                if (directive.suppressed.size > 0) continue;
+                diagnostics.push({
+                    ruleId: 'unused-disable-directive',
+                    message: `Unused ${name} directive (no problems were reported)`,
+                    severity: reportUnused,
+                    file,
+                    line: directive.comment.line
+                });
+                continue;
+            }
+
+            const unusedRules = directive.rules.filter(rule =>
+                !directive.suppressed.has(rule) && (!checkedRules || checkedRules.has(rule))
+            );
+            if (unusedRules.length === 0) continue;
+            diagnostics.push({
+                ruleId: 'unused-disable-directive',
+                message: `Unused ${name} directive (no problems were reported from ${unusedRules.map(rule => `"${rule}"`).join(', ')})`,
+                severity: reportUnused,
+                file,
+                line: directive.comment.line
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+function toRanges(directives: TrackedDirective[]): SuppressionRange[] {
+    const ranges: SuppressionRange[] = [];
+    let open: SuppressionRange[] = [];
+
+    for (const directive of directives) {
+        const { kind, rules, comment } = directive;
+        if (kind === 'disable-line') {
+            ranges.push({ from: comment.line, to: comment.line, rules, except: [], directive });
+        } else if (kind === 'disable-next-line') {
+            ranges.push({ from: comment.endLine + 1, to: comment.endLine + 1, rules, except: [], directive });
+        } else if (kind === 'disable') {
+            open.push({ from: comment.line, to: Infinity, rules, except: [], directive });
+        } else {
+            // Close the blocks the enable covers; a block keeps going for the rules it doesn't name
+            const next: SuppressionRange[] = [];
+            for (const range of open) {
+                const remaining = range.rules.filter(rule => !rules.includes(rule));
+                if (rules.length > 0 && range.rules.length > 0 && remaining.length === range.rules.length) {
+                    next.push(range);
+                    continue;
+                }
+                ranges.push({ ...range, to: comment.line - 1 });
+                if (rules.length === 0) continue;
+                if (range.rules.length === 0) {
+                    next.push({ ...range, from: comment.line, except: [...range.except, ...rules] });
+                } else if (remaining.length > 0) {
+                    next.push({ ...range, from: comment.line, rules: remaining });
+                }
+            }
+            open = next;
+        }
+    }
+
+    return [...ranges, ...open];
+}
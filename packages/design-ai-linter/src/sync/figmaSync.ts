@@ -12,12 +12,19 @@ type FigmaVariable = {
     valuesByMode: { [modeId: string]: any };
 };
 
+type FigmaVariableCollection = {
+    id: string;
+    name: string;
+    modes: { modeId: string; name: string }[];
+    defaultModeId: string;
+};
+
 type FigmaVariablesResponse = {
     status: number;
     error: boolean;
     meta: {
         variables: { [id: string]: FigmaVariable };
-        variableCollections: { [id: string]: any };
+        variableCollections: { [id: string]: FigmaVariableCollection };
     };
 };
 
@@ -117,22 +124,49 @@ async function trySyncVariables(fileKey: string, token: string): Promise<any> {
     const tokens: any = {};
     for (const v of Object.values(data.meta.variables)) {
         const name = v.name.replace(/\//g, '.');
-        let value = v.valuesByMode[Object.keys(v.valuesByMode)[0]]; // Take first mode
-
-        if (v.resolvedType === 'COLOR' && typeof value === 'object') {
-            value = rgbaToHex(value.r, value.g, value.b, 1); // Variables usually don't have alpha in value object directly like this? 
-            // Actually Figma variables color value is {r, g, b, a} usually? 
-            // Let's stick to previous implementation logic but safer
-             if ('r' in value) {
-                 value = rgbaToHex(value.r, value.g, value.b, value.a ?? 1);
-             }
+        const collection = data.meta.variableCollections[v.variableCollectionId];
+        const collectionModes = collection?.modes ?? Object.keys(v.valuesByMode).map(modeId => ({ modeId, name: modeId }));
+        const defaultModeId = collection?.defaultModeId ?? collectionModes[0]?.modeId;
+
+        const value = defaultModeId in v.valuesByMode
+            ? toTokenValue(v, v.valuesByMode[defaultModeId], data.meta.variables)
+            : null;
+        const tokenNode: any = { value, type: v.resolvedType.toLowerCase() };
+
+        // Write every mode of the collection; modes without a value are left out so they can be reported
+        if (collectionModes.length > 1) {
+            const modes: Record<string, any> = {};
+            for (const mode of collectionModes) {
+                if (mode.modeId in v.valuesByMode) {
+                    modes[mode.name] = toTokenValue(v, v.valuesByMode[mode.modeId], data.meta.variables);
+                }
+            }
+            tokenNode.modes = modes;
+            tokenNode.collection = collection?.name;
         }
 
-        setDeep(tokens, name.split('.'), { value, type: v.resolvedType.toLowerCase() });
+        setDeep(tokens, name.split('.'), tokenNode);
     }
     return tokens;
 }
 
+/**
+ * Convert a Figma variable value into a token value.
+ * Colors become hex strings and variable aliases become "{token.name}" references.
+ */
+function toTokenValue(variable: FigmaVariable, value: any, variables: { [id: string]: FigmaVariable }): any {
+    if (value && typeof value === 'object' && value.type === 'VARIABLE_ALIAS') {
+        const target = variables[value.id];
+        return `{${target ? target.name.replace(/\//g, '.') : value.id}}`;
+    }
+
+    if (variable.resolvedType === 'COLOR' && value && typeof value === 'object' && 'r' in value) {
+        return rgbaToHex(value.r, value.g, value.b, value.a ?? 1);
+    }
+
+    return value;
+}
+
 async function syncStyles(fileKey: string, token: string): Promise<any> {
     // 1. Get Styles list
     const stylesResp = await fetch(`https://api.figma.com/v1/files/${fileKey}/styles`, {
@@ -0,0 +1,175 @@
+import ts from 'typescript';
+import postcss from 'postcss';
+import postcssScss from 'postcss-scss';
+import { CodeFile, StyleDeclaration } from '../types';
+import { createPositionResolver } from '../parsers/position';
+import { splitMarkup, isMarkupLanguage, MarkupLanguage } from '../parsers/markupParser';
+import { parseTailwindClass, getArbitraryProperty } from './utilities';
+
+/** A class name in a class attribute, a class helper call or an `@apply` rule */
+export type ClassNameMatch = {
+    className: string;
+    /** Character offset of the class name in the code file */
+    offset: number;
+};
+
+/** JSX attributes holding class names */
+const CLASS_ATTRIBUTES = new Set(['className', 'class']);
+
+/** Helpers whose string arguments are class names */
+const CLASS_FUNCTIONS = new Set(['clsx', 'cn', 'cx', 'classnames', 'classNames', 'cva', 'tv', 'twMerge', 'twJoin', 'tw']);
+
+/**
+ * Find the class names of a code file: `className`/`class` attributes, arguments of
+ * clsx/cn/cva/twMerge-style helpers (including object keys and variant values) and `@apply` in stylesheets.
+ * In Vue, Svelte, Astro and HTML files also `class=""` attributes and class bindings.
+ * @throws when the file can't be parsed
+ */
+export function extractClassNames(content: string, language: CodeFile['language'], fileName?: string): ClassNameMatch[] {
+    if (language === 'css' || language === 'scss') {
+        return extractApplyClassNames(content, language);
+    }
+    if (isMarkupLanguage(language)) {
+        return extractMarkupClassNames(content, language);
+    }
+    return extractScriptClassNames(content, fileName ?? 'file.tsx', false);
+}
+
+/**
+ * Class names in JS/TS. With `expressions`, every top-level expression statement is a class
+ * expression: the class bindings of a markup file.
+ */
+function extractScriptClassNames(content: string, fileName: string, expressions: boolean): ClassNameMatch[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, false, getScriptKind(fileName));
+    const matches: ClassNameMatch[] = [];
+
+    // Every string inside a class expression is a class list, except in nested calls to other functions
+    const collectStrings = (node: ts.Node) => {
+        if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+            matches.push(...splitClassList(content, node.getStart(sourceFile) + 1, node.getEnd() - 1));
+        } else if (ts.isTemplateExpression(node)) {
+            // Only the literal parts: `p-2 ${cond ? 'a' : 'b'} mt-1`
+            matches.push(...splitClassList(content, node.head.getStart(sourceFile) + 1, node.head.getEnd() - 2));
+            for (const span of node.templateSpans) {
+                collectStrings(span.expression);
+                const literal = span.literal;
+                const end = ts.isTemplateTail(literal) ? literal.getEnd() - 1 : literal.getEnd() - 2;
+                matches.push(...splitClassList(content, literal.getStart(sourceFile) + 1, end));
+            }
+        } else if (ts.isPropertyAssignment(node)) {
+            // clsx({ 'p-[3px]': isDense }) uses the key; cva variants use the value
+            if (ts.isStringLiteral(node.name)) collectStrings(node.name);
+            collectStrings(node.initializer);
+        } else if (ts.isCallExpression(node) && !isClassFunction(node.expression)) {
+            return;
+        } else {
+            ts.forEachChild(node, collectStrings);
+        }
+    };
+
+    const visit = (node: ts.Node) => {
+        if (expressions && ts.isExpressionStatement(node)) {
+            collectStrings(node.expression);
+            return;
+        }
+        if (ts.isJsxAttribute(node) && CLASS_ATTRIBUTES.has(node.name.getText(sourceFile)) && node.initializer) {
+            collectStrings(node.initializer);
+            return;
+        }
+        if (ts.isCallExpression(node) && isClassFunction(node.expression)) {
+            node.arguments.forEach(collectStrings);
+            return;
+        }
+        if (ts.isTaggedTemplateExpression(node) && isClassFunction(node.tag)) {
+            collectStrings(node.template);
+            return;
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return matches;
+}
+
+/**
+ * Class names of a Vue, Svelte, Astro or HTML file: class attributes and bindings,
+ * class helpers in scripts and `@apply` in style blocks
+ */
+function extractMarkupClassNames(content: string, language: MarkupLanguage): ClassNameMatch[] {
+    const documents = splitMarkup(content, language);
+    return [
+        ...documents.classLists.flatMap(range => splitClassList(content, range.start, range.end)),
+        ...extractScriptClassNames(documents.classBindings, documents.scriptFileName, true),
+        ...extractScriptClassNames(documents.script, documents.scriptFileName, false),
+        ...documents.styles.flatMap(style => extractApplyClassNames(style.content, style.syntax))
+    ].sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Style declarations written as Tailwind arbitrary values: `bg-[#1a73e8]` is a background-color
+ * of #1a73e8 whose offset points inside the brackets. `utility` keeps the class so a fix can swap it.
+ */
+export function extractTailwindDeclarations(
+    content: string,
+    language: CodeFile['language'],
+    fileName?: string
+): StyleDeclaration[] {
+    const toPosition = createPositionResolver(content);
+    const declarations: StyleDeclaration[] = [];
+
+    for (const match of extractClassNames(content, language, fileName)) {
+        const parsed = parseTailwindClass(match.className);
+        if (!parsed?.arbitrary) continue;
+        const property = getArbitraryProperty(parsed);
+        if (!property) continue;
+
+        const offset = match.offset + parsed.valueOffset;
+        declarations.push({
+            property,
+            // Underscores stand for spaces; swapping them keeps offsets intact
+            value: parsed.value.replace(/_/g, ' '),
+            offset,
+            ...toPosition(offset),
+            utility: { className: match.className, offset: match.offset }
+        });
+    }
+
+    return declarations;
+}
+
+function extractApplyClassNames(content: string, syntax: 'css' | 'scss'): ClassNameMatch[] {
+    const root = syntax === 'scss' ? postcssScss.parse(content) : postcss.parse(content);
+    const matches: ClassNameMatch[] = [];
+
+    root.walkAtRules('apply', rule => {
+        const start = rule.source?.start?.offset;
+        if (start === undefined) return;
+        const offset = content.indexOf(rule.params, start + '@apply'.length);
+        if (offset < 0) return;
+        matches.push(...splitClassList(content, offset, offset + rule.params.length));
+    });
+
+    return matches;
+}
+
+/** Split content[start, end) on whitespace into class names */
+function splitClassList(content: string, start: number, end: number): ClassNameMatch[] {
+    const matches: ClassNameMatch[] = [];
+    const pattern = /\S+/g;
+    const text = content.slice(start, end);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        matches.push({ className: match[0], offset: start + match.index });
+    }
+    return matches;
+}
+
+function isClassFunction(expression: ts.Expression): boolean {
+    return ts.isIdentifier(expression) && CLASS_FUNCTIONS.has(expression.text);
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+    if (/\.[mc]?ts$/.test(fileName)) return ts.ScriptKind.TS;
+    if (/\.(jsx?|mjs|cjs)$/.test(fileName)) return ts.ScriptKind.JSX;
+    return ts.ScriptKind.TSX;
+}
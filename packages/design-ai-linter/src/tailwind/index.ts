@@ -0,0 +1,18 @@
+export {
+    parseTailwindClass,
+    formatTailwindClass,
+    getArbitraryProperty,
+    getUtilitySections,
+    THEME_SECTIONS,
+    type TailwindClass,
+    type ThemeSection
+} from './utilities';
+export { extractClassNames, extractTailwindDeclarations, type ClassNameMatch } from './extract';
+export { loadTailwindTheme, resolveTailwindTheme, TAILWIND_CONFIG_FILES, type TailwindTheme } from './theme';
+export {
+    getSectionTokens,
+    indexThemeTokens,
+    findNearestSectionToken,
+    toTokenUtilityClass,
+    type ThemeTokenIndex
+} from './tokens';
@@ -0,0 +1,121 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ThemeSection, THEME_SECTIONS } from './utilities';
+
+/** The theme sections of a Tailwind config, flattened: `colors.primary.hover` → `primary-hover` */
+export type TailwindTheme = {
+    /** Absolute path of the config file the theme was read from */
+    filepath?: string;
+    sections: Record<ThemeSection, Record<string, string>>;
+    /** Keys set by the project config, as opposed to Tailwind's defaults */
+    custom: Record<ThemeSection, Set<string>>;
+};
+
+export const TAILWIND_CONFIG_FILES = [
+    'tailwind.config.js',
+    'tailwind.config.cjs',
+    'tailwind.config.mjs',
+    'tailwind.config.ts'
+];
+
+/**
+ * Tailwind's default scales (v3). The default color palette is left out:
+ * only colors defined by the project are compared with the tokens.
+ */
+const DEFAULT_THEME: Record<ThemeSection, Record<string, string>> = {
+    colors: {},
+    spacing: {
+        px: '1px', 0: '0px', 0.5: '0.125rem', 1: '0.25rem', 1.5: '0.375rem', 2: '0.5rem', 2.5: '0.625rem',
+        3: '0.75rem', 3.5: '0.875rem', 4: '1rem', 5: '1.25rem', 6: '1.5rem', 7: '1.75rem', 8: '2rem',
+        9: '2.25rem', 10: '2.5rem', 11: '2.75rem', 12: '3rem', 14: '3.5rem', 16: '4rem', 20: '5rem',
+        24: '6rem', 28: '7rem', 32: '8rem', 36: '9rem', 40: '10rem', 44: '11rem', 48: '12rem',
+        52: '13rem', 56: '14rem', 60: '15rem', 64: '16rem', 72: '18rem', 80: '20rem', 96: '24rem'
+    },
+    fontSize: {
+        xs: '0.75rem', sm: '0.875rem', base: '1rem', lg: '1.125rem', xl: '1.25rem', '2xl': '1.5rem',
+        '3xl': '1.875rem', '4xl': '2.25rem', '5xl': '3rem', '6xl': '3.75rem', '7xl': '4.5rem',
+        '8xl': '6rem', '9xl': '8rem'
+    },
+    borderRadius: {
+        none: '0px', sm: '0.125rem', DEFAULT: '0.25rem', md: '0.375rem', lg: '0.5rem', xl: '0.75rem',
+        '2xl': '1rem', '3xl': '1.5rem', full: '9999px'
+    }
+};
+
+/**
+ * Find and load the Tailwind config of a project: `configPath` if given,
+ * otherwise the first of TAILWIND_CONFIG_FILES found in baseDir.
+ * @returns undefined when there is no config or it can't be loaded
+ */
+export async function loadTailwindTheme(baseDir: string, configPath?: string): Promise<TailwindTheme | undefined> {
+    const filepath = configPath
+        ? path.resolve(baseDir, configPath)
+        : await findTailwindConfig(baseDir);
+    if (!filepath) return undefined;
+
+    try {
+        if (filepath.endsWith('.ts') || filepath.endsWith('.mjs')) {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            require('tsx/cjs/register');
+        }
+        delete require.cache[require.resolve(filepath)];
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const configModule = require(filepath);
+        return resolveTailwindTheme(configModule?.default ?? configModule, filepath);
+    } catch (error: any) {
+        console.warn(`⚠️  Tailwindの設定ファイルを読み込めませんでした: ${filepath} - ${error.message}`);
+        return undefined;
+    }
+}
+
+/**
+ * Merge a Tailwind config's `theme` and `theme.extend` over the default scales.
+ * Values given as functions of the theme are skipped.
+ */
+export function resolveTailwindTheme(config: any, filepath?: string): TailwindTheme {
+    const theme = config?.theme ?? {};
+    const sections = {} as TailwindTheme['sections'];
+    const custom = {} as TailwindTheme['custom'];
+
+    for (const section of THEME_SECTIONS) {
+        const own = flattenThemeValues(theme[section]);
+        const extended = flattenThemeValues(theme.extend?.[section]);
+        // A section set in `theme` replaces the default scale, `extend` adds to it
+        const base = theme[section] && typeof theme[section] === 'object' ? {} : DEFAULT_THEME[section];
+        sections[section] = { ...base, ...own, ...extended };
+        custom[section] = new Set([...Object.keys(own), ...Object.keys(extended)]);
+    }
+
+    return { filepath, sections, custom };
+}
+
+async function findTailwindConfig(baseDir: string): Promise<string | undefined> {
+    for (const name of TAILWIND_CONFIG_FILES) {
+        const candidate = path.join(baseDir, name);
+        if (await fs.access(candidate).then(() => true, () => false)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * `{ primary: { DEFAULT: '#00f', hover: '#00c' } }` → `{ primary: '#00f', 'primary-hover': '#00c' }`.
+ * Font sizes given as `[size, lineHeight]` keep the size.
+ */
+function flattenThemeValues(values: unknown, prefix = ''): Record<string, string> {
+    const result: Record<string, string> = {};
+    if (!values || typeof values !== 'object' || Array.isArray(values)) return result;
+
+    for (const [key, value] of Object.entries(values)) {
+        const name = key === 'DEFAULT' ? prefix || 'DEFAULT' : (prefix ? `${prefix}-${key}` : key);
+        if (typeof value === 'string' || typeof value === 'number') {
+            result[name] = String(value);
+        } else if (Array.isArray(value) && (typeof value[0] === 'string' || typeof value[0] === 'number')) {
+            result[name] = String(value[0]);
+        } else if (value && typeof value === 'object') {
+            Object.assign(result, flattenThemeValues(value, name === 'DEFAULT' ? '' : name));
+        }
+    }
+    return result;
+}
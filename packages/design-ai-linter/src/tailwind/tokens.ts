@@ -0,0 +1,101 @@
+import { Token } from '../types';
+import { createColorPalette, findNearestColors } from '../color';
+import {
+    parseDimension,
+    createDimensionScale,
+    findMatchingDimension,
+    findNearestDimension,
+    DimensionContext
+} from '../dimension';
+import { TailwindTheme } from './theme';
+import { ThemeSection, TailwindClass, getUtilitySections, formatTailwindClass } from './utilities';
+
+/** Theme key → the token its value stands for (undefined when no token does) */
+export type ThemeTokenIndex = Record<ThemeSection, Map<string, Token | undefined>>;
+
+/**
+ * Tokens a theme section is compared with
+ */
+export function getSectionTokens(section: ThemeSection, tokens: Token[]): Token[] {
+    switch (section) {
+        case 'colors':
+            return tokens.filter(t => t.type === 'color');
+        case 'spacing':
+            return tokens.filter(t => t.type === 'spacing' || t.type === 'size' || t.name.includes('spacing') || t.name.includes('size'));
+        case 'fontSize':
+            return tokens.filter(t => t.type === 'fontSize' || /font-?size|typography\.size/i.test(t.name));
+        case 'borderRadius':
+            return tokens.filter(t => t.type === 'borderRadius' || /radius|rounded/i.test(t.name));
+    }
+}
+
+/**
+ * Find the token behind every theme value: a reference to the token's custom property
+ * (`var(--color-primary)`, `rgb(var(--color-primary) / <alpha-value>)`) or the token's value itself
+ */
+export function indexThemeTokens(theme: TailwindTheme, tokens: Token[], context: DimensionContext): ThemeTokenIndex {
+    const byVariable = new Map(tokens.map(t => [t.name.replace(/\./g, '-'), t]));
+    const index = {} as ThemeTokenIndex;
+
+    for (const section of Object.keys(theme.sections) as ThemeSection[]) {
+        const sectionTokens = getSectionTokens(section, tokens);
+        const palette = section === 'colors' ? createColorPalette(sectionTokens) : [];
+        const scale = section === 'colors' ? [] : createDimensionScale(sectionTokens, context);
+        index[section] = new Map();
+
+        // Keys set by the project come first, so suggestions prefer them over Tailwind's defaults
+        const keys = Object.keys(theme.sections[section])
+            .sort((a, b) => Number(theme.custom[section].has(b)) - Number(theme.custom[section].has(a)));
+        for (const key of keys) {
+            const value = theme.sections[section][key];
+            const variable = /var\(\s*--([\w-]+)/.exec(value)?.[1];
+            if (variable) {
+                index[section].set(key, byVariable.get(variable));
+                continue;
+            }
+            if (section === 'colors') {
+                const [nearest] = findNearestColors(value, palette, { limit: 1 });
+                index[section].set(key, nearest?.exact ? nearest.token : undefined);
+            } else {
+                const dimension = parseDimension(value);
+                index[section].set(key, dimension && findMatchingDimension(dimension, scale, context)?.token);
+            }
+        }
+    }
+
+    return index;
+}
+
+/**
+ * Nearest token to a theme value, for suggestions
+ */
+export function findNearestSectionToken(
+    section: ThemeSection,
+    value: string,
+    tokens: Token[],
+    context: DimensionContext
+): Token | undefined {
+    const sectionTokens = getSectionTokens(section, tokens);
+    if (section === 'colors') {
+        const [nearest] = findNearestColors(value, createColorPalette(sectionTokens), { limit: 1 });
+        return nearest?.token;
+    }
+    const dimension = parseDimension(value);
+    return dimension && findNearestDimension(dimension, createDimensionScale(sectionTokens, context), context)?.token;
+}
+
+/**
+ * The class to use instead of `parsed` for a token: the utility with the theme key backed by the token,
+ * or the token's custom property as an arbitrary value when no key is
+ */
+export function toTokenUtilityClass(parsed: TailwindClass, token: Token, index?: ThemeTokenIndex): string {
+    const sections = getUtilitySections(parsed.utility)
+        .filter(section => token.type === 'color' ? section === 'colors' : section !== 'colors');
+
+    for (const section of sections) {
+        for (const [key, backing] of index?.[section] ?? []) {
+            if (backing === token) return formatTailwindClass(parsed, { key });
+        }
+    }
+    return formatTailwindClass(parsed, { arbitrary: `var(--${token.name.replace(/\./g, '-')})` });
+}
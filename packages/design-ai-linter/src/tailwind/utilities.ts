@@ -0,0 +1,186 @@
+import { parseColor } from '../color';
+
+/** Theme sections whose values are checked against the tokens */
+export type ThemeSection = 'colors' | 'spacing' | 'fontSize' | 'borderRadius';
+
+export const THEME_SECTIONS: ThemeSection[] = ['colors', 'spacing', 'fontSize', 'borderRadius'];
+
+type UtilityDefinition = {
+    /** CSS property set by a color value; such utilities read named values from `colors` */
+    color?: string;
+    /** CSS property set by a length value */
+    length?: string;
+    /** Theme section named length values are read from */
+    section?: Exclude<ThemeSection, 'colors'>;
+};
+
+const spacing = (property: string): UtilityDefinition => ({ length: property, section: 'spacing' });
+const radius: UtilityDefinition = { length: 'border-radius', section: 'borderRadius' };
+const border: UtilityDefinition = { color: 'border-color', length: 'border-width' };
+
+/** Utilities taking a color or a length, by class prefix */
+const UTILITIES: Record<string, UtilityDefinition> = {
+    bg: { color: 'background-color' },
+    text: { color: 'color', length: 'font-size', section: 'fontSize' },
+    border, 'border-x': border, 'border-y': border, 'border-t': border, 'border-r': border,
+    'border-b': border, 'border-l': border, 'border-s': border, 'border-e': border,
+    divide: { color: 'border-color' },
+    outline: { color: 'outline-color', length: 'outline-width' },
+    ring: { color: 'box-shadow', length: 'box-shadow' },
+    'ring-offset': { color: 'box-shadow', length: 'box-shadow' },
+    shadow: { color: 'box-shadow' },
+    fill: { color: 'fill' },
+    stroke: { color: 'stroke', length: 'stroke-width' },
+    decoration: { color: 'text-decoration-color', length: 'text-decoration-thickness' },
+    accent: { color: 'accent-color' },
+    caret: { color: 'caret-color' },
+    placeholder: { color: 'color' },
+    from: { color: 'background-image' },
+    via: { color: 'background-image' },
+    to: { color: 'background-image' },
+    p: spacing('padding'), px: spacing('padding-inline'), py: spacing('padding-block'),
+    pt: spacing('padding-top'), pr: spacing('padding-right'), pb: spacing('padding-bottom'), pl: spacing('padding-left'),
+    ps: spacing('padding-inline-start'), pe: spacing('padding-inline-end'),
+    m: spacing('margin'), mx: spacing('margin-inline'), my: spacing('margin-block'),
+    mt: spacing('margin-top'), mr: spacing('margin-right'), mb: spacing('margin-bottom'), ml: spacing('margin-left'),
+    ms: spacing('margin-inline-start'), me: spacing('margin-inline-end'),
+    gap: spacing('gap'), 'gap-x': spacing('column-gap'), 'gap-y': spacing('row-gap'),
+    'space-x': spacing('margin-left'), 'space-y': spacing('margin-top'),
+    inset: spacing('inset'), 'inset-x': spacing('inset-inline'), 'inset-y': spacing('inset-block'),
+    top: spacing('top'), right: spacing('right'), bottom: spacing('bottom'), left: spacing('left'),
+    start: spacing('inset-inline-start'), end: spacing('inset-inline-end'),
+    w: spacing('width'), h: spacing('height'), size: spacing('width'),
+    'min-w': { length: 'min-width' }, 'min-h': { length: 'min-height' },
+    'max-w': { length: 'max-width' }, 'max-h': { length: 'max-height' },
+    basis: spacing('flex-basis'), indent: spacing('text-indent'),
+    'translate-x': spacing('translate'), 'translate-y': spacing('translate'),
+    'scroll-m': spacing('scroll-margin'), 'scroll-p': spacing('scroll-padding'),
+    rounded: radius, 'rounded-t': radius, 'rounded-r': radius, 'rounded-b': radius, 'rounded-l': radius,
+    'rounded-s': radius, 'rounded-e': radius, 'rounded-tl': radius, 'rounded-tr': radius,
+    'rounded-br': radius, 'rounded-bl': radius, 'rounded-ss': radius, 'rounded-se': radius,
+    'rounded-es': radius, 'rounded-ee': radius
+};
+
+/** Longest prefixes first, so `border-t-2` is read as `border-t` rather than `border` */
+const UTILITY_NAMES = Object.keys(UTILITIES).sort((a, b) => b.length - a.length);
+
+/** A utility class split into its parts: `hover:-mt-[13px]` */
+export type TailwindClass = {
+    /** Variants with their trailing colon: `hover:md:` */
+    variants: string;
+    important: boolean;
+    negative: boolean;
+    utility: string;
+    /** Theme key (`3`, `primary-hover`, `DEFAULT`) or the arbitrary value (`#1a73e8`, `13px`) */
+    value: string;
+    arbitrary: boolean;
+    /** Offset of an arbitrary value (inside the brackets) in the class name */
+    valueOffset: number;
+    /** Opacity modifier with its slash: `/50` */
+    modifier: string;
+};
+
+/**
+ * Split a class name into variants, utility and value.
+ * @returns undefined for classes that don't take a color or a length
+ */
+export function parseTailwindClass(className: string): TailwindClass | undefined {
+    const variantEnd = findVariantEnd(className);
+    const variants = className.slice(0, variantEnd);
+    let rest = className.slice(variantEnd);
+    let offset = variantEnd;
+
+    const important = rest.startsWith('!') || rest.endsWith('!');
+    if (rest.startsWith('!')) {
+        rest = rest.slice(1);
+        offset++;
+    } else if (rest.endsWith('!')) {
+        rest = rest.slice(0, -1);
+    }
+    const negative = rest.startsWith('-');
+    if (negative) {
+        rest = rest.slice(1);
+        offset++;
+    }
+
+    const arbitrary = /^(.+?)-\[(.+)\](\/[\w.]+|\/\[[^\]]+\])?$/.exec(rest);
+    if (arbitrary) {
+        if (!UTILITIES[arbitrary[1]]) return undefined;
+        // A type hint (`text-[length:13px]`) is not part of the value
+        const hint = /^(color|length|percentage|number):/.exec(arbitrary[2]);
+        const valueStart = arbitrary[1].length + 2 + (hint ? hint[0].length : 0);
+        return {
+            variants,
+            important,
+            negative,
+            utility: arbitrary[1],
+            value: arbitrary[2].slice(hint ? hint[0].length : 0),
+            arbitrary: true,
+            valueOffset: offset + valueStart,
+            modifier: arbitrary[3] ?? ''
+        };
+    }
+
+    const modifierMatch = /\/[\w.]+$/.exec(rest);
+    const modifier = modifierMatch?.[0] ?? '';
+    const name = rest.slice(0, rest.length - modifier.length);
+    const utility = UTILITY_NAMES.find(u => name === u || name.startsWith(`${u}-`));
+    if (!utility) return undefined;
+
+    return {
+        variants,
+        important,
+        negative,
+        utility,
+        value: name === utility ? 'DEFAULT' : name.slice(utility.length + 1),
+        arbitrary: false,
+        valueOffset: -1,
+        modifier
+    };
+}
+
+/**
+ * CSS property an arbitrary value sets: `bg-[#fff]` → background-color, `text-[13px]` → font-size.
+ * Underscores in arbitrary values stand for spaces.
+ */
+export function getArbitraryProperty(parsed: TailwindClass): string | undefined {
+    const definition = UTILITIES[parsed.utility];
+    if (!definition) return undefined;
+    const isColor = !!parseColor(parsed.value.replace(/_/g, ' ')) || parsed.value.startsWith('#');
+    return isColor ? definition.color ?? definition.length : definition.length ?? definition.color;
+}
+
+/**
+ * Theme sections a named value of the utility may come from, in order of precedence
+ */
+export function getUtilitySections(utility: string): ThemeSection[] {
+    const definition = UTILITIES[utility];
+    if (!definition) return [];
+    const sections: ThemeSection[] = [];
+    if (definition.section) sections.push(definition.section);
+    if (definition.color) sections.push('colors');
+    return sections;
+}
+
+/**
+ * Write a class back with another value: a theme key, or an arbitrary value in brackets
+ */
+export function formatTailwindClass(parsed: TailwindClass, value: { key: string } | { arbitrary: string }): string {
+    const suffix = 'key' in value
+        ? (value.key === 'DEFAULT' ? '' : `-${value.key}`)
+        : `-[${value.arbitrary.replace(/ /g, '_')}]`;
+    return `${parsed.variants}${parsed.important ? '!' : ''}${parsed.negative ? '-' : ''}${parsed.utility}${suffix}${parsed.modifier}`;
+}
+
+/** End of the variant prefix: after the last `:` outside of brackets */
+function findVariantEnd(className: string): number {
+    let depth = 0;
+    let end = 0;
+    for (let i = 0; i < className.length; i++) {
+        const char = className[i];
+        if (char === '[') depth++;
+        else if (char === ']') depth--;
+        else if (char === ':' && depth === 0) end = i + 1;
+    }
+    return end;
+}
@@ -3,9 +3,65 @@ export type Token = {
     name: string; // semantic path: color.primary.base
     rawValue: any;
     value?: any; // normalized
+    modes?: Record<string, any>; // per-mode values: { light: '#fff', dark: '#000' }
+    description?: string;
+    deprecated?: boolean | string; // true or a deprecation message
+    extensions?: Record<string, any>;
+    set?: string; // Tokens Studio token set the token came from
     meta?: Record<string, any>;
 };
 
+// W3C Design Tokens Community Group (DTCG) value types
+export type DtcgDimension = string | { value: number; unit: 'px' | 'rem' };
+export type DtcgDuration = string | { value: number; unit: 'ms' | 's' };
+export type DtcgColor = string | { colorSpace: string; components?: Array<number | 'none'>; alpha?: number; hex?: string };
+export type DtcgCubicBezier = [number, number, number, number];
+
+export type DtcgShadowLayer = {
+    color: DtcgColor;
+    offsetX: DtcgDimension;
+    offsetY: DtcgDimension;
+    blur: DtcgDimension;
+    spread: DtcgDimension;
+    inset?: boolean;
+};
+
+export type DtcgBorder = {
+    color: DtcgColor;
+    width: DtcgDimension;
+    style: string | { dashArray: DtcgDimension[]; lineCap: string };
+};
+
+export type DtcgGradientStop = {
+    color: DtcgColor;
+    position: number;
+};
+
+export type DtcgTransition = {
+    duration: DtcgDuration;
+    delay: DtcgDuration;
+    timingFunction: DtcgCubicBezier;
+};
+
+export type DtcgTypography = {
+    fontFamily: string | string[];
+    fontSize: DtcgDimension;
+    fontWeight: number | string;
+    letterSpacing: DtcgDimension;
+    lineHeight: number;
+};
+
+/**
+ * Replace content[start, end) of a code file with `replacement`.
+ * Offsets are character offsets into CodeFile.content.
+ */
+export type TextEdit = {
+    file: string;
+    start: number;
+    end: number;
+    replacement: string;
+};
+
 export type Diagnostic = {
     ruleId: string;
     message: string;
@@ -18,14 +74,41 @@ export type Diagnostic = {
     problem?: string;
     reason?: string;
     suggestedToken?: string;
+    candidates?: Array<{ tokenName: string; distance: number }>; // closest tokens first, e.g. by color difference
     fixedCode?: string;
+    edits?: TextEdit[]; // applied by `dslint fix`
     impact?: 'Low' | 'Medium' | 'High';
 };
 
 export type CodeFile = {
     path: string;
     content: string;
-    language: 'typescript' | 'css' | 'scss' | 'javascript';
+    language: 'typescript' | 'css' | 'scss' | 'javascript' | 'vue' | 'svelte' | 'astro' | 'html';
+    changedLines?: LineRange[]; // lines added or modified in the git diff the file was loaded from; only these are reported
+    previousPath?: string; // path before a rename or copy in the git diff the file was loaded from
+};
+
+/**
+ * 1-based lines `start` to `end`, both included
+ */
+export type LineRange = {
+    start: number;
+    end: number;
+};
+
+/**
+ * A CSS declaration, or a style property written in JS/TS, found in a code file
+ */
+export type StyleDeclaration = {
+    property: string; // CSS property in kebab-case: background-color
+    value: string; // value text exactly as written in the source
+    line: number; // 1-based position where the value starts
+    column: number;
+    offset: number; // character offset of the value in CodeFile.content
+    utility?: { className: string; offset: number }; // Tailwind class holding the value as an arbitrary value: bg-[#1a73e8]
+    implicitUnit?: string; // unit of a JS number value the runtime appends: px for `style={{ padding: 12 }}`
+    numeric?: boolean; // the value is a JS number rather than a string: `{ fontWeight: 700 }`
+    block?: number; // offset of the CSS rule or object literal holding the declaration; shared by its sibling declarations
 };
 
 export type LintContext = {
@@ -0,0 +1,19 @@
+export {
+    parseTypographyValue,
+    parseTypographyValues,
+    isSameTypographyValue,
+    getTypographyDifference,
+    TYPOGRAPHY_PROPERTIES,
+    TYPOGRAPHY_CSS_PROPERTIES,
+    FONT_WEIGHT_ALIASES,
+    type TypographyProperty,
+    type TypographyValues,
+    type TypographyLength
+} from './parse';
+export {
+    createTypographyScale,
+    findTypographyToken,
+    findNearestTypographyValue,
+    type TypographyScale,
+    type TypographyMatch
+} from './scale';
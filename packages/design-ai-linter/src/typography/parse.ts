@@ -0,0 +1,182 @@
+import { parseDimension, toPixels, DimensionContext } from '../dimension';
+
+/** Properties of a composite typography token */
+export type TypographyProperty = 'fontFamily' | 'fontSize' | 'fontWeight' | 'lineHeight' | 'letterSpacing';
+
+export const TYPOGRAPHY_PROPERTIES: readonly TypographyProperty[] = ['fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing'];
+
+/** CSS property of each typography property */
+export const TYPOGRAPHY_CSS_PROPERTIES: Record<TypographyProperty, string> = {
+    fontFamily: 'font-family',
+    fontSize: 'font-size',
+    fontWeight: 'font-weight',
+    lineHeight: 'line-height',
+    letterSpacing: 'letter-spacing'
+};
+
+/** A length in px, or a multiple of the font size (em, %, unitless line heights) */
+export type TypographyLength = {
+    value: number;
+    relative: boolean;
+};
+
+/** Typography values comparable whatever unit or syntax they were written in */
+export type TypographyValues = {
+    /** Families in order, unquoted and lowercase */
+    fontFamily?: string[];
+    /** In px */
+    fontSize?: number;
+    fontWeight?: number;
+    lineHeight?: TypographyLength;
+    letterSpacing?: TypographyLength;
+};
+
+/** Named font weights of the DTCG spec */
+export const FONT_WEIGHT_ALIASES: Record<string, number> = {
+    'thin': 100, 'hairline': 100,
+    'extra-light': 200, 'ultra-light': 200,
+    'light': 300,
+    'normal': 400, 'regular': 400, 'book': 400,
+    'medium': 500,
+    'semi-bold': 600, 'demi-bold': 600,
+    'bold': 700,
+    'extra-bold': 800, 'ultra-bold': 800,
+    'black': 900, 'heavy': 900,
+    'extra-black': 950, 'ultra-black': 950
+};
+
+/** Aliases without separators, so `SemiBold` and `Semi Bold` (as exported by Figma) resolve too */
+const COMPACT_FONT_WEIGHTS = new Map(
+    Object.entries(FONT_WEIGHT_ALIASES).map(([name, weight]) => [name.replace(/-/g, ''), weight])
+);
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Parse the value of one typography property, from a token or from a CSS declaration
+ * @returns undefined for keywords (`normal`, `inherit`), references and anything else that isn't a plain value
+ */
+export function parseTypographyValue<P extends TypographyProperty>(
+    property: P,
+    value: unknown,
+    context: DimensionContext
+): TypographyValues[P] | undefined {
+    if (typeof value === 'string' && /\bvar\(|\{/.test(value)) return undefined;
+
+    switch (property) {
+        case 'fontFamily':
+            return parseFontFamily(value) as TypographyValues[P];
+        case 'fontSize': {
+            const dimension = parseDimension(value);
+            return (dimension && toPixels(dimension, context)) as TypographyValues[P];
+        }
+        case 'fontWeight':
+            return parseFontWeight(value) as TypographyValues[P];
+        default:
+            return parseTypographyLength(property, value, context) as TypographyValues[P];
+    }
+}
+
+/**
+ * Parse every typography property of a composite token value
+ */
+export function parseTypographyValues(value: Record<string, unknown>, context: DimensionContext): TypographyValues {
+    const values: TypographyValues = {};
+    for (const property of TYPOGRAPHY_PROPERTIES) {
+        const parsed = parseTypographyValue(property, value[property], context);
+        if (parsed !== undefined) (values as Record<string, unknown>)[property] = parsed;
+    }
+    return values;
+}
+
+/**
+ * Whether a raw value equals a token value. Relative and px lengths are compared through the font size when it is known.
+ */
+export function isSameTypographyValue<P extends TypographyProperty>(
+    property: P,
+    a: NonNullable<TypographyValues[P]>,
+    b: NonNullable<TypographyValues[P]>,
+    fontSize?: number
+): boolean {
+    const difference = getTypographyDifference(property, a, b, fontSize);
+    return difference !== undefined && difference < (isRelativePair(a, b) ? 0.001 : 0.01);
+}
+
+/**
+ * How far apart two values of a property are, in px for lengths and in weight units for font weights
+ * @returns 0 or undefined for font families, which are equal or not comparable
+ */
+export function getTypographyDifference<P extends TypographyProperty>(
+    property: P,
+    a: NonNullable<TypographyValues[P]>,
+    b: NonNullable<TypographyValues[P]>,
+    fontSize?: number
+): number | undefined {
+    if (property === 'fontFamily') {
+        // Fallbacks differ between code and tokens; the primary family decides
+        return (a as string[])[0] === (b as string[])[0] ? 0 : undefined;
+    }
+    if (typeof a === 'number' && typeof b === 'number') {
+        return Math.abs(a - b);
+    }
+
+    const lengthA = a as TypographyLength;
+    const lengthB = b as TypographyLength;
+    if (lengthA.relative === lengthB.relative) {
+        return Math.abs(lengthA.value - lengthB.value);
+    }
+    if (fontSize === undefined) return undefined;
+    const toPx = (length: TypographyLength) => length.relative ? length.value * fontSize : length.value;
+    return Math.abs(toPx(lengthA) - toPx(lengthB));
+}
+
+function isRelativePair(a: unknown, b: unknown): boolean {
+    return (a as TypographyLength).relative === true && (b as TypographyLength).relative === true;
+}
+
+function parseFontFamily(value: unknown): string[] | undefined {
+    const families = Array.isArray(value)
+        ? value.map(String)
+        : typeof value === 'string' ? value.split(',') : [];
+    const normalized = families.map(family => family.trim().replace(/^(['"])(.*)\1$/, '$2').trim().toLowerCase());
+    return normalized.length > 0 && normalized.every(Boolean) && !CSS_WIDE_KEYWORDS.has(normalized[0])
+        ? normalized
+        : undefined;
+}
+
+function parseFontWeight(value: unknown): number | undefined {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return undefined;
+
+    const text = value.trim().toLowerCase();
+    if (NUMBER_PATTERN.test(text)) return parseFloat(text);
+    // Figma style names like "Bold Italic"
+    return COMPACT_FONT_WEIGHTS.get(text.replace(/\bitalic\b|[\s_-]/g, ''));
+}
+
+/**
+ * Line heights and letter spacings: unitless line heights, em and % are relative to the font size.
+ * Plain numbers are px for letter spacing (as exported by Figma) and a multiple for line height (as in CSS).
+ */
+function parseTypographyLength(
+    property: 'lineHeight' | 'letterSpacing',
+    value: unknown,
+    context: DimensionContext
+): TypographyLength | undefined {
+    const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+    if (text === undefined) return undefined;
+
+    if (NUMBER_PATTERN.test(text)) {
+        return { value: parseFloat(text), relative: property === 'lineHeight' };
+    }
+
+    const dimension = parseDimension(text);
+    if (!dimension) return undefined;
+    if (dimension.unit === 'em') return { value: dimension.value, relative: true };
+    if (dimension.unit === '%') return { value: dimension.value / 100, relative: true };
+
+    const pixels = toPixels(dimension, context);
+    return pixels === undefined ? undefined : { value: pixels, relative: false };
+}
+
+const CSS_WIDE_KEYWORDS = new Set(['inherit', 'initial', 'unset', 'revert', 'revert-layer']);
@@ -0,0 +1,125 @@
+import { Token } from '../types';
+import { DimensionContext } from '../dimension';
+import {
+    TypographyProperty,
+    TypographyValues,
+    TYPOGRAPHY_PROPERTIES,
+    parseTypographyValue,
+    parseTypographyValues,
+    isSameTypographyValue,
+    getTypographyDifference
+} from './parse';
+
+type ScaleEntry = {
+    token: Token;
+    values: TypographyValues;
+    /** A composite typography token rather than a token for one property */
+    composite: boolean;
+};
+
+export type TypographyScale = {
+    entries: ScaleEntry[];
+    /** Properties at least one token defines; the others have no scale to check against */
+    properties: Set<TypographyProperty>;
+};
+
+export type TypographyMatch = {
+    token: Token;
+    composite: boolean;
+    /** 0 for an exact match */
+    difference: number;
+};
+
+/** Token types and names of single-property typography tokens (Tokens Studio, DTCG and common naming) */
+const PROPERTY_TOKEN_PATTERNS: Record<TypographyProperty, RegExp> = {
+    fontFamily: /font-?famil(y|ies)|typography\.family/i,
+    fontSize: /font-?sizes?|typography\.size/i,
+    fontWeight: /font-?weights?|typography\.weight/i,
+    lineHeight: /line-?heights?|leading/i,
+    letterSpacing: /letter-?spacing|tracking/i
+};
+
+/**
+ * Index the typography tokens: composite tokens with their properties,
+ * and single-property tokens recognized by their type or name (`fontSizes`, `font.size.md`, `typography.size.md`)
+ */
+export function createTypographyScale(tokens: Token[], context: DimensionContext): TypographyScale {
+    const entries: ScaleEntry[] = [];
+    const properties = new Set<TypographyProperty>();
+
+    for (const token of tokens) {
+        const value = token.value ?? token.rawValue;
+        let values: TypographyValues = {};
+        let composite = false;
+
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            values = parseTypographyValues(value, context);
+            composite = true;
+        } else {
+            const property = TYPOGRAPHY_PROPERTIES.find(p => PROPERTY_TOKEN_PATTERNS[p].test(token.type) || PROPERTY_TOKEN_PATTERNS[p].test(token.name));
+            const parsed = property && parseTypographyValue(property, value, context);
+            if (property && parsed !== undefined) (values as Record<string, unknown>)[property] = parsed;
+        }
+
+        const defined = TYPOGRAPHY_PROPERTIES.filter(p => values[p] !== undefined);
+        if (defined.length === 0) continue;
+        defined.forEach(p => properties.add(p));
+        entries.push({ token, values, composite });
+    }
+
+    return { entries, properties };
+}
+
+/**
+ * Find the composite token whose values match every value of a declaration group.
+ * Among several, the token defining the fewest other properties wins.
+ */
+export function findTypographyToken(group: TypographyValues, scale: TypographyScale): Token | undefined {
+    const groupProperties = TYPOGRAPHY_PROPERTIES.filter(p => group[p] !== undefined);
+    let best: { token: Token; extra: number } | undefined;
+
+    for (const entry of scale.entries) {
+        if (!entry.composite) continue;
+        const fontSize = group.fontSize ?? entry.values.fontSize;
+        const matches = groupProperties.every(property => {
+            const tokenValue = entry.values[property];
+            return tokenValue !== undefined && isSameTypographyValue(property, group[property]!, tokenValue, fontSize);
+        });
+        if (!matches) continue;
+
+        const extra = TYPOGRAPHY_PROPERTIES.filter(p => entry.values[p] !== undefined).length - groupProperties.length;
+        if (!best || extra < best.extra) best = { token: entry.token, extra };
+    }
+
+    return best?.token;
+}
+
+/**
+ * Find the token closest to one typography value: single-property tokens are preferred over
+ * a property of a composite token at the same distance
+ * @param fontSize font size in px the value is used with, to compare relative and px lengths
+ */
+export function findNearestTypographyValue<P extends TypographyProperty>(
+    property: P,
+    value: NonNullable<TypographyValues[P]>,
+    scale: TypographyScale,
+    fontSize?: number
+): TypographyMatch | undefined {
+    let best: TypographyMatch | undefined;
+
+    for (const entry of scale.entries) {
+        const tokenValue = entry.values[property];
+        if (tokenValue === undefined) continue;
+
+        const difference = isSameTypographyValue(property, value, tokenValue, fontSize ?? entry.values.fontSize)
+            ? 0
+            : getTypographyDifference(property, value, tokenValue, fontSize ?? entry.values.fontSize);
+        if (difference === undefined) continue;
+
+        const better = !best || difference < best.difference ||
+            (difference === best.difference && best.composite && !entry.composite);
+        if (better) best = { token: entry.token, composite: entry.composite, difference };
+    }
+
+    return best;
+}
@@ -0,0 +1,367 @@
+import { describe, it, expect } from 'vitest';
+import { execSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+    extractRawColors,
+    extractRawPixels,
+    getCodeFileLanguage,
+    parseDiffChangedLines,
+    loadCodeFilesFromGitDiff
+} from '../../src/adapters/codeFileAdapter';
+import { runLintPipeline } from '../../src/engine/pipeline';
+
+describe('codeFileAdapter', () => {
+    describe('CSS / SCSS', () => {
+        it('should ignore block comments, strings, urls and custom property definitions', () => {
+            const css = [
+                '/* brand: #ff0000;',
+                '   padding: 12px */',
+                ':root { --brand: #1a73e8; }',
+                '.icon {',
+                '  background: url("/img/#ff0000.svg") no-repeat;',
+                '  fill: url(#abc123);',
+                '  content: "#fff";',
+                '  color: #123456;',
+                '}'
+            ].join('\n');
+
+            expect(extractRawColors(css, 'css')).toEqual([
+                { value: '#123456', property: 'color', line: 8, column: 10, offset: css.indexOf('#123456') }
+            ]);
+            expect(extractRawPixels(css, 'css')).toEqual([]);
+        });
+
+        it('should report px next to var() on the same line', () => {
+            const css = '.card { margin: var(--space-md) 24px; padding: var(--space, 8px); }';
+
+            const pixels = extractRawPixels(css, 'css');
+
+            expect(pixels.map(p => p.value)).toEqual(['24px']);
+            expect(pixels[0]).toMatchObject({ property: 'margin', line: 1, column: css.indexOf('24px') + 1 });
+        });
+
+        it('should report positions inside multi-line values', () => {
+            const css = '.a {\n  box-shadow:\n    0 1px 2px rgba(0, 0, 0, 0.2),\n    0 4px 8px #0000001a;\n}';
+
+            const colors = extractRawColors(css, 'css');
+
+            expect(colors).toEqual([
+                { value: 'rgba(0, 0, 0, 0.2)', property: 'box-shadow', line: 3, column: 15, offset: css.indexOf('rgba') },
+                { value: '#0000001a', property: 'box-shadow', line: 4, column: 15, offset: css.indexOf('#0000001a') }
+            ]);
+            expect(extractRawPixels(css, 'css').map(p => `${p.value}@${p.line}:${p.column}`)).toEqual([
+                '1px@3:7', '2px@3:11', '4px@4:7', '8px@4:11'
+            ]);
+        });
+
+        it('should find every CSS Color 4 syntax', () => {
+            const css = [
+                '.a {',
+                '  color: #FFF8;',
+                '  background: linear-gradient(oklch(70% 0.1 250), hwb(120 10% 20% / 0.5)) rebeccapurple;',
+                '  border-color: color(display-p3 1 0.5 0) lab(50% 40 -20);',
+                '  outline: 1px solid hsl(210.5deg 50.2% 40.1%);',
+                '  animation-name: tan;',
+                '  fill: transparent;',
+                '  stroke: rgb(var(--rgb) / 50%);',
+                '}'
+            ].join('\n');
+
+            expect(extractRawColors(css, 'css').map(c => c.value)).toEqual([
+                '#FFF8',
+                'oklch(70% 0.1 250)',
+                'hwb(120 10% 20% / 0.5)',
+                'rebeccapurple',
+                'color(display-p3 1 0.5 0)',
+                'lab(50% 40 -20)',
+                'hsl(210.5deg 50.2% 40.1%)'
+            ]);
+        });
+
+        it('should parse SCSS line comments, nesting and variables', () => {
+            const scss = [
+                '$gap: 16px;',
+                '// color: #ff0000;',
+                '.list {',
+                '  .item { margin: -8px; color: darken(#336699, 10%); }',
+                '}'
+            ].join('\n');
+
+            expect(extractRawColors(scss, 'scss').map(c => c.value)).toEqual(['#336699']);
+            expect(extractRawPixels(scss, 'scss')).toEqual([
+                { value: '8px', property: 'margin', line: 4, column: 20, offset: scss.indexOf('8px') }
+            ]);
+        });
+    });
+
+    describe('TypeScript / TSX', () => {
+        it('should only report values of style properties', () => {
+            const tsx = [
+                "const ICON_ID = '#a1b2c3';",
+                "const link = 'https://example.com/#ffffff';",
+                '// const legacy = { color: "#000000" };',
+                'export const Card = () => (',
+                "    <svg><use href=\"#abcdef\" /><div style={{ backgroundColor: '#ff0000', padding: '12px 8px' }} /></svg>",
+                ');'
+            ].join('\n');
+
+            const colors = extractRawColors(tsx, 'typescript', 'Card.tsx');
+            const pixels = extractRawPixels(tsx, 'typescript', 'Card.tsx');
+
+            expect(colors).toEqual([
+                { value: '#ff0000', property: 'background-color', line: 5, column: tsx.split('\n')[4].indexOf('#ff0000') + 1, offset: tsx.indexOf('#ff0000') }
+            ]);
+            expect(pixels.map(p => `${p.property}:${p.value}`)).toEqual(['padding:12px', 'padding:8px']);
+        });
+
+        it('should read quoted and kebab-case keys', () => {
+            const ts = "export const styles = { 'border-color': '#ccc', \"marginTop\": '4px' };";
+
+            expect(extractRawColors(ts, 'typescript', 'styles.ts').map(c => c.property)).toEqual(['border-color']);
+            expect(extractRawPixels(ts, 'typescript', 'styles.ts').map(p => p.property)).toEqual(['margin-top']);
+        });
+    });
+
+    describe('CSS-in-JS', () => {
+        it('should read numbers of style objects as px, except unitless properties and zero', () => {
+            const tsx = [
+                "import { style } from '@vanilla-extract/css';",
+                'export const root = style({ padding: 12, lineHeight: 1.5, zIndex: 10, margin: 0 });',
+                'export const A = () => <div style={{ marginTop: -8, opacity: 0.5, fontWeight: 600 }} />;',
+                'const chart = { width: 400 };'
+            ].join('\n');
+
+            const pixels = extractRawPixels(tsx, 'typescript', 'A.tsx');
+
+            expect(pixels.map(p => `${p.property}:${p.value}`)).toEqual(['padding:12', 'margin-top:8']);
+            expect(pixels[1]).toMatchObject({ line: 3, column: tsx.split('\n')[2].indexOf('8') + 1, implicitUnit: 'px' });
+        });
+
+        it('should map sx shorthands and leave sx numbers to the theme scale', () => {
+            const tsx = "export const A = () => <Box sx={{ p: 2, mt: '4px', bgcolor: '#fafafa', color: 'text.primary' }} />;";
+
+            expect(extractRawPixels(tsx, 'typescript', 'A.tsx').map(p => `${p.property}:${p.value}`)).toEqual(['margin-top:4px']);
+            expect(extractRawColors(tsx, 'typescript', 'A.tsx').map(c => `${c.property}:${c.value}`)).toEqual(['background-color:#fafafa']);
+        });
+
+        it('should parse the CSS of styled-components and emotion templates around interpolations', () => {
+            const tsx = [
+                "import styled, { css } from 'styled-components';",
+                'const Button = styled.button<{ primary?: boolean }>`',
+                '  padding: 8px ${p => p.size}px;',
+                '  ${focusRing};',
+                '  color: ${p => p.color};',
+                '  &:hover { background: #1a73e8; }',
+                '  ${p => p.primary && css`border: 1px solid #333;`}',
+                '`;',
+                "const Link = styled(Button).attrs({ as: 'a' })`margin: 4px;`;",
+                "const title = '${color: #000}';"
+            ].join('\n');
+
+            const colors = extractRawColors(tsx, 'typescript', 'Button.tsx');
+            const pixels = extractRawPixels(tsx, 'typescript', 'Button.tsx');
+
+            expect(colors.map(c => `${c.line}:${c.property}:${c.value}`)).toEqual(['6:background:#1a73e8', '7:border:#333']);
+            expect(colors[0].column).toBe(tsx.split('\n')[5].indexOf('#1a73e8') + 1);
+            expect(pixels.map(p => `${p.property}:${p.value}`)).toEqual(['padding:8px', 'border:1px', 'margin:4px']);
+        });
+    });
+
+    describe('Vue / Svelte / Astro / HTML', () => {
+        const at = (content: string, match: { line: number; column: number; value: string }) =>
+            content.split('\n')[match.line - 1].slice(match.column - 1, match.column - 1 + match.value.length);
+
+        it('should read style blocks, style attributes and style bindings of a Vue SFC', () => {
+            const vue = [
+                '<template>',
+                '  <div class="card" style="color: #333; margin: 4px" :style="{ padding: \'8px\' }">',
+                '    <!-- <p style="color: red"> -->',
+                '  </div>',
+                '</template>',
+                '<script setup lang="ts">',
+                "const accent = { borderColor: '#eee' };",
+                '</script>',
+                '<style scoped lang="scss">',
+                '.card { .title { color: #1a73e8; } gap: 12px; }',
+                '</style>'
+            ].join('\n');
+
+            const colors = extractRawColors(vue, 'vue', 'Card.vue');
+            const pixels = extractRawPixels(vue, 'vue', 'Card.vue');
+
+            expect(colors.map(c => `${c.line}:${c.property}:${c.value}`)).toEqual(['2:color:#333', '7:border-color:#eee', '10:color:#1a73e8']);
+            expect(pixels.map(p => `${p.line}:${p.property}:${p.value}`)).toEqual(['2:margin:4px', '2:padding:8px', '10:gap:12px']);
+            expect([...colors, ...pixels].every(match => at(vue, match) === match.value)).toBe(true);
+        });
+
+        it('should read Svelte style directives and skip interpolations in attributes', () => {
+            const svelte = [
+                '<script lang="ts">',
+                "  let size = '2px';",
+                '</script>',
+                '<div style:color="#123456" style="padding: {size}; margin: 6px" {...rest}></div>',
+                '<style>',
+                '  div { border: 1px solid #fff; }',
+                '</style>'
+            ].join('\n');
+
+            expect(extractRawColors(svelte, 'svelte').map(c => `${c.line}:${c.property}:${c.value}`)).toEqual(['4:color:#123456', '6:border:#fff']);
+            expect(extractRawPixels(svelte, 'svelte').map(p => `${p.property}:${p.value}`)).toEqual(['margin:6px', 'border:1px']);
+        });
+
+        it('should read the frontmatter and style objects of Astro pages and plain HTML', () => {
+            const astro = [
+                '---',
+                "const theme = { color: '#abcdef' };",
+                '---',
+                "<Card style={{ marginTop: '9px' }} />",
+                '<script>const ok = 1 < 2;</script>'
+            ].join('\n');
+            const html = '<!doctype html>\n<style>body { color: #000; }</style>\n<p style="padding: 3px">hi</p>';
+
+            expect(extractRawColors(astro, 'astro').map(c => `${c.line}:${c.column}:${c.value}`)).toEqual(['2:25:#abcdef']);
+            expect(extractRawPixels(astro, 'astro').map(p => `${p.line}:${p.column}:${p.value}`)).toEqual(['4:28:9px']);
+            expect(extractRawColors(html, 'html').map(c => c.value)).toEqual(['#000']);
+            expect(extractRawPixels(html, 'html').map(p => `${p.line}:${p.value}`)).toEqual(['3:3px']);
+        });
+
+        it('should detect the language of every analyzable extension', () => {
+            expect(['a.vue', 'b.svelte', 'c.astro', 'd.html', 'e.tsx', 'f.scss', 'g.sass', 'h.md'].map(getCodeFileLanguage))
+                .toEqual(['vue', 'svelte', 'astro', 'html', 'typescript', 'scss', undefined, undefined]);
+        });
+
+        it('should skip indented Sass and Less style blocks instead of parsing them as SCSS', () => {
+            const vue = [
+                '<style lang="sass">',
+                '.card',
+                '  color: #111',
+                '</style>',
+                '<style lang="less">',
+                '@gap: 4px;',
+                '.card { margin: @gap; color: #222; }',
+                '</style>',
+                '<style lang="scss">',
+                '.card { color: #333; }',
+                '</style>'
+            ].join('\n');
+
+            expect(extractRawColors(vue, 'vue', 'Card.vue').map(c => `${c.line}:${c.value}`)).toEqual(['10:#333']);
+        });
+    });
+
+    describe('git diff', () => {
+        it('should read the added and modified lines of each file from -U0 hunks', () => {
+            const diff = [
+                'diff --git a/src/a.css b/src/a.css',
+                '--- a/src/a.css',
+                '+++ b/src/a.css',
+                '@@ -3 +3 @@ .a {',
+                '-  color: red;',
+                '+++ not a header',
+                '@@ -10,0 +11,2 @@',
+                '+x',
+                '+y',
+                '@@ -20,3 +21,0 @@',
+                '-z',
+                'diff --git a/old.css b/old.css',
+                '--- a/old.css',
+                '+++ /dev/null',
+                '@@ -1,2 +0,0 @@',
+                '-a'
+            ].join('\n');
+
+            expect(parseDiffChangedLines(diff)).toEqual(new Map([
+                ['src/a.css', [{ start: 3, end: 3 }, { start: 11, end: 12 }]]
+            ]));
+        });
+
+        it('should only report the changed lines of staged files when asked to', async () => {
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-diff-'));
+            const git = (command: string) => execSync(`git -c user.name=dslint -c user.email=dslint@example.com ${command}`, { cwd: dir, stdio: 'pipe' });
+            try {
+                const legacy = ['.a {', '  color: #ff0000;', '}', '.b {', '  color: #00ff00;', '}'];
+                await fs.writeFile(path.join(dir, 'legacy.css'), legacy.join('\n'));
+                git('init -q');
+                git('add .');
+                git('commit -q -m legacy');
+
+                legacy.splice(4, 0, '  background: #0000ff;');
+                await fs.writeFile(path.join(dir, 'legacy.css'), legacy.join('\n'));
+                git('add .');
+
+                const lintStaged = async (changedLinesOnly: boolean) => (await runLintPipeline({
+                    config: { source: { path: './tokens.json' }, rules: {} },
+                    tokens: [{ type: 'color', name: 'color.primary', rawValue: '#1a73e8' }],
+                    files: { staged: true, changedLinesOnly },
+                    cwd: dir,
+                    ai: false
+                })).diagnostics.map(d => d.line);
+
+                expect(await lintStaged(false)).toEqual([2, 5, 6]);
+                expect(await lintStaged(true)).toEqual([5]);
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('should read staged files from the index and skip deleted files', async () => {
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-diff-'));
+            const git = (command: string) => execSync(`git -c user.name=dslint -c user.email=dslint@example.com ${command}`, { cwd: dir, stdio: 'pipe' });
+            try {
+                await fs.writeFile(path.join(dir, 'old-name.css'), '.a { color: #ff0000; }\n'.repeat(5));
+                await fs.writeFile(path.join(dir, 'removed.css'), '.b { color: #00ff00; }\n');
+                git('init -q');
+                git('add .');
+                git('commit -q -m initial');
+
+                git('mv old-name.css new-name.css');
+                git('rm -q removed.css');
+                await fs.writeFile(path.join(dir, 'added.css'), '.c { color: #0000ff; }\n');
+                git('add added.css');
+                // Unstaged edits are not part of the commit
+                await fs.writeFile(path.join(dir, 'added.css'), '.c { color: #123456; }\n');
+
+                const codeFiles = await loadCodeFilesFromGitDiff(dir, true, undefined, { changedLines: true });
+
+                expect(codeFiles.map(({ path, previousPath, changedLines }) => ({ path, previousPath, changedLines }))).toEqual([
+                    { path: 'added.css', previousPath: undefined, changedLines: [{ start: 1, end: 1 }] },
+                    { path: 'new-name.css', previousPath: 'old-name.css', changedLines: [] }
+                ]);
+                expect(codeFiles[0].content).toBe('.c { color: #0000ff; }\n');
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('should diff against the merge-base with since and never pass revisions as options', async () => {
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-diff-'));
+            const git = (command: string) => execSync(`git -c user.name=dslint -c user.email=dslint@example.com ${command}`, { cwd: dir, stdio: 'pipe' });
+            try {
+                await fs.writeFile(path.join(dir, 'base.css'), '.a { color: #ff0000; }\n');
+                git('init -q -b main');
+                git('add .');
+                git('commit -q -m base');
+                git('checkout -q -b feature');
+                await fs.writeFile(path.join(dir, 'feature.css'), '.b { color: #00ff00; }\n');
+                git('add .');
+                git('commit -q -m feature');
+                git('checkout -q main');
+                await fs.writeFile(path.join(dir, 'main-only.css'), '.c { color: #0000ff; }\n');
+                git('add .');
+                git('commit -q -m main');
+                git('checkout -q feature');
+
+                const sinceMain = await loadCodeFilesFromGitDiff(dir, undefined, undefined, { since: 'main' });
+                expect(sinceMain.map(codeFile => codeFile.path)).toEqual(['feature.css']);
+
+                const injected = await loadCodeFilesFromGitDiff(dir, undefined, '--output=/tmp/dslint-injected');
+                expect(injected).toEqual([]);
+                await expect(fs.access('/tmp/dslint-injected')).rejects.toThrow();
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+        });
+    });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import { parseDtcgTokens } from '../../src/adapters/dtcgAdapter';
+import { runStaticRules } from '../../src/engine/staticRunner';
+
+describe('dtcgAdapter', () => {
+    it('should inherit $type from the closest parent group', () => {
+        const tokens = parseDtcgTokens({
+            color: {
+                $type: 'color',
+                brand: {
+                    primary: { $value: '#1a73e8' }
+                }
+            },
+            size: {
+                $type: 'dimension',
+                opacity: {
+                    $type: 'number',
+                    half: { $value: 0.5 }
+                },
+                sm: { $value: '4px' }
+            }
+        });
+
+        expect(tokens.find(t => t.name === 'color.brand.primary')?.type).toBe('color');
+        expect(tokens.find(t => t.name === 'size.opacity.half')?.type).toBe('number');
+        expect(tokens.find(t => t.name === 'size.sm')?.type).toBe('dimension');
+    });
+
+    it('should let an explicit token $type override the group type', () => {
+        const tokens = parseDtcgTokens({
+            $type: 'dimension',
+            weight: { $value: 700, $type: 'fontWeight' }
+        });
+
+        expect(tokens[0].type).toBe('fontWeight');
+    });
+
+    it('should take the type of the aliased token when none is declared', () => {
+        const tokens = parseDtcgTokens({
+            base: {
+                blue: { $value: '#0000ff', $type: 'color' }
+            },
+            semantic: {
+                $type: 'dimension',
+                link: { $value: '{base.blue}' }
+            }
+        });
+
+        expect(tokens.find(t => t.name === 'semantic.link')).toMatchObject({
+            type: 'color',
+            value: '#0000ff'
+        });
+    });
+
+    it('should not loop on circular aliases without a $type', () => {
+        const tokens = parseDtcgTokens({ a: { $value: '{b}' }, b: { $value: '{a}' } });
+
+        expect(tokens.map(t => [t.name, t.type])).toEqual([['a', 'other'], ['b', 'other']]);
+        expect(tokens.every(t => t.meta?.aliasError?.type === 'circular')).toBe(true);
+    });
+
+    it('should read $description, $extensions and $deprecated', () => {
+        const tokens = parseDtcgTokens({
+            color: {
+                $type: 'color',
+                $deprecated: 'Use color.brand instead',
+                legacy: {
+                    $value: '#ff0000',
+                    $description: 'Old brand red',
+                    $extensions: { 'com.figma': { variableId: 'VariableID:1:2' } }
+                },
+                kept: { $value: '#00ff00', $deprecated: false }
+            }
+        });
+
+        const legacy = tokens.find(t => t.name === 'color.legacy');
+        expect(legacy).toMatchObject({
+            description: 'Old brand red',
+            deprecated: 'Use color.brand instead',
+            extensions: { 'com.figma': { variableId: 'VariableID:1:2' } }
+        });
+        expect(tokens.find(t => t.name === 'color.kept')?.deprecated).toBeUndefined();
+    });
+
+    it('should not treat $-prefixed properties on groups as tokens', () => {
+        const tokens = parseDtcgTokens({
+            color: {
+                $description: 'Colors',
+                $extensions: { vendor: { nested: { $value: 'ignored' } } },
+                red: { $value: '#ff0000', $type: 'color' }
+            }
+        });
+
+        expect(tokens.map(t => t.name)).toEqual(['color.red']);
+    });
+
+    it('should flag token names containing reserved characters for naming-convention', () => {
+        const tokens = parseDtcgTokens({
+            'bad.name': { $value: '#000', $type: 'color' },
+            '{bad}': { inner: { $value: '#000', $type: 'color' } },
+            good: { $value: '#000', $type: 'color' }
+        });
+
+        expect(tokens.filter(t => !t.meta?.nameError).map(t => t.name)).toEqual(['good']);
+        const diags = runStaticRules(tokens, { 'naming-convention': { severity: 'error', pattern: '.*' } });
+        expect(diags.map(d => d.tokenName)).toEqual(['bad.name', '{bad}.inner']);
+        expect(diags[0].message).toContain('reserved by the DTCG format');
+    });
+
+    it('should normalize object dimension, duration and color values', () => {
+        const tokens = parseDtcgTokens({
+            space: { $type: 'dimension', md: { $value: { value: 16, unit: 'px' } } },
+            motion: { $type: 'duration', fast: { $value: { value: 150, unit: 'ms' } } },
+            color: {
+                $type: 'color',
+                white: { $value: { colorSpace: 'srgb', components: [1, 1, 1] } },
+                overlay: { $value: { colorSpace: 'srgb', components: [0, 0, 0], alpha: 0.5 } },
+                wide: { $value: { colorSpace: 'display-p3', components: [1, 0, 0] } },
+                muted: { $value: { colorSpace: 'hsl', components: [210, 20, 50], alpha: 0.8 } },
+                accent: { $value: { colorSpace: 'oklch', components: [0.7, 0.1, 250] } }
+            }
+        });
+
+        expect(tokens.find(t => t.name === 'space.md')?.value).toBe('16px');
+        expect(tokens.find(t => t.name === 'motion.fast')?.value).toBe('150ms');
+        expect(tokens.find(t => t.name === 'color.white')?.value).toBe('#ffffff');
+        expect(tokens.find(t => t.name === 'color.overlay')?.value).toBe('#00000080');
+        expect(tokens.find(t => t.name === 'color.wide')?.value).toBe('color(display-p3 1 0 0)');
+        expect(tokens.find(t => t.name === 'color.muted')?.value).toBe('hsl(210 20% 50% / 0.8)');
+        expect(tokens.find(t => t.name === 'color.accent')?.value).toBe('oklch(0.7 0.1 250)');
+    });
+
+    it('should read color objects with only a hex or without components', () => {
+        const tokens = parseDtcgTokens({
+            color: {
+                $type: 'color',
+                brand: { $value: { colorSpace: 'srgb', hex: '#1A73E8' } },
+                broken: { $value: { colorSpace: 'srgb' } }
+            }
+        });
+
+        expect(tokens.find(t => t.name === 'color.brand')?.value).toBe('#1a73e8');
+        expect(tokens.find(t => t.name === 'color.broken')?.value).toEqual({ colorSpace: 'srgb' });
+    });
+
+    it('should resolve composite shadow, border, transition and typography values', () => {
+        const tokens = parseDtcgTokens({
+            color: { $type: 'color', shadow: { $value: '#00000026' } },
+            space: { $type: 'dimension', xs: { $value: { value: 2, unit: 'px' } } },
+            shadow: {
+                card: {
+                    $type: 'shadow',
+                    $value: [
+                        { color: '{color.shadow}', offsetX: '0px', offsetY: '{space.xs}', blur: '4px', spread: '0px' },
+                        { color: '#0000001a', offsetX: '0px', offsetY: '8px', blur: '16px', spread: '0px', inset: true }
+                    ]
+                }
+            },
+            border: {
+                focus: {
+                    $type: 'border',
+                    $value: { color: '#1a73e8', width: { value: 2, unit: 'px' }, style: 'solid' }
+                }
+            },
+            transition: {
+                emphasis: {
+                    $type: 'transition',
+                    $value: { duration: { value: 200, unit: 'ms' }, delay: '0ms', timingFunction: [0.5, 0, 1, 1] }
+                }
+            },
+            typography: {
+                heading: {
+                    $type: 'typography',
+                    $value: {
+                        fontFamily: ['Inter', 'sans-serif'],
+                        fontSize: { value: 24, unit: 'px' },
+                        fontWeight: 'semi-bold',
+                        letterSpacing: '0px',
+                        lineHeight: 1.25
+                    }
+                }
+            }
+        });
+
+        expect(tokens.find(t => t.name === 'shadow.card')?.value).toEqual([
+            { color: '#00000026', offsetX: '0px', offsetY: '2px', blur: '4px', spread: '0px' },
+            { color: '#0000001a', offsetX: '0px', offsetY: '8px', blur: '16px', spread: '0px', inset: true }
+        ]);
+        expect(tokens.find(t => t.name === 'border.focus')?.value).toEqual({ color: '#1a73e8', width: '2px', style: 'solid' });
+        expect(tokens.find(t => t.name === 'transition.emphasis')?.value).toEqual({
+            duration: '200ms',
+            delay: '0ms',
+            timingFunction: [0.5, 0, 1, 1]
+        });
+        expect(tokens.find(t => t.name === 'typography.heading')?.value).toEqual({
+            fontFamily: ['Inter', 'sans-serif'],
+            fontSize: '24px',
+            fontWeight: 600,
+            letterSpacing: '0px',
+            lineHeight: 1.25
+        });
+    });
+
+    it('should resolve gradient stop colors through aliases', () => {
+        const tokens = parseDtcgTokens({
+            color: { $type: 'color', start: { $value: '#ff0000' } },
+            gradient: {
+                hero: {
+                    $type: 'gradient',
+                    $value: [
+                        { color: '{color.start}', position: 0 },
+                        { color: { colorSpace: 'srgb', components: [0, 0, 1] }, position: 1 }
+                    ]
+                }
+            }
+        });
+
+        expect(tokens.find(t => t.name === 'gradient.hero')?.value).toEqual([
+            { color: '#ff0000', position: 0 },
+            { color: '#0000ff', position: 1 }
+        ]);
+    });
+});
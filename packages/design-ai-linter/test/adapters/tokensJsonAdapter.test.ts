@@ -94,4 +94,92 @@ describe('tokensJsonAdapter', () => {
         expect(colorToken?.type).toBe('color');
         expect(spacingToken?.type).toBe('other');
     });
+
+    it('should resolve alias chains into value and keep the chain in meta', async () => {
+        const json = {
+            color: {
+                brand: {
+                    500: { value: '#1a73e8', type: 'color' }
+                },
+                primary: { value: '{color.brand.500}' },
+                action: { value: '{color.primary}' }
+            }
+        };
+        mockRead.mockResolvedValue(JSON.stringify(json));
+
+        const tokens = await loadTokensFromJson('dummy.json');
+        const action = tokens.find(t => t.name === 'color.action');
+
+        expect(action).toMatchObject({
+            type: 'color',
+            rawValue: '{color.primary}',
+            value: '#1a73e8'
+        });
+        expect(action?.meta?.aliasChain).toEqual(['color.primary', 'color.brand.500']);
+    });
+
+    it('should resolve aliases inside composite values', async () => {
+        const json = {
+            font: {
+                size: { md: { value: '16px' } }
+            },
+            typography: {
+                body: {
+                    value: { fontFamily: 'Inter', fontSize: '{font.size.md}' },
+                    type: 'typography'
+                }
+            }
+        };
+        mockRead.mockResolvedValue(JSON.stringify(json));
+
+        const tokens = await loadTokensFromJson('dummy.json');
+        const body = tokens.find(t => t.name === 'typography.body');
+
+        expect(body?.value).toEqual({ fontFamily: 'Inter', fontSize: '16px' });
+    });
+
+    it('should record circular and dangling references', async () => {
+        const json = {
+            color: {
+                a: { value: '{color.b}' },
+                b: { value: '{color.a}' },
+                c: { value: '{color.missing}' }
+            }
+        };
+        mockRead.mockResolvedValue(JSON.stringify(json));
+
+        const tokens = await loadTokensFromJson('dummy.json');
+        const a = tokens.find(t => t.name === 'color.a');
+        const c = tokens.find(t => t.name === 'color.c');
+
+        expect(a?.value).toBeUndefined();
+        expect(a?.meta?.aliasError).toMatchObject({ type: 'circular', chain: ['color.a', 'color.b', 'color.a'] });
+        expect(c?.meta?.aliasError).toMatchObject({ type: 'dangling', reference: 'color.missing' });
+    });
+
+    it('should read per-mode values and resolve aliases in the same mode', async () => {
+        const json = {
+            base: {
+                white: { value: '#ffffff', type: 'color' },
+                black: { value: '#000000', type: 'color' }
+            },
+            surface: {
+                value: '{bg}',
+                type: 'color',
+                modes: { light: '{bg}', dark: '{bg}' }
+            },
+            bg: {
+                value: '{base.white}',
+                type: 'color',
+                modes: { light: '{base.white}', dark: '{base.black}' }
+            }
+        };
+        mockRead.mockResolvedValue(JSON.stringify(json));
+
+        const tokens = await loadTokensFromJson('dummy.json');
+        const surface = tokens.find(t => t.name === 'surface');
+
+        expect(surface?.value).toBe('#ffffff');
+        expect(surface?.modes).toEqual({ light: '#ffffff', dark: '#000000' });
+    });
 });
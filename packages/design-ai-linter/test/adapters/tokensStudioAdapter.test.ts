@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseTokensStudio, parseTokensStudioThemes } from '../../src/adapters/tokensStudioAdapter';
+import { loadTokensFromJson } from '../../src/adapters/tokensJsonAdapter';
+import fs from 'fs/promises';
+
+vi.mock('fs/promises');
+
+describe('tokensStudioAdapter', () => {
+    const studioExport = {
+        core: {
+            color: {
+                blue: { value: '#1a73e8', type: 'color' },
+                gray: { value: '#202124', type: 'color' },
+                white: { value: '#ffffff', type: 'color' }
+            }
+        },
+        light: {
+            bg: { value: '{color.white}', type: 'color' },
+            text: { value: '{color.gray}', type: 'color' }
+        },
+        dark: {
+            bg: { value: '{color.gray}', type: 'color' },
+            text: { value: '{color.white}', type: 'color' }
+        },
+        brand: {
+            color: {
+                blue: { value: '#0b57d0', type: 'color' }
+            }
+        },
+        $themes: [
+            { id: 't1', name: 'Light', selectedTokenSets: { core: 'source', light: 'enabled', dark: 'disabled' } },
+            { id: 't2', name: 'Dark', selectedTokenSets: { core: 'source', light: 'disabled', dark: 'enabled' } },
+            { id: 't3', name: 'Brand', selectedTokenSets: { core: 'enabled', brand: 'enabled' } }
+        ],
+        $metadata: {
+            tokenSetOrder: ['core', 'light', 'dark', 'brand']
+        }
+    };
+
+    it('should never emit $themes or $metadata as tokens', () => {
+        const tokens = parseTokensStudio(studioExport);
+        expect(tokens.some(t => t.name.startsWith('$'))).toBe(false);
+    });
+
+    it('should only return tokens of enabled sets and resolve aliases against source sets', () => {
+        const tokens = parseTokensStudio(studioExport, 'Dark');
+
+        expect(tokens.map(t => t.name)).toEqual(['bg', 'text']);
+        expect(tokens.find(t => t.name === 'bg')).toMatchObject({ value: '#202124', set: 'dark' });
+    });
+
+    it('should default to the first theme', () => {
+        const tokens = parseTokensStudio(studioExport);
+        expect(tokens.find(t => t.name === 'bg')).toMatchObject({ value: '#ffffff', set: 'light' });
+    });
+
+    it('should let later sets in tokenSetOrder override earlier ones', () => {
+        const tokens = parseTokensStudio(studioExport, 'Brand');
+        expect(tokens.find(t => t.name === 'color.blue')).toMatchObject({ value: '#0b57d0', set: 'brand' });
+    });
+
+    it('should build the token list for every theme', () => {
+        const themes = parseTokensStudioThemes(studioExport);
+
+        expect(Array.from(themes.keys())).toEqual(['Light', 'Dark', 'Brand']);
+        expect(themes.get('Light')?.find(t => t.name === 'text')?.value).toBe('#202124');
+        expect(themes.get('Dark')?.find(t => t.name === 'text')?.value).toBe('#ffffff');
+    });
+
+    it('should throw for an unknown theme', () => {
+        expect(() => parseTokensStudio(studioExport, 'Sepia')).toThrow(/Sepia/);
+    });
+
+    it('should activate every set in order when the export has no themes', () => {
+        const tokens = parseTokensStudio({
+            base: { space: { sm: { value: '4px' } } },
+            overrides: { space: { sm: { value: '6px' } } },
+            $metadata: { tokenSetOrder: ['base', 'overrides'] }
+        });
+
+        expect(tokens).toHaveLength(1);
+        expect(tokens[0]).toMatchObject({ name: 'space.sm', value: '6px', set: 'overrides' });
+    });
+
+    it('should be picked up by loadTokensFromJson', async () => {
+        vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(studioExport));
+
+        const tokens = await loadTokensFromJson('dummy.json', 'Dark');
+        expect(tokens.map(t => t.name)).toEqual(['bg', 'text']);
+    });
+});
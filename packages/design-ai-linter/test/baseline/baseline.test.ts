@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createBaseline, applyBaseline, pruneBaseline, writeBaseline, Baseline } from '../../src/baseline';
+import { runLintPipeline } from '../../src/engine/pipeline';
+import { runStaticRules } from '../../src/engine/staticRunner';
+import { Token, CodeFile } from '../../src/types';
+
+const tokens: Token[] = [
+    { type: 'color', name: 'color.primary', rawValue: '#1a73e8' }
+];
+const rules = { 'raw-color': { severity: 'error' as const, enabled: true } };
+
+function lintCss(content: string): { codeFiles: CodeFile[]; diagnostics: ReturnType<typeof runStaticRules> } {
+    const codeFiles: CodeFile[] = [{ path: 'src/Card.css', language: 'css', content }];
+    return { codeFiles, diagnostics: runStaticRules(tokens, rules, codeFiles) };
+}
+
+describe('baseline', () => {
+    const legacy = '.card {\n  color: #ff0000;\n  background: #00ff00;\n}\n.badge { color: #ff0000; }';
+
+    it('should keep matching diagnostics after lines move', () => {
+        const before = lintCss(legacy);
+        const baseline = createBaseline(before.diagnostics, before.codeFiles);
+
+        const after = lintCss(`/* header */\n\n${legacy}`);
+        const result = applyBaseline(after.diagnostics, after.codeFiles, baseline);
+
+        expect(result.diagnostics).toEqual([]);
+        expect(result.baselined).toHaveLength(3);
+        expect(result.fixed).toEqual([]);
+    });
+
+    it('should report new diagnostics and fixed entries, and prune only the fixed ones', () => {
+        const before = lintCss(legacy);
+        const baseline = createBaseline(before.diagnostics, before.codeFiles);
+
+        const after = lintCss('.card {\n  color: #ff0000;\n  background: var(--color-primary);\n}\n.badge { color: #ff0000; }\n.new { color: #ff0000; }');
+        const result = applyBaseline(after.diagnostics, after.codeFiles, baseline);
+
+        expect(result.diagnostics.map(d => d.line)).toEqual([6]);
+        expect(result.fixed.map(entry => [entry.file, entry.message, entry.count])).toEqual([
+            ['src/Card.css', expect.stringContaining('#00ff00'), 1]
+        ]);
+
+        const pruned = pruneBaseline(baseline, result.fixed);
+        expect(Object.values(pruned.entries).map(entry => entry.count)).toEqual([1, 1]);
+        expect(applyBaseline(after.diagnostics, after.codeFiles, pruned).diagnostics.map(d => d.line)).toEqual([6]);
+    });
+
+    it('should count repeated fingerprints', () => {
+        const before = lintCss('.a { color: #ff0000; }\n.a { color: #ff0000; }');
+        const baseline = createBaseline(before.diagnostics, before.codeFiles);
+        expect(Object.values(baseline.entries).map(entry => entry.count)).toEqual([2]);
+
+        const after = lintCss('.a { color: #ff0000; }\n.a { color: #ff0000; }\n.a { color: #ff0000; }');
+        expect(applyBaseline(after.diagnostics, after.codeFiles, baseline).diagnostics.map(d => d.line)).toEqual([3]);
+    });
+
+    it('should leave baselined diagnostics out of a pipeline run', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-baseline-'));
+        try {
+            const { codeFiles, diagnostics } = lintCss(legacy);
+            const baselinePath = path.join(dir, 'baseline', '.dslint-baseline.json');
+            await writeBaseline(baselinePath, createBaseline(diagnostics, codeFiles, { cwd: dir, baseDir: path.dirname(baselinePath) }));
+
+            const baselineFile = JSON.parse(await fs.readFile(baselinePath, 'utf-8')) as Baseline;
+            expect(Object.values(baselineFile.entries).map(entry => entry.file)).toContain('../src/Card.css');
+
+            const result = await runLintPipeline({
+                config: { source: { path: './tokens.json' }, rules },
+                tokens,
+                files: codeFiles,
+                cwd: dir,
+                ai: false,
+                baseline: baselinePath
+            });
+
+            expect(result.diagnostics).toEqual([]);
+            expect(result.baseline?.baselined).toHaveLength(3);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
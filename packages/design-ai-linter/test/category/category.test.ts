@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { filterTokensByProperty, resolvePropertyTokens, DEFAULT_PROPERTY_TOKENS } from '../../src/category';
+import { runStaticRules } from '../../src/engine/staticRunner';
+import { Token, CodeFile } from '../../src/types';
+
+const tokens: Token[] = [
+    { type: 'spacing', name: 'spacing.md', rawValue: '16px' },
+    { type: 'dimension', name: 'typography.size.lg', rawValue: '18px' },
+    { type: 'borderRadius', name: 'radius.md', rawValue: '6px' },
+    { type: 'color', name: 'color.text.primary', rawValue: '#202124' },
+    { type: 'color', name: 'color.background.inverse', rawValue: '#202124' },
+    { type: 'color', name: 'color.background.surface', rawValue: '#ffffff' }
+];
+
+describe('category', () => {
+    describe('filterTokensByProperty', () => {
+        it('should pick the tokens of the most specific property key', () => {
+            const map = resolvePropertyTokens({ 'margin-top': ['radius.*'] });
+
+            expect(filterTokensByProperty('padding-left', tokens, map)?.map(t => t.name)).toEqual(['spacing.md']);
+            expect(filterTokensByProperty('margin-top', tokens, map)?.map(t => t.name)).toEqual(['radius.md']);
+            expect(filterTokensByProperty('border-top-left-radius', tokens, map)?.map(t => t.name)).toEqual(['radius.md']);
+        });
+
+        it('should leave unmapped properties and mappings no token fits to the rule', () => {
+            expect(filterTokensByProperty('translate', tokens, DEFAULT_PROPERTY_TOKENS)).toBeUndefined();
+            expect(filterTokensByProperty('color', tokens, { color: ['text.*'] })).toBeUndefined();
+            expect(filterTokensByProperty('color', tokens, { color: [] })).toBeUndefined();
+        });
+    });
+
+    describe('rules', () => {
+        it('should suggest only tokens allowed for the property', () => {
+            const content = '.a { padding: 17px; border-radius: 7px; }';
+            const codeFiles: CodeFile[] = [{ path: 'a.css', language: 'css', content }];
+
+            const diags = runStaticRules(tokens, { 'raw-pixel': { severity: 'warn', enabled: true } }, codeFiles);
+
+            expect(diags.map(d => [d.problem, d.suggestedToken])).toEqual([
+                ['raw pixel 17px', 'spacing.md'],
+                ['raw pixel 7px', 'radius.md']
+            ]);
+        });
+
+        it('should match colors against the tokens configured for their property', () => {
+            const content = '.a { color: #202124; background-color: #202124; border-color: #ffffff; }';
+            const codeFiles: CodeFile[] = [{ path: 'a.css', language: 'css', content }];
+            const propertyTokens = { 'color': ['color.text.*'], 'background*': ['color.background.*'] };
+
+            const diags = runStaticRules(tokens, { 'raw-color': { severity: 'warn', enabled: true, severities: { exact: 'warn' } } }, codeFiles, { propertyTokens });
+
+            expect(diags.map(d => d.suggestedToken)).toEqual(['color.text.primary', 'color.background.inverse', 'color.background.surface']);
+            expect(diags[1].edits?.[0].replacement).toBe('var(--color-background-inverse)');
+        });
+
+        it('should match colors outside the mapped category against the whole palette', () => {
+            const brandTokens: Token[] = [...tokens, { type: 'color', name: 'color.primary.hover', rawValue: '#3367d6' }];
+            const content = '.a { background: #3367D6; color: #ffffff; border-color: #3468d7; }';
+            const codeFiles: CodeFile[] = [{ path: 'a.css', language: 'css', content }];
+
+            // Exact token values are accepted, whatever their category
+            expect(runStaticRules(brandTokens, { 'raw-color': { severity: 'warn', enabled: true } }, codeFiles)
+                .map(d => [d.suggestedToken, d.message])).toEqual([
+                ['color.primary.hover', 'Raw color #3468d7 is close to token "color.primary.hover" (ΔE 0.37) and probably meant to be that token']
+            ]);
+
+            const diags = runStaticRules(brandTokens, { 'raw-color': { severity: 'warn', enabled: true, severities: { exact: 'info' } } }, codeFiles);
+            expect(diags.map(d => d.message)).toEqual([
+                'Raw color #3367D6 should use token "color.primary.hover" (exact match, outside the tokens mapped to background)',
+                'Raw color #ffffff should use token "color.background.surface" (exact match, outside the tokens mapped to color)',
+                'Raw color #3468d7 is close to token "color.primary.hover" (ΔE 0.37) and probably meant to be that token'
+            ]);
+        });
+
+        it('should keep text and background colors apart without a configured mapping', () => {
+            const content = '.a { color: #212225; background: #212225; background-position: 0 18px; }';
+            const codeFiles: CodeFile[] = [{ path: 'a.css', language: 'css', content }];
+
+            const diags = runStaticRules(tokens, {
+                'raw-color': { severity: 'warn', enabled: true },
+                'raw-pixel': { severity: 'warn', enabled: true }
+            }, codeFiles);
+
+            expect(diags.map(d => [d.ruleId, d.suggestedToken])).toEqual([
+                ['raw-color', 'color.text.primary'],
+                ['raw-color', 'color.background.inverse']
+            ]);
+        });
+    });
+});
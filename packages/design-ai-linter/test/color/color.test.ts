@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseColor,
+    normalizeColor,
+    rgbToLab,
+    deltaE2000,
+    createColorPalette,
+    findNearestColors,
+    classifyColorMatch
+} from '../../src/color';
+import { Token } from '../../src/types';
+
+describe('color', () => {
+    describe('deltaE2000', () => {
+        // Reference pairs from Sharma, Wu & Dalal (2005)
+        it.each([
+            [{ L: 50, a: 2.6772, b: -79.7751 }, { L: 50, a: 0, b: -82.7485 }, 2.0425],
+            [{ L: 50, a: 2.5, b: 0 }, { L: 73, a: 25, b: -18 }, 27.1492],
+            [{ L: 60.2574, a: -34.0099, b: 36.2677 }, { L: 60.4626, a: -34.1751, b: 39.4387 }, 1.2644],
+            [{ L: 2.0776, a: 0.0795, b: -1.135 }, { L: 0.9033, a: -0.0636, b: -0.5514 }, 0.9082]
+        ])('should match the reference difference %#', (lab1, lab2, expected) => {
+            expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 4);
+        });
+
+        it('should be zero for identical colors', () => {
+            const lab = rgbToLab(parseColor('#1a73e8')!);
+            expect(deltaE2000(lab, lab)).toBe(0);
+        });
+    });
+
+    describe('parseColor', () => {
+        it('should read hex, rgb and hsl notations into the same color', () => {
+            expect(parseColor('#f00')).toEqual({ r: 1, g: 0, b: 0, alpha: 1 });
+            expect(parseColor('rgb(255, 0, 0)')).toEqual({ r: 1, g: 0, b: 0, alpha: 1 });
+            expect(parseColor('hsl(0, 100%, 50%)')).toEqual({ r: 1, g: 0, b: 0, alpha: 1 });
+            expect(parseColor('rgb(255 0 0 / 50%)')?.alpha).toBe(0.5);
+            expect(parseColor('#00000080')?.alpha).toBeCloseTo(0.5, 2);
+            expect(parseColor('currentcolor')).toBeUndefined();
+            expect(parseColor('rgb(var(--rgb) / 50%)')).toBeUndefined();
+        });
+
+        it.each([
+            ['#FFF', '#ffffff'],
+            ['#FFFF', '#ffffff'],
+            ['#0000ff80', '#0000ff80'],
+            ['RebeccaPurple', '#663399'],
+            ['transparent', '#00000000'],
+            ['rgba(255, 0, 0, .5)', '#ff000080'],
+            ['rgb(100% 0% 0% / 0.5)', '#ff000080'],
+            ['hsl(210.5 50.2% 40.1%)', '#33659a'],
+            ['hsl(0.5turn 100% 50%)', '#00ffff'],
+            ['hwb(0 0% 0%)', '#ff0000'],
+            ['hwb(0 60% 60%)', '#808080'],
+            ['lab(54.29% 80.8 69.89)', '#ff0000'],
+            ['lch(54.29 106.84 40.85)', '#ff0000'],
+            ['oklab(0.627955 0.224863 0.125846)', '#ff0000'],
+            ['oklch(62.8% 0.2577 29.23)', '#ff0000'],
+            ['oklch(62.8% 0.2577 29.23 / 25%)', '#ff000040'],
+            ['color(srgb 1 0 0)', '#ff0000'],
+            ['color(srgb-linear 0.214 0.214 0.214)', '#7f7f7f'],
+            ['color(display-p3 1 0 0)', '#ff0000'],
+            ['color(xyz-d50 0.436 0.2225 0.0139)', '#ff0000'],
+            ['rgb(none 0 0)', '#000000']
+        ])('should normalize %s to %s', (value, expected) => {
+            expect(normalizeColor(value)).toBe(expected);
+        });
+
+        it('should reject malformed colors', () => {
+            for (const value of ['#ff00f', 'rgb(1, 2)', 'rgb(1 2 3 4)', 'rgb(1, 2 3)', 'hsl(10px 50% 50%)', 'color(unknown 1 0 0)', 'oklch(50%, 0.1)']) {
+                expect(parseColor(value)).toBeUndefined();
+            }
+        });
+    });
+
+    describe('findNearestColors', () => {
+        const tokens: Token[] = [
+            { type: 'color', name: 'color.blue', rawValue: '#1a73e8' },
+            { type: 'color', name: 'color.red', rawValue: '#d93025' },
+            { type: 'color', name: 'color.surface', rawValue: '#ffffff', modes: { light: '#ffffff', dark: '#202124' } },
+            { type: 'color', name: 'color.overlay', rawValue: 'rgba(0, 0, 0, 0.5)' },
+            { type: 'spacing', name: 'spacing.md', rawValue: '16px' }
+        ];
+        const palette = createColorPalette(tokens);
+
+        it('should rank tokens by perceptual distance', () => {
+            const candidates = findNearestColors('#1b74e9', palette);
+
+            expect(candidates).toHaveLength(3);
+            expect(candidates[0].token.name).toBe('color.blue');
+            expect(candidates[0].distance).toBeLessThan(1);
+            expect(candidates[1].distance).toBeGreaterThanOrEqual(candidates[0].distance);
+            expect(candidates[2].distance).toBeGreaterThanOrEqual(candidates[1].distance);
+        });
+
+        it('should compare colors written in any syntax', () => {
+            const palette = createColorPalette([
+                { type: 'color', name: 'color.white', rawValue: '#FFF' },
+                { type: 'color', name: 'color.accent', rawValue: 'oklch(62.8% 0.2577 29.23)' }
+            ]);
+
+            expect(classifyColorMatch(findNearestColors('#ffffff', palette))).toBe('exact');
+            expect(classifyColorMatch(findNearestColors('white', palette))).toBe('exact');
+            expect(findNearestColors('hsl(0 100% 50%)', palette)[0]).toMatchObject({ exact: true, value: 'oklch(62.8% 0.2577 29.23)' });
+        });
+
+        it('should measure against the closest mode value', () => {
+            const [nearest] = findNearestColors('#222326', palette, { limit: 1 });
+            expect(nearest).toMatchObject({ value: '#202124' });
+            expect(nearest.token.name).toBe('color.surface');
+        });
+
+        it('should classify exact, near and off-palette colors', () => {
+            expect(classifyColorMatch(findNearestColors('rgb(26, 115, 232)', palette))).toBe('exact');
+            expect(classifyColorMatch(findNearestColors('#1b74e9', palette))).toBe('near');
+            expect(classifyColorMatch(findNearestColors('#1b74e9', palette), 0.1)).toBe('off-palette');
+            expect(classifyColorMatch(findNearestColors('#7cb342', palette))).toBe('off-palette');
+        });
+
+        it('should not treat a color with another alpha as a near match', () => {
+            const candidates = findNearestColors('rgba(0, 0, 0, 0.4)', palette);
+            expect(candidates[0]).toMatchObject({ alphaMatch: false });
+            expect(candidates[0].token.name).toBe('color.overlay');
+            expect(classifyColorMatch(findNearestColors('rgba(0, 0, 0, 0.5)', palette))).toBe('exact');
+            expect(classifyColorMatch(candidates)).toBe('off-palette');
+        });
+
+        it('should support OKLab distances', () => {
+            const [nearest] = findNearestColors('#1b74e9', palette, { metric: 'oklab' });
+            expect(nearest.token.name).toBe('color.blue');
+            expect(nearest.distance).toBeLessThan(1);
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadConfig, parseConfig, findConfigFile } from '../../src/config/loadConfig';
+import { ConfigError } from '../../src/config/schema';
+import { initConfig } from '../../src/config/initConfig';
+
+function getIssues(fn: () => unknown): ConfigError['issues'] {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof ConfigError) return error.issues;
+        throw error;
+    }
+    throw new Error('expected a ConfigError');
+}
+
+describe('loadConfig', () => {
+    it('should accept the example config', async () => {
+        const config = await loadConfig('../../../../example/designlintrc.json', __dirname);
+
+        expect(config.source.path).toBe('./tokens.json');
+        expect(config.rules?.['custom-rules']?.[0].id).toBe('custom-color-accessibility');
+    });
+
+    it('should default `enabled` to true', () => {
+        const config = parseConfig({
+            source: { path: './tokens.json' },
+            rules: { 'raw-color': { severity: 'warn' } }
+        });
+
+        expect(config.rules?.['raw-color']).toEqual({ severity: 'warn', enabled: true });
+    });
+
+    it('should point at misspelled rule names', () => {
+        const issues = getIssues(() => parseConfig({
+            source: { path: './tokens.json' },
+            rules: { 'raw-colr': { severity: 'warn', enabled: true } }
+        }));
+
+        expect(issues).toEqual([{ path: 'rules.raw-colr', message: 'Unknown key' }]);
+    });
+
+    it('should report the key path of invalid values', () => {
+        const issues = getIssues(() => parseConfig({
+            source: { type: 'figma', path: './tokens.json' },
+            rules: {
+                'raw-pixel': { severity: 'warning', enabled: true },
+                'naming-convention': { severity: 'error', pattern: '([a-z' },
+                'custom-rules': [{ id: 'a11y', description: '', severity: 'warn', prompt: './p.md' }]
+            }
+        }));
+
+        expect(issues.map(i => i.path)).toEqual([
+            'source.type',
+            'rules.naming-convention.pattern',
+            'rules.raw-pixel.severity',
+            'rules.custom-rules[0].schema'
+        ]);
+    });
+
+    it('should require a token source', () => {
+        const issues = getIssues(() => parseConfig({ files: 'src/**/*.css' }));
+        expect(issues.map(i => i.path)).toEqual(['source']);
+    });
+
+    describe('files on disk', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-config-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        it('should throw instead of falling back when the JSON is malformed', async () => {
+            await fs.writeFile(path.join(dir, 'designlintrc.json'), '{ "source": ');
+
+            await expect(loadConfig('designlintrc.json', dir)).rejects.toThrow(ConfigError);
+        });
+
+        it('should write a starter config that loads without errors', async () => {
+            const configPath = await initConfig('designlintrc.json', { cwd: dir, source: './tokens/figma.json' });
+            const config = await loadConfig(configPath, dir);
+
+            expect(config.source.path).toBe('./tokens/figma.json');
+            expect(config.rules?.['raw-color']?.enabled).toBe(true);
+        });
+
+        it('should not overwrite an existing config without force', async () => {
+            await fs.writeFile(path.join(dir, 'designlintrc.json'), '{}');
+
+            await expect(initConfig('designlintrc.json', { cwd: dir })).rejects.toThrow(/--force/);
+            await expect(initConfig('designlintrc.json', { cwd: dir, force: true })).resolves.toContain('designlintrc.json');
+        });
+
+        it('should find the closest config walking up from a directory', async () => {
+            await fs.mkdir(path.join(dir, 'apps/web/src'), { recursive: true });
+            await fs.writeFile(path.join(dir, 'designlintrc.json'), JSON.stringify({ source: { path: './root.json' } }));
+            await fs.writeFile(path.join(dir, 'apps/web/package.json'), JSON.stringify({
+                name: 'web',
+                designlint: { source: { path: './web.json' } }
+            }));
+
+            expect(await findConfigFile(path.join(dir, 'apps/web/src'))).toBe(path.join(dir, 'apps/web/package.json'));
+            expect((await loadConfig(undefined, path.join(dir, 'apps/web/src'))).source.path).toBe('./web.json');
+        });
+
+        it('should skip package.json files without a designlint key', async () => {
+            await fs.mkdir(path.join(dir, 'apps/docs'), { recursive: true });
+            await fs.writeFile(path.join(dir, 'apps/docs/package.json'), JSON.stringify({ name: 'docs' }));
+            await fs.writeFile(path.join(dir, '.designlintrc.js'), 'module.exports = { source: { path: "./tokens.json" } };');
+
+            expect(await findConfigFile(path.join(dir, 'apps/docs'))).toBe(path.join(dir, '.designlintrc.js'));
+        });
+
+        it('should merge extended presets with nested rule configs', async () => {
+            await fs.mkdir(path.join(dir, 'node_modules/@acme/dslint-config'), { recursive: true });
+            await fs.writeFile(path.join(dir, 'node_modules/@acme/dslint-config/package.json'), JSON.stringify({ name: '@acme/dslint-config', main: 'index.js' }));
+            await fs.writeFile(path.join(dir, 'node_modules/@acme/dslint-config/index.js'), `module.exports = ${JSON.stringify({
+                rules: {
+                    'naming-convention': { severity: 'error', pattern: '^[a-z.]+$' },
+                    'raw-color': { severity: 'error', enabled: true }
+                },
+                plugins: ['dslint-plugin-a']
+            })};`);
+            await fs.writeFile(path.join(dir, 'base.json'), JSON.stringify({
+                extends: '@acme/dslint-config',
+                source: { path: './tokens.json', type: 'dtcg' }
+            }));
+            await fs.writeFile(path.join(dir, 'designlintrc.json'), JSON.stringify({
+                extends: ['./base.json'],
+                source: { theme: 'Dark' },
+                rules: { 'naming-convention': { severity: 'warn' } },
+                plugins: ['dslint-plugin-b']
+            }));
+
+            const config = await loadConfig('designlintrc.json', dir);
+
+            expect(config).toEqual({
+                source: { path: './tokens.json', type: 'dtcg', theme: 'Dark' },
+                rules: {
+                    'naming-convention': { severity: 'warn', pattern: '^[a-z.]+$' },
+                    'raw-color': { severity: 'error', enabled: true }
+                },
+                plugins: ['dslint-plugin-b']
+            });
+        });
+
+        it('should report typos in a preset against the preset file', async () => {
+            await fs.writeFile(path.join(dir, 'preset.json'), JSON.stringify({ rules: { 'raw-pixl': { severity: 'warn' } } }));
+            await fs.writeFile(path.join(dir, 'designlintrc.json'), JSON.stringify({ extends: './preset.json', source: { path: './t.json' } }));
+
+            const error = await loadConfig('designlintrc.json', dir).catch(e => e);
+
+            expect(error).toBeInstanceOf(ConfigError);
+            expect(error.configPath).toBe(path.join(dir, 'preset.json'));
+            expect(error.issues).toEqual([{ path: 'rules.raw-pixl', message: 'Unknown key' }]);
+        });
+
+        it('should reject circular extends', async () => {
+            await fs.writeFile(path.join(dir, 'a.json'), JSON.stringify({ extends: './b.json' }));
+            await fs.writeFile(path.join(dir, 'b.json'), JSON.stringify({ extends: './a.json' }));
+
+            await expect(loadConfig('a.json', dir)).rejects.toThrow(/Circular extends/);
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseDimension,
+    toPixels,
+    createDimensionScale,
+    findNearestDimension,
+    findMatchingDimension
+} from '../../src/dimension';
+import { Token } from '../../src/types';
+
+describe('dimension', () => {
+    const context = { rootFontSize: 16 };
+
+    describe('parseDimension', () => {
+        it('should read the unit of lengths and treat plain numbers as px', () => {
+            expect(parseDimension('1.5REM')).toEqual({ value: 1.5, unit: 'rem' });
+            expect(parseDimension('-.25em')).toEqual({ value: -0.25, unit: 'em' });
+            expect(parseDimension('50%')).toEqual({ value: 50, unit: '%' });
+            expect(parseDimension(16)).toEqual({ value: 16, unit: 'px' });
+            expect(parseDimension('16')).toEqual({ value: 16, unit: 'px' });
+        });
+
+        it('should reject values that are not a single length', () => {
+            for (const value of ['auto', '8px 16px', 'calc(1rem + 2px)', '', undefined, NaN]) {
+                expect(parseDimension(value)).toBeUndefined();
+            }
+        });
+    });
+
+    describe('toPixels', () => {
+        it('should resolve font-relative and absolute units', () => {
+            expect(toPixels({ value: 1.5, unit: 'rem' }, context)).toBe(24);
+            expect(toPixels({ value: 2, unit: 'em' }, { rootFontSize: 10 })).toBe(20);
+            expect(toPixels({ value: 12, unit: 'pt' }, context)).toBe(16);
+            expect(toPixels({ value: 50, unit: 'vw' }, context)).toBeUndefined();
+        });
+    });
+
+    describe('findNearestDimension', () => {
+        const tokens: Token[] = [
+            { type: 'spacing', name: 'spacing.md', rawValue: '1rem' },
+            { type: 'spacing', name: 'spacing.lg', rawValue: '24px', modes: { compact: '20px' } },
+            { type: 'size', name: 'size.screen', rawValue: '100vw' }
+        ];
+        const scale = createDimensionScale(tokens, context);
+
+        it('should match values in another unit by their size in px', () => {
+            expect(findMatchingDimension({ value: 16, unit: 'px' }, scale, context)?.token.name).toBe('spacing.md');
+            expect(findMatchingDimension({ value: 1.25, unit: 'rem' }, scale, context)?.token.name).toBe('spacing.lg');
+            expect(findMatchingDimension({ value: 17, unit: 'px' }, scale, context)).toBeUndefined();
+        });
+
+        it('should suggest by real value rather than by the leading number', () => {
+            // 1.5rem is 24px: spacing.lg, even though 1.5 is closer to the 1 of 1rem
+            expect(findNearestDimension({ value: 1.5, unit: 'rem' }, scale, context)).toMatchObject({ difference: 0 });
+            expect(findNearestDimension({ value: 1.5, unit: 'rem' }, scale, context)?.token.name).toBe('spacing.lg');
+        });
+
+        it('should only compare viewport units with the same unit', () => {
+            expect(findNearestDimension({ value: 90, unit: 'vw' }, scale, context)).toMatchObject({ difference: 10 });
+            expect(findNearestDimension({ value: 16, unit: 'vh' }, scale, context)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { applyTextEdits, applyFixes, createUnifiedDiff } from '../src/engine/fixer';
+import { Diagnostic, CodeFile } from '../src/types';
+
+describe('Fixer', () => {
+    describe('applyTextEdits', () => {
+        it('should apply edits regardless of their order', () => {
+            const content = 'color: #f00; margin: 15px;';
+            const { output, applied } = applyTextEdits(content, [
+                { file: 'a.css', start: 21, end: 25, replacement: 'var(--spacing-md)' },
+                { file: 'a.css', start: 7, end: 11, replacement: 'var(--color-primary)' }
+            ]);
+
+            expect(output).toBe('color: var(--color-primary); margin: var(--spacing-md);');
+            expect(applied).toHaveLength(2);
+        });
+
+        it('should skip edits overlapping an applied edit', () => {
+            const { output, applied, conflicts } = applyTextEdits('abcdef', [
+                { file: 'a', start: 1, end: 4, replacement: 'X' },
+                { file: 'a', start: 2, end: 5, replacement: 'Y' },
+                { file: 'a', start: 4, end: 6, replacement: 'Z' }
+            ]);
+
+            expect(output).toBe('aXZ');
+            expect(applied).toHaveLength(2);
+            expect(conflicts).toEqual([{ file: 'a', start: 2, end: 5, replacement: 'Y' }]);
+        });
+
+        it('should apply duplicate edits once', () => {
+            const edit = { file: 'a', start: 0, end: 1, replacement: 'b' };
+            const { output, conflicts } = applyTextEdits('a', [edit, { ...edit }]);
+
+            expect(output).toBe('b');
+            expect(conflicts).toHaveLength(0);
+        });
+
+        it('should reject edits outside the content', () => {
+            const { output, conflicts } = applyTextEdits('abc', [{ file: 'a', start: 2, end: 10, replacement: 'X' }]);
+
+            expect(output).toBe('abc');
+            expect(conflicts).toHaveLength(1);
+        });
+    });
+
+    describe('applyFixes', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-fix-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        const content = '.a {\n  color: #ff0000;\n}';
+        const diagnostics: Diagnostic[] = [{
+            ruleId: 'raw-color',
+            message: 'Raw color #ff0000 should use a design token',
+            severity: 'warn',
+            file: 'a.css',
+            edits: [{ file: 'a.css', start: 14, end: 21, replacement: 'var(--color-primary)' }]
+        }];
+        const codeFiles: CodeFile[] = [{ path: 'a.css', language: 'css', content }];
+
+        it('should write the fixed content to disk', async () => {
+            await fs.writeFile(path.join(dir, 'a.css'), content);
+
+            const [result] = await applyFixes(diagnostics, codeFiles, { cwd: dir });
+
+            expect(result.applied).toHaveLength(1);
+            expect(await fs.readFile(path.join(dir, 'a.css'), 'utf-8')).toBe('.a {\n  color: var(--color-primary);\n}');
+        });
+
+        it('should leave files untouched on a dry run', async () => {
+            await fs.writeFile(path.join(dir, 'a.css'), content);
+
+            const [result] = await applyFixes(diagnostics, codeFiles, { cwd: dir, dryRun: true });
+
+            expect(result.output).toContain('var(--color-primary)');
+            expect(await fs.readFile(path.join(dir, 'a.css'), 'utf-8')).toBe(content);
+        });
+
+        it('should not touch a file that changed since it was linted', async () => {
+            await fs.writeFile(path.join(dir, 'a.css'), '/* edited */\n' + content);
+
+            const [result] = await applyFixes(diagnostics, codeFiles, { cwd: dir });
+
+            expect(result.error).toBeDefined();
+            expect(result.applied).toHaveLength(0);
+            expect(await fs.readFile(path.join(dir, 'a.css'), 'utf-8')).toBe('/* edited */\n' + content);
+        });
+    });
+
+    describe('createUnifiedDiff', () => {
+        it('should print changed lines with their context in hunks', () => {
+            const original = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n');
+            const output = original.replace('2', 'two').replace('11', 'eleven');
+
+            expect(createUnifiedDiff('a.txt', original, output, 1)).toBe([
+                '--- a/a.txt',
+                '+++ b/a.txt',
+                '@@ -1,3 +1,3 @@',
+                ' 1',
+                '-2',
+                '+two',
+                ' 3',
+                '@@ -10,3 +10,3 @@',
+                ' 10',
+                '-11',
+                '+eleven',
+                ' 12'
+            ].join('\n'));
+        });
+
+        it('should return an empty string when nothing changed', () => {
+            expect(createUnifiedDiff('a.txt', 'same', 'same')).toBe('');
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { compileGlob, matchGlob, couldMatchInside, getGlobBase, findFiles } from '../../src/glob';
+import { loadCodeFiles } from '../../src/adapters/codeFileAdapter';
+
+describe('glob', () => {
+    describe('matchGlob', () => {
+        const matches = (pattern: string, filePath: string) => matchGlob(compileGlob(pattern), filePath);
+
+        it('should keep the directory part of a pattern exact', () => {
+            expect(matches('src/components/**/*.tsx', 'src/components/Button.tsx')).toBe(true);
+            expect(matches('src/components/**/*.tsx', 'src/components/form/Input.tsx')).toBe(true);
+            expect(matches('src/components/**/*.tsx', 'src/pages/components/Home.tsx')).toBe(false);
+            expect(matches('src/components/**/*.tsx', 'src/Button.tsx')).toBe(false);
+            expect(matches('src/*.css', 'src/styles/a.css')).toBe(false);
+        });
+
+        it('should expand nested braces, including across directories', () => {
+            expect(matches('{src,lib}/**/*.{ts,tsx}', 'lib/a/b.tsx')).toBe(true);
+            expect(matches('src/{a,b/{c,d}}/*.ts', 'src/b/d/x.ts')).toBe(true);
+            expect(matches('src/{a,b/{c,d}}/*.ts', 'src/b/x.ts')).toBe(false);
+            expect(matches('src/{a}.ts', 'src/{a}.ts')).toBe(true);
+        });
+
+        it('should support classes and ? and skip dot names unless they are spelled out', () => {
+            expect(matches('src/v[0-9]/?.ts', 'src/v2/a.ts')).toBe(true);
+            expect(matches('src/[!_]*.ts', 'src/_private.ts')).toBe(false);
+            expect(matches('**/*.ts', '.storybook/main.ts')).toBe(false);
+            expect(matches('**/*.ts', 'src/.hidden.ts')).toBe(false);
+            expect(matches('.storybook/**/*.ts', '.storybook/main.ts')).toBe(true);
+            expect(matchGlob(compileGlob('**/*.ts', { dot: true }), '.storybook/main.ts')).toBe(true);
+        });
+
+        it('should tell which directories may hold matches and where a pattern starts', () => {
+            const glob = compileGlob('src/components/**/*.tsx');
+            expect(couldMatchInside(glob, 'src')).toBe(true);
+            expect(couldMatchInside(glob, 'src/components/form')).toBe(true);
+            expect(couldMatchInside(glob, 'src/pages')).toBe(false);
+            expect(getGlobBase('./src/components/**/*.tsx')).toBe('src/components');
+            expect(getGlobBase('src/styles/app.css')).toBe('src/styles');
+            expect(getGlobBase('**/*.css')).toBe('');
+        });
+    });
+
+    describe('findFiles', () => {
+        let dir: string;
+        const files = [
+            'src/components/Button.tsx',
+            'src/components/Button.test.tsx',
+            'src/pages/components/Home.tsx',
+            'src/generated/tokens.css',
+            'src/legacy/old.css',
+            'src/legacy/keep.css',
+            'src/vendor/lib.css',
+            '.storybook/preview.tsx',
+            'node_modules/pkg/index.css',
+            'dist/app.css'
+        ];
+
+        beforeAll(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-glob-'));
+            // A repository root, so ignore files above the temp directory are not read
+            await fs.mkdir(path.join(dir, '.git'));
+            for (const file of files) {
+                await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+                await fs.writeFile(path.join(dir, file), '');
+            }
+            await fs.writeFile(path.join(dir, '.gitignore'), '# build output\n/src/generated/\n*.log\n');
+            await fs.writeFile(path.join(dir, '.dslintignore'), 'src/legacy/*\n!src/legacy/keep.css\n');
+            await fs.writeFile(path.join(dir, 'src', 'vendor', '.gitignore'), '*.css\n');
+        });
+
+        afterAll(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        const find = async (patterns: string | string[], ignore?: string[]) =>
+            (await findFiles(patterns, { cwd: dir, ignore })).map(file => path.relative(dir, file).split(path.sep).join('/'));
+
+        it('should only walk the directories of the pattern', async () => {
+            expect(await find('src/components/**/*.tsx')).toEqual(['src/components/Button.test.tsx', 'src/components/Button.tsx']);
+        });
+
+        it('should combine include and exclude patterns', async () => {
+            expect(await find(['**/*.tsx', '.storybook/*.tsx', '!**/*.test.tsx', '!src/pages/**'])).toEqual([
+                '.storybook/preview.tsx',
+                'src/components/Button.tsx'
+            ]);
+        });
+
+        it('should honor .gitignore, .dslintignore, nested ignore files and the default ignores', async () => {
+            expect(await find('**/*.css')).toEqual(['src/legacy/keep.css']);
+        });
+
+        it('should let configured ignore patterns override the ignore files', async () => {
+            expect(await find('**/*.css', ['!dist/', 'keep.css'])).toEqual(['dist/app.css']);
+        });
+
+        it('should load only code files through loadCodeFiles', async () => {
+            await fs.writeFile(path.join(dir, 'src', 'components', 'logo.svg'), '<svg/>');
+            const codeFiles = await loadCodeFiles('src/components/*', dir);
+
+            expect(codeFiles.map(file => file.path.split(path.sep).join('/'))).toEqual(['src/components/Button.test.tsx', 'src/components/Button.tsx']);
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { lint } from '../src/index';
+import { Token, CodeFile } from '../src/types';
+
+describe('lint API', () => {
+    const tokens: Token[] = [
+        { type: 'color', name: 'color.primary', rawValue: '#1a73e8' },
+        { type: 'spacing', name: 'spacing.md', rawValue: '16px' },
+        { type: 'color', name: 'Color_Bad', rawValue: '#000000' }
+    ];
+
+    beforeEach(() => {
+        vi.stubEnv('OPENAI_API_KEY', '');
+        vi.stubEnv('GEMINI_API_KEY', '');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should return diagnostics without exiting the process', async () => {
+        const files: CodeFile[] = [{
+            path: 'src/Button.css',
+            language: 'css',
+            content: '.button {\n  color: #1a73e8;\n  padding: 13px;\n}'
+        }];
+
+        const result = await lint({
+            config: {
+                source: { path: './tokens.json' },
+                rules: { 'naming-convention': { severity: 'error', pattern: '^[a-z]+(\\.[a-z0-9-]+)*$' } }
+            },
+            tokens,
+            files
+        });
+
+        expect(result.codeFiles).toBe(files);
+        expect(result.diagnostics.map(d => d.ruleId).sort()).toEqual(['naming-convention', 'raw-pixel']);
+    });
+
+    it('should not enable raw value rules without code files', async () => {
+        const result = await lint({
+            config: { source: { path: './tokens.json' }, rules: {} },
+            tokens: [{ type: 'color', name: 'color.primary', rawValue: '#1a73e8' }]
+        });
+
+        expect(result.diagnostics).toEqual([]);
+        expect(result.codeFiles).toEqual([]);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { parseDuration, parseEasing, getEasingDifference, scanMotionValues } from '../../src/motion';
+import { runStaticRules } from '../../src/engine/staticRunner';
+import { Token, CodeFile } from '../../src/types';
+
+describe('motion', () => {
+    describe('parse', () => {
+        it('should read durations in ms and easings as curves', () => {
+            expect([parseDuration('0.2s'), parseDuration('150ms'), parseDuration({ value: 1, unit: 's' }), parseDuration(300)]).toEqual([200, 150, 1000, 300]);
+            expect(parseEasing('ease-out')).toEqual([0, 0, 0.58, 1]);
+            expect(parseEasing('cubic-bezier(0.4, 0, 0.2, 1)')).toEqual([0.4, 0, 0.2, 1]);
+            expect(parseEasing('step-end')).toBe(parseEasing('steps(1, end)'));
+            expect(getEasingDifference([0.4, 0, 0.2, 1], [0.4, 0, 0.6, 1])).toBeCloseTo(0.4);
+        });
+
+        it('should find durations and easings in shorthand lists', () => {
+            expect(scanMotionValues('opacity .2s ease-in 50ms, transform 300ms cubic-bezier(0, 0, .2, 1)')).toEqual([
+                { kind: 'duration', text: '.2s', offset: 8 },
+                { kind: 'easing', text: 'ease-in', offset: 12 },
+                { kind: 'duration', text: '50ms', offset: 20 },
+                { kind: 'duration', text: '300ms', offset: 36 },
+                { kind: 'easing', text: 'cubic-bezier(0, 0, .2, 1)', offset: 42 }
+            ]);
+        });
+    });
+
+    describe('raw-motion', () => {
+        const tokens: Token[] = [
+            { type: 'duration', name: 'motion.duration.fast', rawValue: '150ms' },
+            { type: 'cubicBezier', name: 'motion.easing.standard', rawValue: [0.4, 0, 0.2, 1] },
+            { type: 'opacity', name: 'opacity.disabled', rawValue: '40%' },
+            { type: 'zIndex', name: 'z.modal', rawValue: 1000 },
+            { type: 'borderRadius', name: 'radius.md', rawValue: '8px' },
+            { type: 'spacing', name: 'spacing.md', rawValue: '16px' }
+        ];
+        const config = {
+            'raw-pixel': { severity: 'warn' as const, enabled: true },
+            'raw-motion': { severity: 'warn' as const, enabled: true },
+            'raw-opacity': { severity: 'warn' as const, enabled: true },
+            'raw-z-index': { severity: 'warn' as const, enabled: true },
+            'raw-radius': { severity: 'warn' as const, enabled: true }
+        };
+
+        it('should fix each duration and easing of a transition that matches a token', () => {
+            const content = '.a { transition: opacity 0.15s cubic-bezier(0.4, 0, 0.2, 1), transform 200ms ease 0s; }';
+            const codeFiles: CodeFile[] = [{ path: 'a.css', language: 'css', content }];
+
+            const diags = runStaticRules(tokens, config, codeFiles);
+
+            expect(diags.map(d => d.message)).toEqual([
+                'Raw transition 0.15s should use token "motion.duration.fast"',
+                'Raw transition cubic-bezier(0.4, 0, 0.2, 1) should use token "motion.easing.standard"',
+                'Raw transition 200ms does not match any motion token (nearest token "motion.duration.fast")',
+                'Raw transition ease does not match any motion token (nearest token "motion.easing.standard")'
+            ]);
+            expect(diags[0].edits).toEqual([{ file: 'a.css', start: content.indexOf('0.15s'), end: content.indexOf('0.15s') + 5, replacement: 'var(--motion-duration-fast)' }]);
+        });
+
+        it('should report each value of a multi-line transition on its own line', () => {
+            const content = '.a {\n  transition:\n    opacity 0.15s,\n    transform 200ms ease;\n}';
+            const codeFiles: CodeFile[] = [{ path: 'a.css', language: 'css', content }];
+
+            const diags = runStaticRules(tokens, config, codeFiles);
+
+            expect(diags.map(d => [d.problem, d.line])).toEqual([
+                ['raw transition 0.15s', 3],
+                ['raw transition 200ms', 4],
+                ['raw transition ease', 4]
+            ]);
+        });
+
+        it('should check radii, opacity and z-index and skip values that switch them off', () => {
+            const content = 'export const A = () => <div style={{ borderRadius: 8, opacity: 0.4, zIndex: 999 }} />;\n' +
+                'export const B = () => <div style={{ borderRadius: 0, opacity: 1, zIndex: 0 }} />;';
+            const codeFiles: CodeFile[] = [{ path: 'A.tsx', language: 'typescript', content }];
+
+            const diags = runStaticRules(tokens, config, codeFiles);
+
+            expect(diags.map(d => [d.ruleId, d.message, d.edits?.[0].replacement])).toEqual([
+                ['raw-radius', 'Raw border-radius 8 should use token "radius.md"', '\'var(--radius-md)\''],
+                ['raw-z-index', 'Raw z-index 999 does not match any z-index token (nearest token "z.modal")', undefined],
+                ['raw-opacity', 'Raw opacity 0.4 should use token "opacity.disabled"', '\'var(--opacity-disabled)\'']
+            ]);
+        });
+    });
+});
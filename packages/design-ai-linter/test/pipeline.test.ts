@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runLintPipeline, LintPlugin } from '../src/engine/pipeline';
+import { Token, CodeFile } from '../src/types';
+
+describe('Lint Pipeline', () => {
+    const tokens: Token[] = [
+        { type: 'color', name: 'color.primary', rawValue: '#1a73e8' }
+    ];
+    const files: CodeFile[] = [{
+        path: 'src/Card.css',
+        language: 'css',
+        content: '.card {\n  color: #ff0000;\n}'
+    }];
+    const config = { source: { path: './tokens.json' }, rules: {} };
+
+    beforeEach(() => {
+        vi.stubEnv('OPENAI_API_KEY', '');
+        vi.stubEnv('GEMINI_API_KEY', '');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should run plugin hooks in pipeline order', async () => {
+        const calls: string[] = [];
+        const plugin: LintPlugin = {
+            name: 'recorder',
+            beforeStatic: () => { calls.push('beforeStatic'); },
+            afterStatic: (ctx) => { calls.push(`afterStatic:${ctx.diagnostics.length}`); },
+            beforeAI: () => { calls.push('beforeAI'); },
+            afterReport: () => { calls.push('afterReport'); }
+        };
+
+        await runLintPipeline({ config, tokens, files, plugins: [plugin] });
+
+        expect(calls).toEqual(['beforeStatic', 'afterStatic:1', 'beforeAI', 'afterReport']);
+    });
+
+    it('should let hooks rewrite the diagnostics', async () => {
+        const plugin: LintPlugin = {
+            name: 'drop-raw-color',
+            afterStatic: (ctx) => {
+                ctx.diagnostics = ctx.diagnostics.filter(d => d.ruleId !== 'raw-color');
+            }
+        };
+
+        const result = await runLintPipeline({ config, tokens, files, plugins: [plugin] });
+
+        expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should skip the AI stage and its hook when ai is false', async () => {
+        const calls: string[] = [];
+        await runLintPipeline({
+            config,
+            tokens,
+            files,
+            ai: false,
+            plugins: [{ name: 'recorder', beforeAI: () => { calls.push('beforeAI'); } }]
+        });
+
+        expect(calls).toEqual([]);
+    });
+
+    it('should lint each file with the config closest to it', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-pipeline-'));
+        try {
+            for (const [app, color] of [['web', '#ff0000'], ['admin', '#00ff00']]) {
+                await fs.mkdir(path.join(dir, 'apps', app), { recursive: true });
+                await fs.writeFile(path.join(dir, 'apps', app, 'tokens.json'), JSON.stringify({
+                    color: { brand: { value: color, type: 'color' } }
+                }));
+                await fs.writeFile(path.join(dir, 'apps', app, 'designlintrc.json'), JSON.stringify({
+                    source: { path: './tokens.json' },
+                    rules: { 'raw-color': { severity: 'error' } }
+                }));
+            }
+            const css = '.a { color: #ff0000; }';
+
+            const result = await runLintPipeline({
+                cwd: dir,
+                files: [
+                    { path: 'apps/web/a.css', language: 'css', content: css },
+                    { path: 'apps/admin/a.css', language: 'css', content: css }
+                ]
+            });
+
+            expect(result.diagnostics).toHaveLength(1);
+            expect(result.diagnostics[0]).toMatchObject({ ruleId: 'raw-color', severity: 'error', file: 'apps/admin/a.css' });
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should load the Tailwind theme for the rule or for fixing classes', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-pipeline-'));
+        try {
+            await fs.writeFile(path.join(dir, 'tailwind.config.js'), `module.exports = ${JSON.stringify({
+                theme: { extend: { colors: { primary: 'var(--color-primary)', brand: '#ff5722' } } }
+            })};`);
+
+            // The rule checks the theme without code files
+            const themeOnly = await runLintPipeline({ cwd: dir, config, tokens, files: [] });
+            expect(themeOnly.diagnostics.map(d => d.ruleId)).toEqual(['tailwind-theme']);
+
+            // Turned off, the theme still backs the fixes of classes
+            const rules = {
+                'tailwind-theme': { severity: 'warn' as const, enabled: false },
+                'raw-color': { severity: 'warn' as const, enabled: true, severities: { exact: 'warn' as const } }
+            };
+            const classes = await runLintPipeline({
+                cwd: dir,
+                config: { ...config, rules },
+                tokens,
+                files: [{ path: 'a.tsx', language: 'typescript', content: '<div className="bg-[#1a73e8]" />' }]
+            });
+            expect(classes.diagnostics.map(d => d.edits?.[0].replacement)).toEqual(['bg-primary']);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should find nested configs for files loaded from a cwd other than the process cwd', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-pipeline-'));
+        try {
+            await fs.mkdir(path.join(dir, 'app', 'src'), { recursive: true });
+            await fs.mkdir(path.join(dir, 'src'), { recursive: true });
+            await fs.writeFile(path.join(dir, 'tokens.json'), JSON.stringify({ color: { primary: { value: '#1a73e8', type: 'color' } } }));
+            await fs.writeFile(path.join(dir, 'designlintrc.json'), JSON.stringify({ source: { path: './tokens.json' }, rules: {} }));
+            await fs.writeFile(path.join(dir, 'app', 'designlintrc.json'), JSON.stringify({
+                source: { path: '../tokens.json' },
+                rules: { 'raw-color': { severity: 'warn', enabled: false } }
+            }));
+            await fs.writeFile(path.join(dir, 'app', 'src', 'a.css'), '.a { color: #ff0000; }');
+            await fs.writeFile(path.join(dir, 'src', 'b.css'), '.b { color: #ff0000; }');
+            expect(path.resolve(dir)).not.toBe(process.cwd());
+
+            const result = await runLintPipeline({ cwd: dir, files: { pattern: '**/*.css' }, ai: false });
+
+            expect(result.diagnostics.map(d => [d.ruleId, d.file])).toEqual([['raw-color', path.join('src', 'b.css')]]);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseShadow, isSameShadow, getShadowDifference } from '../../src/shadow';
+import { runStaticRules } from '../../src/engine/staticRunner';
+import { Token, CodeFile } from '../../src/types';
+
+const context = { rootFontSize: 16 };
+
+describe('shadow', () => {
+    describe('parseShadow', () => {
+        it('should read CSS shadow lists with the keyword and color in any position', () => {
+            expect(parseShadow('0 1px 2px rgb(0 0 0 / 10%), #fff 0 0 0 .0625rem inset', context)).toEqual([
+                { inset: false, offsetX: 0, offsetY: 1, blur: 2, spread: 0, color: { r: 0, g: 0, b: 0, alpha: 0.1 } },
+                { inset: true, offsetX: 0, offsetY: 0, blur: 0, spread: 1, color: { r: 1, g: 1, b: 1, alpha: 1 } }
+            ]);
+            expect(parseShadow('none', context)).toBeUndefined();
+            expect(parseShadow('0 1px var(--shadow-color)', context)).toBeUndefined();
+        });
+
+        it('should read DTCG and Tokens Studio token values alike', () => {
+            const dtcg = parseShadow({ offsetX: '0px', offsetY: '4px', blur: '8px', spread: '0px', color: '#00000033' }, context);
+            const tokensStudio = parseShadow([{ x: 0, y: 4, blur: 8, spread: 0, color: 'rgba(0, 0, 0, 0.2)', type: 'dropShadow' }], context);
+
+            expect(isSameShadow(dtcg!, tokensStudio!)).toBe(true);
+            expect(getShadowDifference(dtcg!, parseShadow('0 2px 8px #000', context)!)).toBe(2);
+            expect(getShadowDifference(dtcg!, parseShadow('inset 0 4px 8px #000', context)!)).toBeUndefined();
+        });
+    });
+
+    describe('raw-shadow', () => {
+        const tokens: Token[] = [
+            { type: 'shadow', name: 'shadow.sm', rawValue: { offsetX: '0px', offsetY: '1px', blur: '2px', spread: '0px', color: '#0000001a' } },
+            { type: 'boxShadow', name: 'shadow.focus', rawValue: { x: 0, y: 0, blur: 0, spread: 2, color: '#1a73e8', type: 'innerShadow' } },
+            { type: 'color', name: 'color.primary', rawValue: '#1a73e8' }
+        ];
+        const config = {
+            'raw-color': { severity: 'warn' as const, enabled: true, severities: { exact: 'warn' as const } },
+            'raw-pixel': { severity: 'warn' as const, enabled: true },
+            'raw-shadow': { severity: 'warn' as const, enabled: true }
+        };
+
+        it('should fix whole shadows matching a token and leave their parts to this rule', () => {
+            const content = '.a { box-shadow: 0 1px 2px rgb(0 0 0 / 10%); }\n.b { box-shadow: 0 2px 2px #000; }';
+            const codeFiles: CodeFile[] = [
+                { path: 'a.css', language: 'css', content },
+                { path: 'A.tsx', language: 'typescript', content: 'export const A = () => <input style={{ boxShadow: "inset 0 0 0 2px #1a73e8", padding: 16 }} />;' }
+            ];
+
+            const diags = runStaticRules(tokens, config, codeFiles);
+
+            expect(diags.map(d => [d.ruleId, d.message])).toEqual([
+                ['raw-pixel', 'Raw pixel value 16 should use a design token'],
+                ['raw-shadow', 'Raw box-shadow 0 1px 2px rgb(0 0 0 / 10%) should use token "shadow.sm"'],
+                ['raw-shadow', 'Raw box-shadow 0 2px 2px #000 does not match any shadow token (nearest token "shadow.sm")'],
+                ['raw-shadow', 'Raw box-shadow inset 0 0 0 2px #1a73e8 should use token "shadow.focus"']
+            ]);
+            const start = content.indexOf('0 1px');
+            expect(diags[1].edits).toEqual([{ file: 'a.css', start, end: start + 26, replacement: 'var(--shadow-sm)' }]);
+            expect(diags[2].edits).toBeUndefined();
+        });
+
+        it('should leave shadows to raw-color and raw-pixel when the rule is off', () => {
+            const codeFiles: CodeFile[] = [{ path: 'c.css', language: 'css', content: '.c { box-shadow: 0 2px #1a73e8; }' }];
+
+            const diags = runStaticRules(tokens, { 'raw-color': config['raw-color'], 'raw-pixel': config['raw-pixel'] }, codeFiles);
+
+            expect(diags.map(d => d.ruleId)).toEqual(['raw-color', 'raw-pixel']);
+        });
+    });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import { runStaticRules } from '../src/engine/staticRunner';
+import { resolveTokenAliases } from '../src/adapters/aliasResolver';
+import { resolveTailwindTheme } from '../src/tailwind';
+import { Token, CodeFile } from '../src/types';
+
+describe('Static Runner', () => {
+    describe('modes', () => {
+        const tokens: Token[] = [
+            {
+                type: 'color',
+                name: 'color.background',
+                rawValue: '#ffffff',
+                modes: { light: '#ffffff', dark: '#202124' },
+                meta: { collection: 'Theme' }
+            },
+            {
+                type: 'color',
+                name: 'color.text',
+                rawValue: '#202124',
+                modes: { light: '#202124' },
+                meta: { collection: 'Theme' }
+            }
+        ];
+
+        it('should accept a raw color matching the token value of any mode', () => {
+            const codeFiles: CodeFile[] = [{
+                path: 'src/App.css',
+                language: 'css',
+                content: '.dark { background: #202124; }\n.accent { color: #ff0000; }'
+            }];
+
+            const diags = runStaticRules(tokens, { 'raw-color': { severity: 'warn', enabled: true } }, codeFiles);
+
+            expect(diags).toHaveLength(1);
+            expect(diags[0]).toMatchObject({ ruleId: 'raw-color', line: 2 });
+        });
+
+        it('should report tokens missing a value in one of the collection modes', () => {
+            const diags = runStaticRules(tokens, { 'missing-mode': { severity: 'warn', enabled: true } });
+
+            expect(diags).toHaveLength(1);
+            expect(diags[0]).toMatchObject({
+                ruleId: 'missing-mode',
+                tokenName: 'color.text',
+                message: 'Token "color.text" has no value for mode "dark"'
+            });
+        });
+    });
+
+    describe('alias-reference', () => {
+        it('should report tokens with a recorded alias error', () => {
+            const tokens: Token[] = [{
+                type: 'color',
+                name: 'color.link',
+                rawValue: '{color.missing}',
+                meta: { aliasError: { type: 'dangling', reference: 'color.missing', chain: ['color.link', 'color.missing'] } }
+            }];
+
+            const diags = runStaticRules(tokens, { 'alias-reference': { severity: 'error', enabled: true } });
+
+            expect(diags).toHaveLength(1);
+            expect(diags[0]).toMatchObject({ ruleId: 'alias-reference', severity: 'error', tokenName: 'color.link' });
+        });
+    });
+
+    describe('dimensions', () => {
+        const tokens: Token[] = [
+            { type: 'spacing', name: 'spacing.sm', rawValue: '0.5rem' },
+            { type: 'spacing', name: 'spacing.md', rawValue: 16 },
+            { type: 'spacing', name: 'spacing.lg', rawValue: '24px' },
+            { type: 'size', name: 'size.half', rawValue: '50%' }
+        ];
+
+        it('should compare px, rem and em values by their size in px', () => {
+            const codeFiles: CodeFile[] = [{
+                path: 'src/a.css',
+                language: 'css',
+                content: '.a { margin: 1rem 8px; padding: 1.5em; gap: 2.6rem; width: 50%; }'
+            }];
+
+            const diags = runStaticRules(tokens, { 'raw-pixel': { severity: 'warn', enabled: true } }, codeFiles);
+
+            expect(diags.map(d => [d.problem, d.suggestedToken])).toEqual([
+                ['raw dimension 2.6rem', 'spacing.lg']
+            ]);
+            expect(diags[0].message).toBe('Raw dimension 2.6rem should use a design token');
+        });
+
+        it('should convert rem with the configured root font size and report the configured units', () => {
+            const codeFiles: CodeFile[] = [{
+                path: 'src/a.css',
+                language: 'css',
+                content: '.a { margin: 1rem; width: 40%; height: 50%; color: hsl(0 0% 40%); }'
+            }];
+
+            const diags = runStaticRules(tokens, {
+                'raw-pixel': { severity: 'warn', enabled: true, rootFontSize: 10, units: ['rem', '%'] }
+            }, codeFiles);
+
+            expect(diags.map(d => [d.problem, d.suggestedToken])).toEqual([
+                ['raw dimension 1rem', 'spacing.sm'],
+                ['raw dimension 40%', 'size.half']
+            ]);
+        });
+    });
+
+    describe('fix edits', () => {
+        const tokens: Token[] = [
+            { type: 'color', name: 'color.primary', rawValue: '#1a73e8' },
+            { type: 'spacing', name: 'spacing.md', rawValue: '16px' }
+        ];
+
+        it('should attach a range edit replacing a raw color with the suggested token', () => {
+            const content = '.a {\n  color: #1b74e9;\n  margin: 15px;\n}';
+            const codeFiles: CodeFile[] = [{ path: 'src/a.css', language: 'css', content }];
+
+            const diags = runStaticRules(tokens, {
+                'raw-color': { severity: 'warn', enabled: true },
+                'raw-pixel': { severity: 'warn', enabled: true }
+            }, codeFiles);
+
+            const color = diags.find(d => d.ruleId === 'raw-color')!;
+            expect(color.fixedCode).toBe('  color: var(--color-primary);');
+            expect(color.edits).toEqual([{
+                file: 'src/a.css',
+                start: content.indexOf('#1b74e9'),
+                end: content.indexOf('#1b74e9') + 7,
+                replacement: 'var(--color-primary)'
+            }]);
+
+            const pixel = diags.find(d => d.ruleId === 'raw-pixel')!;
+            expect(pixel.suggestedToken).toBe('spacing.md');
+            expect(pixel.edits).toBeUndefined();
+            expect(pixel.fixedCode).toBeUndefined();
+        });
+
+        it('should not attach edits to lengths no token matches, calc() operands included', () => {
+            const codeFiles: CodeFile[] = [{ path: 'src/a.css', language: 'css', content: '.a { padding: 13px; width: calc(100% - 24px); }' }];
+
+            const diags = runStaticRules([], { 'raw-pixel': { severity: 'warn', enabled: true } }, codeFiles);
+
+            expect(diags.map(d => d.problem)).toEqual(['raw pixel 13px', 'raw pixel 24px']);
+            expect(diags.every(d => d.suggestedToken === undefined && d.edits === undefined)).toBe(true);
+        });
+
+        it('should not attach edits when there is no token to suggest', () => {
+            const codeFiles: CodeFile[] = [{ path: 'src/a.css', language: 'css', content: '.a { color: #ff0000; }' }];
+
+            const diags = runStaticRules([], { 'raw-color': { severity: 'warn', enabled: true } }, codeFiles);
+
+            expect(diags[0].edits).toBeUndefined();
+        });
+
+        it('should report numbers of inline styles without rewriting them', () => {
+            const content = 'export const A = () => <div style={{ padding: 15, marginTop: -15 }} />;';
+            const codeFiles: CodeFile[] = [{ path: 'src/A.tsx', language: 'typescript', content }];
+
+            const diags = runStaticRules(tokens, { 'raw-pixel': { severity: 'warn', enabled: true } }, codeFiles);
+
+            expect(diags.map(d => d.message)).toEqual([
+                'Raw pixel value 15 should use a design token',
+                'Raw pixel value 15 should use a design token'
+            ]);
+            expect(diags.map(d => d.suggestedToken)).toEqual(['spacing.md', 'spacing.md']);
+            expect(diags.map(d => d.edits)).toEqual([undefined, undefined]);
+        });
+    });
+
+    describe('off-palette suggestions', () => {
+        const tokens: Token[] = [{ type: 'color', name: 'color.primary', rawValue: '#1a73e8' }];
+        const codeFiles: CodeFile[] = [{ path: 'src/a.css', language: 'css', content: '.a { color: #4285f4; }\n.b { color: #ff0000; }' }];
+
+        it('should only name tokens within maxSuggestionDeltaE', () => {
+            const diags = runStaticRules(tokens, { 'raw-color': { severity: 'warn', enabled: true } }, codeFiles);
+
+            expect(diags.map(d => d.message)).toEqual([
+                'Raw color #4285f4 is not in the palette (nearest token "color.primary", ΔE 6.56)',
+                'Raw color #ff0000 is not in the palette'
+            ]);
+            expect(diags.map(d => d.suggestedToken)).toEqual(['color.primary', undefined]);
+            expect(diags[1].candidates).toEqual([]);
+        });
+
+        it('should follow the configured maxSuggestionDeltaE', () => {
+            const narrow = runStaticRules(tokens, {
+                'raw-color': { severity: 'warn', enabled: true, maxSuggestionDeltaE: 6 }
+            }, codeFiles);
+
+            expect(narrow.map(d => d.suggestedToken)).toEqual([undefined, undefined]);
+
+            const wide = runStaticRules(tokens, {
+                'raw-color': { severity: 'warn', enabled: true, maxSuggestionDeltaE: 60 }
+            }, codeFiles);
+
+            expect(wide.map(d => d.suggestedToken)).toEqual(['color.primary', 'color.primary']);
+        });
+    });
+
+    describe('unused-token', () => {
+        const color = (name: string, rawValue: string, modes?: Record<string, string>): Token => ({ type: 'color', name, rawValue, modes });
+
+        it('should count custom properties, SCSS variables, token() calls and Tailwind classes as references', () => {
+            const tokens = [
+                color('color.primary', '#1a73e8'),
+                color('color.secondary', '#34a853'),
+                color('color.accent', '#fbbc04'),
+                color('color.brand', '#ff5722'),
+                color('color.danger', '#ea4335'),
+                color('color.unused', '#000000')
+            ];
+            const codeFiles: CodeFile[] = [
+                { path: 'src/a.css', language: 'css', content: ':root { --color-unused: #000; }\n.a { color: var(--color-primary); }' },
+                { path: 'src/b.scss', language: 'scss', content: '$color-unused: #000;\n.b { color: $color-secondary; }' },
+                { path: 'src/c.ts', language: 'typescript', content: "const accent = token('color.accent');" },
+                { path: 'src/d.tsx', language: 'typescript', content: 'export const D = () => <div className="bg-brand text-[--color-danger]" />;' }
+            ];
+            const theme = resolveTailwindTheme({ theme: { extend: { colors: { brand: 'var(--color-brand)' } } } });
+
+            const diags = runStaticRules(tokens, { 'unused-token': { severity: 'info', enabled: true } }, codeFiles, { tailwindTheme: theme });
+
+            expect(diags).toHaveLength(1);
+            expect(diags[0]).toMatchObject({ ruleId: 'unused-token', severity: 'info', tokenName: 'color.unused' });
+        });
+
+        it('should count tokens only used through aliases, per-mode ones included, and search the reference files', () => {
+            const tokens = [
+                color('color.blue.500', '#1a73e8'),
+                color('color.blue.900', '#0d47a1'),
+                color('color.primary', '{color.blue.500}', { light: '{color.blue.500}', dark: '{color.blue.900}' }),
+                color('color.orphan', '#000000')
+            ];
+            resolveTokenAliases(tokens);
+            const referenceFiles: CodeFile[] = [{ path: 'src/a.css', language: 'css', content: '.a { color: var(--color-primary); }' }];
+
+            const diags = runStaticRules(tokens, { 'unused-token': { severity: 'warn', enabled: true } }, [], { referenceFiles });
+
+            expect(diags.map(d => d.tokenName)).toEqual(['color.orphan']);
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { extractComments } from '../../src/parsers/comments';
+import { parseDisableDirectives } from '../../src/suppression';
+import { runLintPipeline } from '../../src/engine/pipeline';
+import { Token, CodeFile } from '../../src/types';
+
+const tokens: Token[] = [
+    { type: 'color', name: 'color.primary', rawValue: '#1a73e8' },
+    { type: 'spacing', name: 'spacing.md', rawValue: '16px' }
+];
+
+async function lintFiles(codeFiles: CodeFile[], disableDirectives?: Record<string, unknown>) {
+    const config = { source: { path: './tokens.json' }, rules: {}, ...(disableDirectives && { disableDirectives }) };
+    const { diagnostics } = await runLintPipeline({ config, tokens, files: codeFiles, ai: false });
+    return diagnostics.map(d => [d.ruleId, d.line]);
+}
+
+describe('suppression', () => {
+    beforeEach(() => {
+        vi.stubEnv('OPENAI_API_KEY', '');
+        vi.stubEnv('GEMINI_API_KEY', '');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should read directives from CSS, SCSS, TS and markup comments', () => {
+        const sources: [CodeFile['language'], string][] = [
+            ['css', '/* dslint-disable-next-line raw-color -- partner logo */\n.a { color: #ff0000; }'],
+            ['scss', '.a {\n  // dslint-disable-next-line raw-color -- partner logo\n  color: #ff0000;\n}'],
+            ['typescript', 'const a = {\n  // dslint-disable-next-line raw-color -- partner logo\n  color: "#ff0000",\n};'],
+            ['vue', '<template>\n  <!-- dslint-disable-next-line raw-color -- partner logo -->\n  <div style="color: #ff0000" />\n</template>']
+        ];
+
+        for (const [language, content] of sources) {
+            const [directive] = parseDisableDirectives(extractComments(content, language, `a.${language}`));
+            expect(directive).toMatchObject({ kind: 'disable-next-line', rules: ['raw-color'], justification: 'partner logo' });
+        }
+
+        // `//` in JSX text is text, and a comment that only mentions a directive isn't one
+        const jsx = 'const a = <p>\n  http://example.com // dslint-disable\n  {/* see dslint-disable */}\n</p>;';
+        expect(parseDisableDirectives(extractComments(jsx, 'typescript', 'a.tsx'))).toEqual([]);
+    });
+
+    it('should suppress the problems of the next line, the same line and disabled blocks', async () => {
+        const content = [
+            '.logo {',
+            '  /* dslint-disable-next-line raw-color */',
+            '  color: #ff0000;',
+            '  background: #00ff00; /* dslint-disable-line */',
+            '  padding: 13px;',
+            '}',
+            '/* dslint-disable raw-color, raw-pixel */',
+            '.partner { color: #0000ff; margin: 13px; }',
+            '/* dslint-enable raw-pixel */',
+            '.partner-2 { color: #0000ff; margin: 13px; }'
+        ].join('\n');
+
+        expect(await lintFiles([{ path: 'a.css', language: 'css', content }])).toEqual([
+            ['raw-pixel', 5],
+            ['raw-pixel', 10]
+        ]);
+    });
+
+    it('should disable a whole file and report directives that suppress nothing', async () => {
+        const codeFiles: CodeFile[] = [
+            { path: 'a.css', language: 'css', content: '/* dslint-disable */\n.a { color: #ff0000; margin: 13px; }' },
+            { path: 'b.css', language: 'css', content: '/* dslint-disable-next-line raw-color, raw-pixel */\n.b { color: #ff0000; }\n/* dslint-disable-line ai-semantic-naming */' }
+        ];
+
+        expect(await lintFiles(codeFiles)).toEqual([['unused-disable-directive', 1]]);
+        expect(await lintFiles(codeFiles, { reportUnused: 'off' })).toEqual([]);
+    });
+
+    it('should only honor justified directives when a justification is required', async () => {
+        const content = [
+            '/* dslint-disable-next-line raw-color -- brand partner logo */',
+            '.a { color: #ff0000; }',
+            '/* dslint-disable-next-line raw-color */',
+            '.b { color: #ff0000; }'
+        ].join('\n');
+
+        expect(await lintFiles([{ path: 'a.css', language: 'css', content }], { requireJustification: true })).toEqual([
+            ['raw-color', 4],
+            ['disable-directive-justification', 3]
+        ]);
+    });
+});
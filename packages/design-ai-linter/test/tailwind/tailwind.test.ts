@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+    parseTailwindClass,
+    formatTailwindClass,
+    extractClassNames,
+    extractTailwindDeclarations,
+    resolveTailwindTheme,
+    loadTailwindTheme
+} from '../../src/tailwind';
+import { runStaticRules } from '../../src/engine/staticRunner';
+import { Token, CodeFile } from '../../src/types';
+
+describe('tailwind', () => {
+    describe('parseTailwindClass', () => {
+        it('should split variants, utility and arbitrary value', () => {
+            expect(parseTailwindClass('md:hover:!-mt-[13px]')).toMatchObject({
+                variants: 'md:hover:',
+                important: true,
+                negative: true,
+                utility: 'mt',
+                value: '13px',
+                arbitrary: true,
+                valueOffset: 'md:hover:!-mt-['.length
+            });
+            expect(parseTailwindClass('text-[length:15px]')).toMatchObject({ utility: 'text', value: '15px', valueOffset: 'text-[length:'.length });
+            expect(parseTailwindClass('[&>*]:bg-[#fff]/50')).toMatchObject({ variants: '[&>*]:', utility: 'bg', value: '#fff', modifier: '/50' });
+        });
+
+        it('should read theme keys with the longest utility prefix', () => {
+            expect(parseTailwindClass('border-t-2')).toMatchObject({ utility: 'border-t', value: '2', arbitrary: false });
+            expect(parseTailwindClass('rounded')).toMatchObject({ utility: 'rounded', value: 'DEFAULT' });
+            expect(parseTailwindClass('bg-primary-hover/80')).toMatchObject({ utility: 'bg', value: 'primary-hover', modifier: '/80' });
+            expect(parseTailwindClass('flex')).toBeUndefined();
+            expect(parseTailwindClass('grid-cols-[1fr_2fr]')).toBeUndefined();
+        });
+
+        it('should write a class back with another value', () => {
+            const parsed = parseTailwindClass('hover:p-[13px]')!;
+            expect(formatTailwindClass(parsed, { key: '3' })).toBe('hover:p-3');
+            expect(formatTailwindClass(parsed, { arbitrary: 'var(--spacing-md)' })).toBe('hover:p-[var(--spacing-md)]');
+        });
+    });
+
+    describe('extractClassNames', () => {
+        it('should find classes in class attributes, class helpers and cva variants', () => {
+            const tsx = [
+                "import { cva } from 'class-variance-authority';",
+                "const button = cva('px-[13px] rounded', { variants: { size: { sm: 'text-[15px]' } } });",
+                'export const A = ({ active }) => (',
+                "    <div className={clsx('bg-[#1a73e8]', { 'p-[3px]': active }, t('p-[9px]'))}>",
+                "        <span className={`gap-2 ${active ? 'mt-[2px]' : ''} w-4`} title=\"p-[1px]\" />",
+                '    </div>',
+                ');'
+            ].join('\n');
+
+            expect(extractClassNames(tsx, 'typescript', 'A.tsx').map(c => c.className)).toEqual([
+                'px-[13px]', 'rounded', 'text-[15px]', 'bg-[#1a73e8]', 'p-[3px]', 'gap-2', 'mt-[2px]', 'w-4'
+            ]);
+        });
+
+        it('should find classes of @apply rules', () => {
+            const css = '.btn {\n  @apply px-4 bg-[#1a73e8];\n}';
+
+            expect(extractClassNames(css, 'css')).toEqual([
+                { className: 'px-4', offset: css.indexOf('px-4') },
+                { className: 'bg-[#1a73e8]', offset: css.indexOf('bg-') }
+            ]);
+        });
+
+        it('should find classes of Vue, Svelte and Astro class attributes and bindings', () => {
+            const vue = '<template>\n  <div class="card p-[13px]" :class="{ \'bg-[#fafafa]\': active }" />\n</template>';
+            const svelte = '<div class="a {active ? \'b\' : \'\'} mt-[2px]" class:hidden={!open} />';
+            const astro = '---\nconst x = cn(\'gap-[3px]\');\n---\n<Card class:list={[\'p-[5px]\', { \'m-[7px]\': x }]} />';
+
+            expect(extractClassNames(vue, 'vue').map(c => c.className)).toEqual(['card', 'p-[13px]', 'bg-[#fafafa]']);
+            expect(extractClassNames(svelte, 'svelte').map(c => c.className)).toEqual(['a', 'mt-[2px]', 'hidden']);
+            expect(extractClassNames(astro, 'astro').map(c => [c.className, astro.slice(c.offset, c.offset + c.className.length)])).toEqual([
+                ['gap-[3px]', 'gap-[3px]'],
+                ['p-[5px]', 'p-[5px]'],
+                ['m-[7px]', 'm-[7px]']
+            ]);
+        });
+
+        it('should turn arbitrary values into declarations positioned inside the brackets', () => {
+            const tsx = '<div className="text-[15px] text-[#333] shadow-[0_1px_2px_#0000001a]" />';
+
+            expect(extractTailwindDeclarations(tsx, 'typescript', 'a.tsx').map(d => [d.property, d.value, tsx.slice(d.offset, d.offset + 4)])).toEqual([
+                ['font-size', '15px', '15px'],
+                ['color', '#333', '#333'],
+                ['box-shadow', '0 1px 2px #0000001a', '0_1p']
+            ]);
+        });
+    });
+
+    describe('loadTailwindTheme', () => {
+        it('should merge the project theme over the default scales', async () => {
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dslint-tailwind-'));
+            try {
+                await fs.writeFile(path.join(dir, 'tailwind.config.js'), `module.exports = ${JSON.stringify({
+                    theme: {
+                        borderRadius: { card: '12px' },
+                        extend: {
+                            colors: { primary: { DEFAULT: '#1a73e8', hover: '#1765cc' } },
+                            fontSize: { body: ['15px', { lineHeight: '1.5' }] }
+                        }
+                    }
+                })};`);
+
+                const theme = await loadTailwindTheme(dir);
+
+                expect(theme?.sections.colors).toEqual({ primary: '#1a73e8', 'primary-hover': '#1765cc' });
+                expect(theme?.sections.borderRadius).toEqual({ card: '12px' });
+                expect(theme?.sections.fontSize).toMatchObject({ sm: '0.875rem', body: '15px' });
+                expect(theme?.sections.spacing['3']).toBe('0.75rem');
+                expect([...theme!.custom.fontSize]).toEqual(['body']);
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('rules', () => {
+        const tokens: Token[] = [
+            { type: 'color', name: 'color.primary', rawValue: '#1a73e8' },
+            { type: 'spacing', name: 'spacing.sm', rawValue: '8px' },
+            { type: 'spacing', name: 'spacing.md', rawValue: '16px' }
+        ];
+        const theme = resolveTailwindTheme({
+            theme: {
+                extend: {
+                    colors: { primary: 'var(--color-primary)', brand: { DEFAULT: '#ff5722' } },
+                    spacing: { gutter: '16px' }
+                }
+            }
+        }, '/project/tailwind.config.js');
+
+        it('should fix arbitrary values with the token-backed utility class', () => {
+            const content = '<div className="hover:bg-[#1a73e8] p-[15px] shadow-[0_1px_#1a73e8]" />';
+            const codeFiles: CodeFile[] = [{ path: 'a.tsx', language: 'typescript', content }];
+
+            const diags = runStaticRules(tokens, {
+                'raw-color': { severity: 'warn', enabled: true, severities: { exact: 'warn' } },
+                'raw-pixel': { severity: 'warn', enabled: true, units: ['px'] }
+            }, codeFiles, { tailwindTheme: theme });
+
+            const replacements = diags.flatMap(d => d.edits ?? []).map(e => `${content.slice(e.start, e.end)} → ${e.replacement}`);
+            expect(replacements).toEqual([
+                'hover:bg-[#1a73e8] → hover:bg-primary',
+                '#1a73e8 → var(--color-primary)'
+            ]);
+            // Lengths off the scale only name the nearest token
+            expect(diags.filter(d => d.ruleId === 'raw-pixel').map(d => [d.problem, d.suggestedToken])).toEqual([
+                ['raw pixel 15px', 'spacing.md'],
+                ['raw pixel 1px', 'spacing.sm']
+            ]);
+        });
+
+        it('should fall back to the token custom property without a Tailwind config', () => {
+            const content = '<div className="bg-[#1a73e8]" />';
+
+            const [diag] = runStaticRules(tokens, { 'raw-color': { severity: 'warn', enabled: true, severities: { exact: 'warn' } } }, [{ path: 'a.tsx', language: 'typescript', content }]);
+
+            expect(diag.edits?.[0].replacement).toBe('bg-[var(--color-primary)]');
+        });
+
+        it('should report theme values and default utilities that are not on the token scale', () => {
+            const content = '<div className="p-2 p-3 mt-0 bg-brand text-sm" />';
+            const codeFiles: CodeFile[] = [{ path: 'a.tsx', language: 'typescript', content }];
+
+            const diags = runStaticRules(tokens, { 'tailwind-theme': { severity: 'warn', enabled: true } }, codeFiles, { tailwindTheme: theme });
+
+            expect(diags.map(d => d.message)).toEqual([
+                'Tailwind theme value colors.brand (#ff5722) is not backed by a design token',
+                'Utility p-3 (0.75rem) is not on the token scale'
+            ]);
+            expect(diags[0].file).toMatch(/tailwind\.config\.js$/);
+            expect(diags[1]).toMatchObject({ suggestedToken: 'spacing.sm', suggestion: 'p-2' });
+            expect(content.slice(diags[1].edits![0].start, diags[1].edits![0].end)).toBe('p-3');
+        });
+    });
+});
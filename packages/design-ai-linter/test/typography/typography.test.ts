@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseTypographyValue,
+    parseTypographyValues,
+    createTypographyScale,
+    findTypographyToken,
+    findNearestTypographyValue
+} from '../../src/typography';
+import { runStaticRules } from '../../src/engine/staticRunner';
+import { Token, CodeFile } from '../../src/types';
+
+const context = { rootFontSize: 16 };
+
+const tokens: Token[] = [
+    { type: 'typography', name: 'typography.body', rawValue: { fontFamily: 'Inter', fontSize: '16px', fontWeight: 'Regular', lineHeight: '150%' } },
+    { type: 'typography', name: 'typography.heading', rawValue: { fontFamily: ['Inter', 'sans-serif'], fontSize: 24, fontWeight: 700, lineHeight: 1.25, letterSpacing: '-1%' } },
+    { type: 'fontSizes', name: 'font.size.sm', rawValue: '14px' },
+    { type: 'fontWeights', name: 'font.weight.bold', rawValue: 'Bold' },
+    { type: 'spacing', name: 'spacing.md', rawValue: '16px' }
+];
+
+describe('typography', () => {
+    describe('parseTypographyValue', () => {
+        it('should normalize values written in tokens and in CSS', () => {
+            expect(parseTypographyValue('fontFamily', '"Inter", sans-serif', context)).toEqual(['inter', 'sans-serif']);
+            expect(parseTypographyValue('fontSize', '1.5rem', context)).toBe(24);
+            expect(parseTypographyValue('fontWeight', 'Semi Bold Italic', context)).toBe(600);
+            expect(parseTypographyValue('lineHeight', '150%', context)).toEqual({ value: 1.5, relative: true });
+            expect(parseTypographyValue('lineHeight', 1.5, context)).toEqual({ value: 1.5, relative: true });
+            expect(parseTypographyValue('letterSpacing', 0.5, context)).toEqual({ value: 0.5, relative: false });
+            expect(parseTypographyValue('letterSpacing', '-0.02em', context)).toEqual({ value: -0.02, relative: true });
+        });
+
+        it('should skip keywords and references', () => {
+            expect(parseTypographyValue('fontFamily', 'inherit', context)).toBeUndefined();
+            expect(parseTypographyValue('fontSize', 'var(--font-size-md)', context)).toBeUndefined();
+            expect(parseTypographyValue('lineHeight', 'normal', context)).toBeUndefined();
+            expect(parseTypographyValues({ fontSize: '{font.size.md}', fontWeight: 700 }, context)).toEqual({ fontWeight: 700 });
+        });
+    });
+
+    describe('scale', () => {
+        const scale = createTypographyScale(tokens, context);
+
+        it('should index composite and single-property tokens only', () => {
+            expect(scale.entries.map(e => [e.token.name, e.composite])).toEqual([
+                ['typography.body', true],
+                ['typography.heading', true],
+                ['font.size.sm', false],
+                ['font.weight.bold', false]
+            ]);
+        });
+
+        it('should find the composite token matching a whole group through the font size', () => {
+            const group = { fontSize: 16, lineHeight: { value: 24, relative: false } };
+            expect(findTypographyToken(group, scale)?.name).toBe('typography.body');
+            expect(findTypographyToken({ fontSize: 16, fontWeight: 700 }, scale)).toBeUndefined();
+        });
+
+        it('should prefer single-property tokens at the same distance', () => {
+            expect(findNearestTypographyValue('fontWeight', 700, scale)).toMatchObject({ token: { name: 'font.weight.bold' }, difference: 0 });
+            expect(findNearestTypographyValue('fontSize', 15, scale)).toMatchObject({ token: { name: 'font.size.sm' }, difference: 1 });
+        });
+    });
+
+    describe('raw-typography', () => {
+        const config = {
+            'raw-pixel': { severity: 'warn' as const, enabled: true },
+            'raw-typography': { severity: 'warn' as const, enabled: true }
+        };
+
+        it('should report a declaration group matching a typography token once', () => {
+            const codeFiles: CodeFile[] = [
+                { path: 'a.css', language: 'css', content: '.a { font-family: "Inter", sans-serif; font-size: 1rem; line-height: 24px; }' },
+                { path: 'A.tsx', language: 'typescript', content: 'export const A = () => <h1 style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.25 }} />;' }
+            ];
+
+            const diags = runStaticRules(tokens, config, codeFiles);
+
+            expect(diags.map(d => [d.ruleId, d.file, d.suggestedToken])).toEqual([
+                ['raw-typography', 'a.css', 'typography.body'],
+                ['raw-typography', 'A.tsx', 'typography.heading']
+            ]);
+            expect(diags[0].edits).toBeUndefined();
+        });
+
+        it('should match single values and fix those with a token of their own', () => {
+            const content = '.b { font-size: 14px; font-weight: 700; margin: 15px; }\n.c { font-size: 15px; font-family: Comic Sans MS; }';
+            const codeFiles: CodeFile[] = [{ path: 'b.css', language: 'css', content }];
+
+            const diags = runStaticRules(tokens, config, codeFiles);
+
+            expect(diags.map(d => d.message)).toEqual([
+                'Raw pixel value 15px should use a design token',
+                'Raw font-size 14px should use token "font.size.sm"',
+                'Raw font-weight 700 should use token "font.weight.bold"',
+                'Raw font-size 15px is not on the typography scale (nearest token "font.size.sm")',
+                'Raw font-family Comic Sans MS is not defined by any typography token'
+            ]);
+            expect(diags[1].edits).toEqual([{ file: 'b.css', start: content.indexOf('14px'), end: content.indexOf('14px') + 4, replacement: 'var(--font-size-sm)' }]);
+            expect(diags[3].edits).toBeUndefined();
+        });
+
+        it('should leave typography properties to raw-pixel when the rule is off', () => {
+            const codeFiles: CodeFile[] = [{ path: 'c.css', language: 'css', content: '.c { font-size: 15px; }' }];
+
+            const diags = runStaticRules(tokens, { 'raw-pixel': config['raw-pixel'] }, codeFiles);
+
+            expect(diags.map(d => d.ruleId)).toEqual(['raw-pixel']);
+        });
+    });
+});